@@ -0,0 +1,128 @@
+const httpStatus = require('http-status');
+const ApiError = require('../utils/ApiError');
+
+/**
+ * The contract every adapter implements
+ * Subclasses declare the provider type they serve (static `type`) and what they support (static `capabilities`),
+ * then override the methods they implement
+ */
+class BaseAdapter {
+  /**
+   * @param {Object} [adapterConfig] - the provider's adapterConfig
+   * @param {Object} [credentials] - the provider's credentials
+   * @param {Object} [context]
+   * @param {string} [context.providerId] - id of the provider, for the state shared by its adapters (e.g. process pools)
+   */
+  constructor(adapterConfig = {}, credentials = {}, context = {}) {
+    this.adapterConfig = adapterConfig;
+    this.credentials = credentials;
+    this.providerId = context.providerId;
+  }
+
+  /**
+   * Provider type served by the adapter (e.g. spawn-cli)
+   * @returns {string}
+   */
+  static get type() {
+    return undefined;
+  }
+
+  /**
+   * Features supported by the adapter
+   *  - streaming: answers are produced incrementally (otherwise streams are emulated with a single chunk)
+   *  - tools: tools / tool_choice are honoured
+   *  - vision: image content parts are honoured
+   *  - embeddings: handleEmbeddings is implemented
+   *  - json_mode: response_format json_object is honoured
+   *  - passthrough: the upstream speaks OpenAI, so handleChat resolves with the upstream `completion` object and
+   *    handleChatStream calls onChunk with the upstream chat.completion.chunk objects, both forwarded unchanged
+   * @returns {Object}
+   */
+  static get capabilities() {
+    return {
+      streaming: false,
+      tools: false,
+      vision: false,
+      embeddings: false,
+      json_mode: false,
+      passthrough: false,
+    };
+  }
+
+  /**
+   * Prepare the adapter before the first call (open connections, check binaries...)
+   * @returns {Promise}
+   */
+  async init() {
+    return this;
+  }
+
+  /**
+   * Answer a chat completion request
+   * @param {Object} params
+   * @param {Object[]} params.messages - OpenAI messages
+   * @param {string} params.model - adapter model id
+   * @param {Object} [params.options] - remaining OpenAI parameters (temperature, max_tokens...)
+   * @param {AbortSignal} [params.signal]
+   * @returns {Promise<{ content: string, finishReason?: string, usage?: Object, files?: Object[] }>} files are the
+   *   files the upstream created, modified or deleted (see Workspace.changes), returned as workspace_files
+   */
+  // eslint-disable-next-line no-unused-vars
+  async handleChat(params) {
+    throw new ApiError(httpStatus.NOT_IMPLEMENTED, `${this.constructor.name} does not implement chat completions`);
+  }
+
+  /**
+   * Answer a chat completion request incrementally
+   * The default implementation sends the whole answer of handleChat as a single chunk
+   * @param {Object} params - same as handleChat, plus:
+   * @param {function(string)} params.onChunk - called with every piece of content
+   * @returns {Promise<{ finishReason?: string, usage?: Object, files?: Object[] }>}
+   */
+  async handleChatStream({ onChunk, ...params }) {
+    const result = await this.handleChat(params);
+    onChunk(result.content);
+    return result;
+  }
+
+  /**
+   * Create embeddings
+   * @param {Object} params
+   * @param {string|string[]} params.input
+   * @param {string} params.model - adapter model id
+   * @returns {Promise<{ data: number[][], usage?: Object }>}
+   */
+  // eslint-disable-next-line no-unused-vars
+  async handleEmbeddings(params) {
+    throw new ApiError(httpStatus.NOT_IMPLEMENTED, `${this.constructor.name} does not implement embeddings`);
+  }
+
+  /**
+   * Check that the upstream is able to answer
+   * The default implementation sends a tiny ping prompt
+   * @param {Object} [params]
+   * @param {string} [params.model] - adapter model id to ping
+   * @param {AbortSignal} [params.signal]
+   * @returns {Promise<{ ok: boolean, latencyMs: number, message?: string }>}
+   */
+  async healthCheck({ model, signal } = {}) {
+    const start = Date.now();
+    try {
+      await this.handleChat({ messages: [{ role: 'user', content: 'ping' }], model, options: { max_tokens: 1 }, signal });
+      return { ok: true, latencyMs: Date.now() - start };
+    } catch (error) {
+      return { ok: false, latencyMs: Date.now() - start, message: error.message };
+    }
+  }
+
+  /**
+   * List the models the upstream exposes
+   * @returns {Promise<Object[]>} [{ id, contextWindow?, maxTokens? }]
+   */
+  // eslint-disable-next-line class-methods-use-this
+  async listRemoteModels() {
+    return [];
+  }
+}
+
+module.exports = BaseAdapter;
@@ -0,0 +1,204 @@
+const httpStatus = require('http-status');
+const BaseAdapter = require('./base.adapter');
+const AdapterError = require('../utils/AdapterError');
+const contentToText = require('../utils/contentToText');
+const { extractText, extractUsage } = require('../utils/extractFromJson');
+const renderJsonTemplate = require('../utils/renderJsonTemplate');
+const { withApiKey, requestJson, streamLines } = require('../utils/httpClient');
+const { adapterErrorCodes } = require('../config/adapters');
+const { providerTypes } = require('../config/providers');
+
+const DEFAULT_TIMEOUT_SECONDS = 120;
+const DEFAULT_MESSAGE_TEMPLATE = { role: '{{role}}', content: '{{content}}' };
+const DEFAULT_DONE_MARKER = '[DONE]';
+
+const streamFramings = {
+  SSE: 'sse',
+  NDJSON: 'ndjson',
+};
+
+/**
+ * Calls any HTTP API described declaratively in the provider's adapterConfig: the request is rendered from a JSON
+ * template, and the content, finish reason and usage are read from the response with JSONPath-style expressions
+ *
+ * Templates are JSON values whose strings may contain `{{name}}` placeholders; a string made of a single placeholder is
+ * replaced by the variable itself (arrays, numbers...) and dropped when the variable is undefined. Variables:
+ *  - model: adapter model id
+ *  - messages: every message rendered with messageTemplate; conversation: the same, without the system messages
+ *  - system: text of the system messages; prompt: the whole conversation as text; last_user_message
+ *  - max_tokens, temperature, top_p, stop (always an array), seed, user, stream
+ */
+class HttpSdkAdapter extends BaseAdapter {
+  /**
+   * @param {Object} adapterConfig
+   * @param {string} adapterConfig.endpoint - url of the chat endpoint, may contain `{{model}}`
+   * @param {string} [adapterConfig.method] - defaults to POST
+   * @param {Object} [adapterConfig.auth] - how the credentials are sent: { type: bearer|header|query|none, name }
+   * @param {Object} [adapterConfig.headers] - extra headers sent with every request
+   * @param {number} [adapterConfig.timeoutSeconds] - requests fail when the vendor stays silent for this long
+   * @param {*} adapterConfig.requestTemplate - template of the request body
+   * @param {Object} [adapterConfig.messageTemplate] - template of every message, rendered with `role` and `content`
+   * @param {Object} [adapterConfig.roleMap] - vendor names of the OpenAI roles (e.g. { assistant: 'model' })
+   * @param {Object} adapterConfig.response - paths of `content`, `finishReason` and `usage` counters in the response
+   * @param {Object} [adapterConfig.finishReasons] - OpenAI finish reasons of the vendor ones (e.g. { max_tokens: 'length' })
+   * @param {Object} [adapterConfig.stream] - streaming is native when set: { framing: sse|ndjson, endpoint, content,
+   *   finishReason, usage, doneMarker }, the paths being read from every event
+   * @param {Object} [credentials]
+   * @param {string} [credentials.apiKey]
+   * @param {Object} [context] - see BaseAdapter
+   */
+  constructor(adapterConfig, credentials, context) {
+    super(adapterConfig, credentials, context);
+    const { endpoint, requestTemplate, response } = adapterConfig;
+    if (!endpoint || !requestTemplate || !response || !response.content) {
+      throw new AdapterError(
+        httpStatus.BAD_GATEWAY,
+        adapterErrorCodes.UPSTREAM_NOT_CONFIGURED,
+        'The http-sdk provider needs an endpoint, a requestTemplate and a response.content path'
+      );
+    }
+    this.endpoint = endpoint;
+    this.method = adapterConfig.method || 'POST';
+    this.auth = adapterConfig.auth || {};
+    this.headers = adapterConfig.headers || {};
+    this.timeoutSeconds = adapterConfig.timeoutSeconds || DEFAULT_TIMEOUT_SECONDS;
+    this.requestTemplate = requestTemplate;
+    this.messageTemplate = adapterConfig.messageTemplate || DEFAULT_MESSAGE_TEMPLATE;
+    this.roleMap = adapterConfig.roleMap || {};
+    this.response = response;
+    this.finishReasons = adapterConfig.finishReasons || {};
+    this.stream = adapterConfig.stream;
+  }
+
+  static get type() {
+    return providerTypes.HTTP_SDK;
+  }
+
+  static get capabilities() {
+    return { ...super.capabilities, streaming: true };
+  }
+
+  /**
+   * Variables available to the templates
+   * @param {Object} params
+   * @param {boolean} stream
+   * @returns {Object}
+   */
+  templateVariables({ messages, model, options = {} }, stream) {
+    const textMessages = messages.map((message) => ({ role: message.role, content: contentToText(message.content) }));
+    const render = (message) =>
+      renderJsonTemplate(this.messageTemplate, {
+        role: this.roleMap[message.role] || message.role,
+        content: message.content,
+      });
+    const userMessages = textMessages.filter((message) => message.role === 'user');
+    const systemMessages = textMessages.filter((message) => message.role === 'system');
+    return {
+      model,
+      messages: textMessages.map(render),
+      conversation: textMessages.filter((message) => message.role !== 'system').map(render),
+      system: systemMessages.length ? systemMessages.map((message) => message.content).join('\n\n') : undefined,
+      prompt: textMessages.map((message) => `${message.role}: ${message.content}`).join('\n\n'),
+      last_user_message: userMessages.length ? userMessages[userMessages.length - 1].content : undefined,
+      max_tokens: options.max_tokens === undefined ? options.max_completion_tokens : options.max_tokens,
+      temperature: options.temperature,
+      top_p: options.top_p,
+      stop: typeof options.stop === 'string' ? [options.stop] : options.stop,
+      seed: options.seed,
+      user: options.user,
+      stream,
+    };
+  }
+
+  /**
+   * Options of a request to the vendor
+   * @param {string} endpoint - url template
+   * @param {Object} variables - template variables
+   * @param {Object} [params]
+   * @returns {Object}
+   */
+  requestOptions(endpoint, variables, params = {}) {
+    const url = renderJsonTemplate(endpoint, { model: encodeURIComponent(variables.model) });
+    const request = withApiKey({ url, headers: this.headers }, this.auth, this.credentials.apiKey);
+    return {
+      ...request,
+      method: this.method,
+      body: renderJsonTemplate(this.requestTemplate, variables),
+      timeoutMs: this.timeoutSeconds * 1000,
+      ...params,
+    };
+  }
+
+  /**
+   * Map a vendor finish reason to the OpenAI one
+   * @param {string} [reason]
+   * @returns {string|undefined}
+   */
+  toFinishReason(reason) {
+    if (reason === undefined) {
+      return undefined;
+    }
+    return this.finishReasons[reason] || reason;
+  }
+
+  async handleChat({ signal, ...params }) {
+    const variables = this.templateVariables(params, false);
+    const body = await requestJson(this.requestOptions(this.endpoint, variables, { signal }));
+    const content = extractText(body, this.response.content);
+    if (content === undefined) {
+      throw new AdapterError(
+        httpStatus.BAD_GATEWAY,
+        adapterErrorCodes.UPSTREAM_ERROR,
+        `No content found at ${this.response.content} in the upstream response`
+      );
+    }
+    return {
+      content,
+      finishReason: this.toFinishReason(extractText(body, this.response.finishReason)),
+      usage: extractUsage(body, this.response.usage),
+    };
+  }
+
+  async handleChatStream({ onChunk, signal, ...params }) {
+    if (!this.stream) {
+      return super.handleChatStream({ onChunk, signal, ...params });
+    }
+    const { framing = streamFramings.SSE, doneMarker = DEFAULT_DONE_MARKER } = this.stream;
+    const variables = this.templateVariables(params, true);
+    const result = {};
+    await streamLines(
+      this.requestOptions(this.stream.endpoint || this.endpoint, variables, {
+        signal,
+        onLine: (line) => {
+          let data = line;
+          if (framing === streamFramings.SSE) {
+            // event:, id: and comment lines carry no payload
+            if (!line.startsWith('data:')) {
+              return;
+            }
+            data = line.replace(/^data:\s*/, '');
+          }
+          if (data === doneMarker) {
+            return;
+          }
+          const event = JSON.parse(data);
+          const content = extractText(event, this.stream.content);
+          if (content) {
+            onChunk(content);
+          }
+          const finishReason = this.toFinishReason(extractText(event, this.stream.finishReason));
+          if (finishReason) {
+            result.finishReason = finishReason;
+          }
+          const usage = extractUsage(event, this.stream.usage);
+          if (usage) {
+            result.usage = usage;
+          }
+        },
+      })
+    );
+    return result;
+  }
+}
+
+module.exports = HttpSdkAdapter;
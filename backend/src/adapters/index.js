@@ -0,0 +1,91 @@
+const fs = require('fs');
+const path = require('path');
+const httpStatus = require('http-status');
+const ApiError = require('../utils/ApiError');
+const logger = require('../config/logger');
+const { providerTypes } = require('../config/providers');
+const BaseAdapter = require('./base.adapter');
+const SpawnCliAdapter = require('./spawnCli.adapter');
+const LocalAdapter = require('./local.adapter');
+const ProxyAdapter = require('./proxy.adapter');
+const HttpSdkAdapter = require('./httpSdk.adapter');
+
+const adapters = new Map();
+
+/**
+ * Register the adapter class serving a provider type
+ * @param {string} type - provider type
+ * @param {Function} Adapter - a subclass of BaseAdapter
+ */
+const registerAdapter = (type, Adapter) => {
+  if (!(Adapter.prototype instanceof BaseAdapter)) {
+    throw new Error(`Adapter for provider type ${type} must extend BaseAdapter`);
+  }
+  adapters.set(type, Adapter);
+};
+
+/**
+ * Get the adapter class serving a provider type
+ * @param {string} type
+ * @returns {Function|undefined}
+ */
+const getAdapter = (type) => adapters.get(type);
+
+/**
+ * Get every provider type a provider can be created with: the built-in ones and the custom registered ones
+ * @returns {string[]}
+ */
+const getProviderTypes = () => Array.from(new Set([...Object.values(providerTypes), ...adapters.keys()]));
+
+/**
+ * Register every `*.adapter.js` module found in a directory
+ * Each module exports a BaseAdapter subclass declaring its provider type
+ * @param {string} directory
+ * @returns {string[]} the registered provider types
+ */
+const loadAdapters = (directory) => {
+  const types = [];
+  // eslint-disable-next-line security/detect-non-literal-fs-filename
+  fs.readdirSync(directory)
+    .filter((file) => file.endsWith('.adapter.js'))
+    .forEach((file) => {
+      // eslint-disable-next-line global-require, import/no-dynamic-require, security/detect-non-literal-require
+      const Adapter = require(path.resolve(directory, file));
+      if (!Adapter.type) {
+        throw new Error(`Adapter ${file} does not declare a provider type`);
+      }
+      registerAdapter(Adapter.type, Adapter);
+      types.push(Adapter.type);
+      logger.info(`Registered adapter ${file} for provider type ${Adapter.type}`);
+    });
+  return types;
+};
+
+/**
+ * Create and initialize the adapter that serves a provider
+ * @param {Provider} provider
+ * @returns {Promise<BaseAdapter>}
+ */
+const createAdapter = async (provider) => {
+  const Adapter = getAdapter(provider.type);
+  if (!Adapter) {
+    throw new ApiError(httpStatus.NOT_IMPLEMENTED, `Provider type ${provider.type} is not supported`);
+  }
+  const adapter = new Adapter(provider.adapterConfig || {}, provider.credentials || {}, { providerId: provider.id });
+  await adapter.init();
+  return adapter;
+};
+
+registerAdapter(SpawnCliAdapter.type, SpawnCliAdapter);
+registerAdapter(LocalAdapter.type, LocalAdapter);
+registerAdapter(ProxyAdapter.type, ProxyAdapter);
+registerAdapter(HttpSdkAdapter.type, HttpSdkAdapter);
+
+module.exports = {
+  BaseAdapter,
+  registerAdapter,
+  getAdapter,
+  getProviderTypes,
+  loadAdapters,
+  createAdapter,
+};
@@ -0,0 +1,208 @@
+const BaseAdapter = require('./base.adapter');
+const contentToText = require('../utils/contentToText');
+const { withApiKey, requestJson, streamLines } = require('../utils/httpClient');
+const { providerTypes } = require('../config/providers');
+
+const DEFAULT_BASE_URL = 'http://127.0.0.1:11434';
+const DEFAULT_TIMEOUT_SECONDS = 120;
+
+const apiFlavors = {
+  OLLAMA: 'ollama',
+  OPENAI: 'openai',
+};
+
+/**
+ * Map the OpenAI parameters to the options of the native Ollama API
+ * @param {Object} options - OpenAI parameters
+ * @returns {Object}
+ */
+const toOllamaOptions = ({ temperature, max_tokens: maxTokens, top_p: topP, stop }) => {
+  const options = { temperature, num_predict: maxTokens, top_p: topP, stop: typeof stop === 'string' ? [stop] : stop };
+  return Object.keys(options).reduce((result, key) => {
+    if (options[key] !== undefined) {
+      // eslint-disable-next-line no-param-reassign
+      result[key] = options[key];
+    }
+    return result;
+  }, {});
+};
+
+/**
+ * Build the OpenAI usage object from the counters of a native Ollama response
+ * @param {Object} body
+ * @returns {Object|undefined}
+ */
+const toOllamaUsage = (body) => {
+  if (body.prompt_eval_count === undefined && body.eval_count === undefined) {
+    return undefined;
+  }
+  const promptTokens = body.prompt_eval_count || 0;
+  const completionTokens = body.eval_count || 0;
+  return { prompt_tokens: promptTokens, completion_tokens: completionTokens, total_tokens: promptTokens + completionTokens };
+};
+
+/**
+ * Forwards requests to a local model server: Ollama (native API) or any OpenAI-compatible server (LocalAI, TGI,
+ * Ollama's /v1 endpoints...)
+ */
+class LocalAdapter extends BaseAdapter {
+  /**
+   * @param {Object} adapterConfig
+   * @param {string} [adapterConfig.baseUrl] - root url of the server (defaults to the local Ollama)
+   * @param {string} [adapterConfig.api] - ollama (native API) or openai (OpenAI-compatible API)
+   * @param {number} [adapterConfig.timeoutSeconds] - requests fail when the server stays silent for this long
+   * @param {Object} [credentials]
+   * @param {string} [credentials.apiKey] - sent as a bearer token
+   * @param {Object} [context] - see BaseAdapter
+   */
+  constructor(adapterConfig, credentials, context) {
+    super(adapterConfig, credentials, context);
+    this.baseUrl = (adapterConfig.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, '');
+    this.api = adapterConfig.api || apiFlavors.OLLAMA;
+    this.timeoutSeconds = adapterConfig.timeoutSeconds || DEFAULT_TIMEOUT_SECONDS;
+  }
+
+  static get type() {
+    return providerTypes.LOCAL;
+  }
+
+  static get capabilities() {
+    return { ...super.capabilities, streaming: true, embeddings: true, json_mode: true };
+  }
+
+  /**
+   * Common options of the requests sent to the server
+   * @param {string} path
+   * @param {Object} [params]
+   * @returns {Object}
+   */
+  requestOptions(path, params = {}) {
+    const request = withApiKey({ url: `${this.baseUrl}${path}` }, {}, this.credentials.apiKey);
+    return { ...request, timeoutMs: this.timeoutSeconds * 1000, ...params };
+  }
+
+  /**
+   * Build the body of a chat request
+   * @param {Object} params
+   * @param {boolean} stream
+   * @returns {Object}
+   */
+  chatBody({ messages, model, options = {} }, stream) {
+    if (this.api === apiFlavors.OPENAI) {
+      return { ...options, model, messages, stream };
+    }
+    const body = {
+      model,
+      messages: messages.map((message) => ({ role: message.role, content: contentToText(message.content) })),
+      stream,
+      options: toOllamaOptions(options),
+    };
+    if (options.response_format && options.response_format.type === 'json_object') {
+      body.format = 'json';
+    }
+    return body;
+  }
+
+  async handleChat({ signal, ...params }) {
+    if (this.api === apiFlavors.OPENAI) {
+      const body = await requestJson(
+        this.requestOptions('/v1/chat/completions', { method: 'POST', body: this.chatBody(params, false), signal })
+      );
+      const [choice] = body.choices;
+      return { content: choice.message.content || '', finishReason: choice.finish_reason, usage: body.usage };
+    }
+    const body = await requestJson(
+      this.requestOptions('/api/chat', { method: 'POST', body: this.chatBody(params, false), signal })
+    );
+    return {
+      content: body.message.content,
+      finishReason: body.done_reason === 'length' ? 'length' : 'stop',
+      usage: toOllamaUsage(body),
+    };
+  }
+
+  async handleChatStream({ onChunk, signal, ...params }) {
+    const result = {};
+    if (this.api === apiFlavors.OPENAI) {
+      await streamLines(
+        this.requestOptions('/v1/chat/completions', {
+          method: 'POST',
+          body: this.chatBody(params, true),
+          signal,
+          onLine: (line) => {
+            const data = line.replace(/^data:\s*/, '');
+            if (!line.startsWith('data:') || data === '[DONE]') {
+              return;
+            }
+            const chunk = JSON.parse(data);
+            const [choice] = chunk.choices || [];
+            if (choice && choice.delta && choice.delta.content) {
+              onChunk(choice.delta.content);
+            }
+            if (choice && choice.finish_reason) {
+              result.finishReason = choice.finish_reason;
+            }
+            if (chunk.usage) {
+              result.usage = chunk.usage;
+            }
+          },
+        })
+      );
+      return result;
+    }
+    await streamLines(
+      this.requestOptions('/api/chat', {
+        method: 'POST',
+        body: this.chatBody(params, true),
+        signal,
+        onLine: (line) => {
+          const chunk = JSON.parse(line);
+          if (chunk.message && chunk.message.content) {
+            onChunk(chunk.message.content);
+          }
+          if (chunk.done) {
+            result.finishReason = chunk.done_reason === 'length' ? 'length' : 'stop';
+            result.usage = toOllamaUsage(chunk);
+          }
+        },
+      })
+    );
+    return result;
+  }
+
+  async handleEmbeddings({ input, model, signal }) {
+    if (this.api === apiFlavors.OPENAI) {
+      const body = await requestJson(
+        this.requestOptions('/v1/embeddings', { method: 'POST', body: { model, input }, signal })
+      );
+      return { data: body.data.map((item) => item.embedding), usage: body.usage };
+    }
+    const body = await requestJson(this.requestOptions('/api/embed', { method: 'POST', body: { model, input }, signal }));
+    const promptTokens = body.prompt_eval_count || 0;
+    return { data: body.embeddings, usage: { prompt_tokens: promptTokens, total_tokens: promptTokens } };
+  }
+
+  async listRemoteModels() {
+    if (this.api === apiFlavors.OPENAI) {
+      const body = await requestJson(this.requestOptions('/v1/models'));
+      return body.data.map((model) => ({ id: model.id }));
+    }
+    const body = await requestJson(this.requestOptions('/api/tags'));
+    return body.models.map((model) => ({ id: model.name }));
+  }
+
+  /**
+   * Listing the models is enough to know the server is up, and much cheaper than a completion
+   */
+  async healthCheck() {
+    const start = Date.now();
+    try {
+      await this.listRemoteModels();
+      return { ok: true, latencyMs: Date.now() - start };
+    } catch (error) {
+      return { ok: false, latencyMs: Date.now() - start, message: error.message };
+    }
+  }
+}
+
+module.exports = LocalAdapter;
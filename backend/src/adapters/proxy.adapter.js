@@ -0,0 +1,114 @@
+const httpStatus = require('http-status');
+const BaseAdapter = require('./base.adapter');
+const AdapterError = require('../utils/AdapterError');
+const { withApiKey, requestJson, streamLines } = require('../utils/httpClient');
+const { adapterErrorCodes } = require('../config/adapters');
+const { providerTypes } = require('../config/providers');
+
+const DEFAULT_TIMEOUT_SECONDS = 120;
+
+/**
+ * Forwards OpenAI requests as they are to another OpenAI-compatible API (community proxies, internal model servers...)
+ * Only the model is rewritten; the client's gateway credentials are never forwarded, the provider's are injected instead
+ */
+class ProxyAdapter extends BaseAdapter {
+  /**
+   * @param {Object} adapterConfig
+   * @param {string} adapterConfig.baseUrl - base url of the OpenAI API, including its version (e.g. https://host/v1)
+   * @param {Object} [adapterConfig.auth] - how the credentials are sent: { type: bearer|header|query, name }
+   * @param {Object} [adapterConfig.headers] - extra headers sent with every request
+   * @param {number} [adapterConfig.timeoutSeconds] - requests fail when the upstream stays silent for this long
+   * @param {Object} [credentials]
+   * @param {string} [credentials.apiKey]
+   * @param {Object} [context] - see BaseAdapter
+   */
+  constructor(adapterConfig, credentials, context) {
+    super(adapterConfig, credentials, context);
+    if (!adapterConfig.baseUrl) {
+      throw new AdapterError(
+        httpStatus.BAD_GATEWAY,
+        adapterErrorCodes.UPSTREAM_NOT_CONFIGURED,
+        'No base url configured for the proxy provider'
+      );
+    }
+    this.baseUrl = adapterConfig.baseUrl.replace(/\/+$/, '');
+    this.auth = adapterConfig.auth || {};
+    this.headers = adapterConfig.headers || {};
+    this.timeoutSeconds = adapterConfig.timeoutSeconds || DEFAULT_TIMEOUT_SECONDS;
+  }
+
+  static get type() {
+    return providerTypes.PROXY;
+  }
+
+  static get capabilities() {
+    return {
+      ...super.capabilities,
+      streaming: true,
+      tools: true,
+      vision: true,
+      embeddings: true,
+      json_mode: true,
+      passthrough: true,
+    };
+  }
+
+  /**
+   * Options of a request to the upstream, with the provider's credentials injected
+   * @param {string} path
+   * @param {Object} [params]
+   * @returns {Object}
+   */
+  requestOptions(path, params = {}) {
+    const request = withApiKey({ url: `${this.baseUrl}${path}`, headers: this.headers }, this.auth, this.credentials.apiKey);
+    return { ...request, timeoutMs: this.timeoutSeconds * 1000, ...params };
+  }
+
+  async handleChat({ messages, model, options = {}, signal }) {
+    const completion = await requestJson(
+      this.requestOptions('/chat/completions', { method: 'POST', body: { ...options, model, messages }, signal })
+    );
+    const [choice] = completion.choices || [];
+    return {
+      content: choice && choice.message ? choice.message.content : '',
+      finishReason: choice && choice.finish_reason,
+      usage: completion.usage,
+      completion,
+    };
+  }
+
+  async handleChatStream({ messages, model, options = {}, signal, onChunk }) {
+    const result = {};
+    await streamLines(
+      this.requestOptions('/chat/completions', {
+        method: 'POST',
+        body: { ...options, model, messages, stream: true },
+        signal,
+        onLine: (line) => {
+          const data = line.replace(/^data:\s*/, '');
+          if (!line.startsWith('data:') || data === '[DONE]') {
+            return;
+          }
+          const chunk = JSON.parse(data);
+          if (chunk.usage) {
+            result.usage = chunk.usage;
+          }
+          onChunk(chunk);
+        },
+      })
+    );
+    return result;
+  }
+
+  async handleEmbeddings({ input, model, signal }) {
+    const body = await requestJson(this.requestOptions('/embeddings', { method: 'POST', body: { model, input }, signal }));
+    return { data: body.data.map((item) => item.embedding), usage: body.usage };
+  }
+
+  async listRemoteModels() {
+    const body = await requestJson(this.requestOptions('/models'));
+    return body.data.map((model) => ({ id: model.id }));
+  }
+}
+
+module.exports = ProxyAdapter;
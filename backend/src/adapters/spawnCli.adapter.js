@@ -0,0 +1,323 @@
+// eslint-disable-next-line security/detect-child-process
+const childProcess = require('child_process');
+const httpStatus = require('http-status');
+const BaseAdapter = require('./base.adapter');
+const AdapterError = require('../utils/AdapterError');
+const renderPrompt = require('../utils/renderPrompt');
+const redactSecrets = require('../utils/redactSecrets');
+const killProcessTree = require('../utils/killProcessTree');
+const { ptyCommand, ptyInput } = require('../utils/pty');
+const { createOutputParser } = require('../outputParsers');
+const { poolOptions, getProcessPool } = require('../pools');
+const { createWorkspace } = require('../workspaces');
+const { sandboxOptions, createSandbox } = require('../sandbox');
+const { adapterErrorCodes } = require('../config/adapters');
+const { providerTypes } = require('../config/providers');
+
+const DEFAULT_TIMEOUT_SECONDS = 60;
+// time a process gets to exit after SIGTERM before it is killed
+const KILL_GRACE_MS = 2000;
+const STDERR_EXCERPT_LENGTH = 500;
+// exit code of sh when the command does not exist
+const COMMAND_NOT_FOUND_EXIT_CODE = 127;
+
+/**
+ * Runs a CLI agent per request: the prompt is written to stdin and stdout becomes the completion
+ */
+class SpawnCliAdapter extends BaseAdapter {
+  /**
+   * @param {Object} adapterConfig
+   * @param {string} adapterConfig.command - executable to run
+   * @param {string[]} [adapterConfig.args] - arguments passed to the executable
+   * @param {number} [adapterConfig.timeoutSeconds] - the process tree is killed after this delay
+   * @param {Object} [adapterConfig.prompt] - how the messages are rendered into the prompt (see renderPrompt)
+   * @param {Object} [adapterConfig.output] - how stdout is parsed: { parser: raw|strip-ansi|json|jsonl|regex, ... }
+   * @param {Object} [adapterConfig.pool] - prompts are sent to long-lived processes instead of a process per request:
+   *   { size, maxRequests, requestDelimiter, responseDelimiter, readyMarker, startupTimeoutSeconds } (see ProcessPool)
+   * @param {boolean} [adapterConfig.usePty] - run the command under a pseudo-terminal, for CLIs which need one
+   * @param {Object} [adapterConfig.pty] - { columns, rows, expect: [{ pattern, send }] }: every time the screen output
+   *   matches a pattern, send is typed; the prompt is typed on start, or when a send holds {{prompt}}
+   * @param {Object} [adapterConfig.workspace] - run every request in a fresh directory, seeded with the files attached
+   *   to the messages: { template, quotaMb, returnContent, maxReturnedMb } (see Workspace)
+   * @param {Object} [adapterConfig.sandbox] - run the CLI with limited resources, environment and privileges:
+   *   { type: local|docker, memoryMb, fileSizeMb, maxProcesses, uid, gid, network, env, ... } (see LocalSandbox and
+   *   DockerSandbox)
+   * @param {boolean} [adapterConfig.dockerSandbox] - run the CLI in a container of sandboxImage (a docker sandbox)
+   * @param {string} [adapterConfig.sandboxImage]
+   * @param {Object} [credentials]
+   * @param {Object} [context] - see BaseAdapter
+   */
+  constructor(adapterConfig, credentials, context) {
+    super(adapterConfig, credentials, context);
+    if (!adapterConfig.command) {
+      throw new AdapterError(
+        httpStatus.BAD_GATEWAY,
+        adapterErrorCodes.CLI_NOT_CONFIGURED,
+        'No command configured for the CLI provider'
+      );
+    }
+    this.command = adapterConfig.command;
+    this.args = adapterConfig.args || [];
+    this.timeoutSeconds = adapterConfig.timeoutSeconds || DEFAULT_TIMEOUT_SECONDS;
+    this.prompt = adapterConfig.prompt || {};
+    this.output = adapterConfig.output || {};
+    this.pool = adapterConfig.pool;
+    this.usePty = !!adapterConfig.usePty;
+    this.pty = adapterConfig.pty || {};
+    this.workspace = adapterConfig.workspace;
+    const sandboxConfig = sandboxOptions(adapterConfig);
+    this.sandbox = sandboxConfig && createSandbox(sandboxConfig);
+  }
+
+  static get type() {
+    return providerTypes.SPAWN_CLI;
+  }
+
+  static get capabilities() {
+    return { ...super.capabilities, streaming: true };
+  }
+
+  /**
+   * Spawn the CLI (or take a process of the pool), feed it the prompt and collect its stdout
+   * @param {string} prompt
+   * @param {Object} [params]
+   * @param {AbortSignal} [params.signal] - kills the process when aborted
+   * @param {function(string)} [params.onData] - called with every stdout chunk
+   * @param {string} [params.cwd] - working directory of the CLI
+   * @returns {Promise<string>}
+   */
+  run(prompt, { signal, onData, cwd } = {}) {
+    if (this.pool) {
+      return getProcessPool(this.providerId || this.command, poolOptions(this.adapterConfig)).run(prompt, {
+        signal,
+        onData,
+        timeoutMs: this.timeoutSeconds * 1000,
+      });
+    }
+    return new Promise((resolve, reject) => {
+      if (signal && signal.aborted) {
+        return reject(new Error('Request aborted'));
+      }
+
+      // never use a shell: the command and its arguments are passed as an array (script quotes them for its sh)
+      const sandboxed = this.sandbox
+        ? this.sandbox.wrap({ command: this.command, args: this.args, cwd, tty: this.usePty })
+        : { command: this.command, args: this.args };
+      // the PTY is outermost, so the sandbox limits apply to the CLI and not to script
+      const { command, args } = this.usePty ? ptyCommand(sandboxed.command, sandboxed.args, this.pty) : sandboxed;
+      const env = this.sandbox ? this.sandbox.env() : process.env;
+      const child = childProcess.spawn(command, args, { stdio: ['pipe', 'pipe', 'pipe'], detached: true, cwd, env });
+      const rules = this.expectRules();
+      const promptOnStart = !rules.some((rule) => rule.send.includes('{{prompt}}'));
+      // the screen output which no rule matched yet
+      let screen = '';
+      const stdout = [];
+      const stderr = [];
+      let timedOut = false;
+      let killTimer;
+
+      const terminate = () => {
+        if (this.sandbox) {
+          this.sandbox.stop(sandboxed);
+        }
+        killProcessTree(child, 'SIGTERM');
+        killTimer = setTimeout(() => killProcessTree(child, 'SIGKILL'), KILL_GRACE_MS);
+      };
+      const timeoutTimer = setTimeout(() => {
+        timedOut = true;
+        terminate();
+      }, this.timeoutSeconds * 1000);
+      if (signal) {
+        signal.addEventListener('abort', terminate);
+      }
+      const cleanup = () => {
+        child.stdin.end();
+        clearTimeout(timeoutTimer);
+        clearTimeout(killTimer);
+        if (signal) {
+          signal.removeEventListener('abort', terminate);
+        }
+      };
+
+      // type the send of the first rule matching the screen, then look for the next question after the match
+      const answer = (text) => {
+        screen += text;
+        const rule = rules.find(({ pattern }) => pattern.test(screen));
+        if (!rule) {
+          return;
+        }
+        const match = screen.match(rule.pattern);
+        screen = screen.slice(match.index + match[0].length);
+        child.stdin.write(rule.send.replace('{{prompt}}', () => ptyInput(prompt)));
+        answer('');
+      };
+
+      child.stdout.on('data', (data) => {
+        stdout.push(data);
+        if (onData) {
+          onData(data.toString());
+        }
+        if (rules.length) {
+          answer(data.toString());
+        }
+      });
+      child.stderr.on('data', (data) => stderr.push(data));
+
+      child.on('error', (error) => {
+        cleanup();
+        if (error.code === 'ENOENT') {
+          return reject(
+            new AdapterError(httpStatus.BAD_GATEWAY, adapterErrorCodes.CLI_NOT_FOUND, `CLI command not found: ${command}`)
+          );
+        }
+        reject(
+          new AdapterError(
+            httpStatus.BAD_GATEWAY,
+            adapterErrorCodes.CLI_SPAWN_FAILED,
+            `Failed to start CLI: ${error.message}`
+          )
+        );
+      });
+
+      child.on('close', (code, killSignal) => {
+        cleanup();
+        if (signal && signal.aborted) {
+          return reject(new Error('Request aborted'));
+        }
+        if (timedOut) {
+          return reject(
+            new AdapterError(
+              httpStatus.GATEWAY_TIMEOUT,
+              adapterErrorCodes.CLI_TIMEOUT,
+              `CLI timed out after ${this.timeoutSeconds} seconds`
+            )
+          );
+        }
+        // under a PTY, errors are printed on the screen
+        const errorOutput = Buffer.concat(this.usePty ? stdout : stderr).toString();
+        const violation =
+          code !== 0 && this.sandbox && this.sandbox.violation({ code, signal: killSignal, output: errorOutput });
+        if (violation) {
+          return reject(violation);
+        }
+        const stderrExcerpt = redactSecrets(errorOutput.trim().slice(-STDERR_EXCERPT_LENGTH));
+        if (killSignal) {
+          return reject(
+            new AdapterError(httpStatus.BAD_GATEWAY, adapterErrorCodes.CLI_CRASHED, `CLI was killed by ${killSignal}`, {
+              signal: killSignal,
+              stderr: stderrExcerpt,
+            })
+          );
+        }
+        if (this.usePty && code === COMMAND_NOT_FOUND_EXIT_CODE) {
+          return reject(
+            new AdapterError(
+              httpStatus.BAD_GATEWAY,
+              adapterErrorCodes.CLI_NOT_FOUND,
+              `CLI command not found: ${this.command}`
+            )
+          );
+        }
+        if (code !== 0) {
+          return reject(
+            new AdapterError(
+              httpStatus.BAD_GATEWAY,
+              adapterErrorCodes.CLI_EXIT_ERROR,
+              `CLI exited with code ${code}${stderrExcerpt ? `: ${stderrExcerpt}` : ''}`,
+              { exitCode: code, stderr: stderrExcerpt }
+            )
+          );
+        }
+        resolve(Buffer.concat(stdout).toString());
+      });
+
+      // a CLI that exits without reading its stdin must not crash the gateway with EPIPE
+      child.stdin.on('error', () => {});
+      if (!this.usePty) {
+        child.stdin.end(prompt);
+      } else if (promptOnStart) {
+        // stdin stays open for the answers of the expect rules
+        child.stdin.write(ptyInput(prompt));
+      }
+    });
+  }
+
+  /**
+   * Compile the expect rules of the PTY
+   * @returns {{ pattern: RegExp, send: string }[]}
+   */
+  expectRules() {
+    if (!this.usePty || !this.pty.expect) {
+      return [];
+    }
+    // patterns come from the provider config, which only admins can write
+    // eslint-disable-next-line security/detect-non-literal-regexp
+    return this.pty.expect.map(({ pattern, send }) => ({ pattern: new RegExp(pattern), send }));
+  }
+
+  /**
+   * Run a task in a fresh workspace if the provider has one, and add the files the CLI changed to its result
+   * @param {Object[]} messages - their attached files seed the workspace
+   * @param {AbortSignal} [signal]
+   * @param {function({ signal: AbortSignal, cwd?: string }): Promise<Object>} task
+   * @returns {Promise<Object>} the result of the task, plus `files` (see Workspace.changes) in a workspace
+   */
+  async inWorkspace(messages, signal, task) {
+    if (!this.workspace) {
+      return task({ signal });
+    }
+    const workspace = await createWorkspace(this.workspace, messages, this.sandbox && this.sandbox.owner());
+    try {
+      const result = await workspace.enforceQuota(
+        (watchSignal) => task({ signal: watchSignal, cwd: workspace.dir }),
+        signal
+      );
+      return { ...result, files: await workspace.changes() };
+    } finally {
+      await workspace.remove();
+    }
+  }
+
+  /**
+   * Run the CLI and return its parsed output as the assistant reply
+   * @param {Object} params
+   * @param {Object[]} params.messages
+   * @param {AbortSignal} [params.signal]
+   * @returns {Promise<{ content: string, finishReason: string, usage?: Object, files?: Object[] }>}
+   */
+  async handleChat({ messages, signal }) {
+    return this.inWorkspace(messages, signal, async (runParams) => {
+      const stdout = await this.run(renderPrompt(messages, this.prompt), runParams);
+      const { content, usage } = createOutputParser(this.output).parse(stdout);
+      return { content: content.trim(), finishReason: 'stop', usage };
+    });
+  }
+
+  /**
+   * Run the CLI and forward its parsed output as it is produced
+   * @param {Object} params
+   * @param {Object[]} params.messages
+   * @param {AbortSignal} [params.signal]
+   * @param {function(string)} params.onChunk - called with every piece of content
+   * @returns {Promise<{ finishReason: string, usage?: Object, files?: Object[] }>}
+   */
+  async handleChatStream({ messages, signal, onChunk }) {
+    return this.inWorkspace(messages, signal, async (runParams) => {
+      const parser = createOutputParser(this.output);
+      const forward = (content) => {
+        if (content) {
+          onChunk(content);
+        }
+      };
+      await this.run(renderPrompt(messages, this.prompt), {
+        ...runParams,
+        onData: (data) => forward(parser.push(data)),
+      });
+      const { content, usage } = parser.end();
+      forward(content);
+      return { finishReason: 'stop', usage };
+    });
+  }
+}
+
+module.exports = SpawnCliAdapter;
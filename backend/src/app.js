@@ -14,6 +14,21 @@ const routes = require('./routes/v1');
 const { errorConverter, errorHandler } = require('./middlewares/error');
 const ApiError = require('./utils/ApiError');
 
+// OpenAI-compatible routes: they parse their own, bigger bodies (see routes/v1) and take prompts, code and JSON schemas
+// verbatim, so they are neither HTML-escaped nor stripped of their $ and dotted keys
+const gatewayPaths = ['/v1/chat', '/v1/embeddings', '/v1/models'];
+// provider configs hold prompt templates (e.g. <|im_start|>) which must not be HTML-escaped either
+const rawTextPaths = [...gatewayPaths, '/v1/admin/providers'];
+
+/**
+ * Skip a middleware for the requests of some paths
+ * @param {string[]} paths
+ * @param {function} middleware
+ * @returns {function}
+ */
+const unless = (paths, middleware) => (req, res, next) =>
+  paths.some((path) => req.path === path || req.path.startsWith(`${path}/`)) ? next() : middleware(req, res, next);
+
 const app = express();
 
 if (config.env !== 'test') {
@@ -25,17 +40,21 @@ if (config.env !== 'test') {
 app.use(helmet());
 
 // parse json request body
-app.use(express.json());
+app.use(unless(gatewayPaths, express.json()));
 
 // parse urlencoded request body
 app.use(express.urlencoded({ extended: true }));
 
 // sanitize request data
-app.use(xss());
-app.use(mongoSanitize());
+app.use(unless(rawTextPaths, xss()));
+app.use(unless(gatewayPaths, mongoSanitize()));
 
-// gzip compression
-app.use(compression());
+// gzip compression (skipped for Server-Sent Events, which must reach the client unbuffered)
+app.use(
+  compression({
+    filter: (req, res) => !/text\/event-stream/.test(res.getHeader('Content-Type')) && compression.filter(req, res),
+  })
+);
 
 // enable cors
 app.use(cors());
@@ -0,0 +1,24 @@
+const adapterErrorCodes = {
+  CLI_NOT_CONFIGURED: 'cli_not_configured',
+  CLI_NOT_FOUND: 'cli_not_found',
+  CLI_SPAWN_FAILED: 'cli_spawn_failed',
+  CLI_TIMEOUT: 'cli_timeout',
+  CLI_EXIT_ERROR: 'cli_exit_error',
+  CLI_CRASHED: 'cli_crashed',
+  CLI_OUTPUT_INVALID: 'cli_output_invalid',
+  WORKSPACE_QUOTA_EXCEEDED: 'workspace_quota_exceeded',
+  SANDBOX_UNAVAILABLE: 'sandbox_unavailable',
+  SANDBOX_CPU_LIMIT: 'sandbox_cpu_limit',
+  SANDBOX_MEMORY_LIMIT: 'sandbox_memory_limit',
+  SANDBOX_FILE_SIZE_LIMIT: 'sandbox_file_size_limit',
+  SANDBOX_PROCESS_LIMIT: 'sandbox_process_limit',
+  UPSTREAM_NOT_CONFIGURED: 'upstream_not_configured',
+  UPSTREAM_TIMEOUT: 'upstream_timeout',
+  UPSTREAM_UNAVAILABLE: 'upstream_unavailable',
+  UPSTREAM_ERROR: 'upstream_error',
+  UPSTREAM_RATE_LIMITED: 'upstream_rate_limited',
+};
+
+module.exports = {
+  adapterErrorCodes,
+};
@@ -0,0 +1,13 @@
+const apiKeyScopes = {
+  CHAT: 'chat',
+  EMBEDDINGS: 'embeddings',
+  MODELS_READ: 'models:read',
+};
+
+// raw keys start with this prefix, which tells them apart from JWTs in the Authorization header
+const API_KEY_PREFIX = 'dyad_';
+
+module.exports = {
+  apiKeyScopes,
+  API_KEY_PREFIX,
+};
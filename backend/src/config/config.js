@@ -23,6 +23,53 @@ const envVarsSchema = Joi.object()
     SMTP_USERNAME: Joi.string().description('username for email server'),
     SMTP_PASSWORD: Joi.string().description('password for email server'),
     EMAIL_FROM: Joi.string().description('the from field in the emails sent by the app'),
+    ADAPTERS_DIR: Joi.string().description('directory of custom *.adapter.js modules registered at boot'),
+    WORKSPACES_DIR: Joi.string().description('directory where the temporary workspaces of CLI providers are created'),
+    GATEWAY_BODY_LIMIT: Joi.string().default('10mb').description('biggest request body of the OpenAI-compatible routes'),
+    RATE_LIMIT_STORE: Joi.string()
+      .valid('memory', 'mongo')
+      .default('memory')
+      .description('where gateway rate limit counters are kept (mongo when running several instances)'),
+    RATE_LIMIT_REQUESTS_PER_MINUTE: Joi.number().integer().min(0).default(60).description('requests per minute per API key'),
+    RATE_LIMIT_TOKENS_PER_MINUTE: Joi.number().integer().min(0).default(100000).description('tokens per minute per API key'),
+    RATE_LIMIT_MAX_CONCURRENT: Joi.number().integer().min(0).default(4).description('concurrent requests per API key'),
+    CIRCUIT_FAILURE_THRESHOLD: Joi.number()
+      .integer()
+      .min(0)
+      .default(5)
+      .description('provider failures within the window which open its circuit (0 disables circuit breaking)'),
+    CIRCUIT_WINDOW_SECONDS: Joi.number().integer().min(1).default(60).description('window in which provider failures count'),
+    CIRCUIT_COOLDOWN_SECONDS: Joi.number()
+      .integer()
+      .min(1)
+      .default(30)
+      .description('seconds an open circuit rejects requests before letting a probe request through'),
+    HEALTH_CHECK_INTERVAL_SECONDS: Joi.number()
+      .integer()
+      .min(0)
+      .default(60)
+      .description('seconds between two health checks of the enabled providers (0 disables them)'),
+    HEALTH_CHECK_TIMEOUT_SECONDS: Joi.number().integer().min(1).default(30).description('seconds a health check may take'),
+    HEALTH_CHECK_HISTORY_MB: Joi.number()
+      .integer()
+      .min(1)
+      .default(16)
+      .description('size of the capped collection keeping the health check results'),
+    IDEMPOTENCY_WINDOW_SECONDS: Joi.number()
+      .integer()
+      .min(0)
+      .default(600)
+      .description('seconds the response of a request with an Idempotency-Key is replayed to its duplicates'),
+    IDEMPOTENCY_MAX_ENTRIES: Joi.number()
+      .integer()
+      .min(1)
+      .default(1000)
+      .description('idempotency keys kept in memory, the oldest are forgotten first'),
+    IDEMPOTENCY_MAX_BODY_KB: Joi.number()
+      .integer()
+      .min(1)
+      .default(1024)
+      .description('responses bigger than this are not kept for replay'),
   })
   .unknown();
 
@@ -61,4 +108,30 @@ module.exports = {
     },
     from: envVars.EMAIL_FROM,
   },
+  gateway: {
+    adaptersDir: envVars.ADAPTERS_DIR,
+    workspacesDir: envVars.WORKSPACES_DIR,
+    bodyLimit: envVars.GATEWAY_BODY_LIMIT,
+    rateLimit: {
+      store: envVars.RATE_LIMIT_STORE,
+      requestsPerMinute: envVars.RATE_LIMIT_REQUESTS_PER_MINUTE,
+      tokensPerMinute: envVars.RATE_LIMIT_TOKENS_PER_MINUTE,
+      maxConcurrent: envVars.RATE_LIMIT_MAX_CONCURRENT,
+    },
+    circuitBreaker: {
+      failureThreshold: envVars.CIRCUIT_FAILURE_THRESHOLD,
+      windowSeconds: envVars.CIRCUIT_WINDOW_SECONDS,
+      cooldownSeconds: envVars.CIRCUIT_COOLDOWN_SECONDS,
+    },
+    healthCheck: {
+      intervalSeconds: envVars.HEALTH_CHECK_INTERVAL_SECONDS,
+      timeoutSeconds: envVars.HEALTH_CHECK_TIMEOUT_SECONDS,
+      historyMb: envVars.HEALTH_CHECK_HISTORY_MB,
+    },
+    idempotency: {
+      windowSeconds: envVars.IDEMPOTENCY_WINDOW_SECONDS,
+      maxEntries: envVars.IDEMPOTENCY_MAX_ENTRIES,
+      maxBodyKb: envVars.IDEMPOTENCY_MAX_BODY_KB,
+    },
+  },
 };
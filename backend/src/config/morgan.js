@@ -3,10 +3,12 @@ const config = require('./config');
 const logger = require('./logger');
 
 morgan.token('message', (req, res) => res.locals.errorMessage || '');
+// the provider which served a gateway request, after its fallbacks
+morgan.token('provider', (req, res) => (res.locals.provider ? ` - provider: ${res.locals.provider}` : ''));
 
 const getIpFormat = () => (config.env === 'production' ? ':remote-addr - ' : '');
-const successResponseFormat = `${getIpFormat()}:method :url :status - :response-time ms`;
-const errorResponseFormat = `${getIpFormat()}:method :url :status - :response-time ms - message: :message`;
+const successResponseFormat = `${getIpFormat()}:method :url :status - :response-time ms:provider`;
+const errorResponseFormat = `${getIpFormat()}:method :url :status - :response-time ms:provider - message: :message`;
 
 const successHandler = morgan(successResponseFormat, {
   skip: (req, res) => res.statusCode >= 400,
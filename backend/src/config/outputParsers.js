@@ -0,0 +1,11 @@
+const outputParserTypes = {
+  RAW: 'raw',
+  STRIP_ANSI: 'strip-ansi',
+  JSON: 'json',
+  JSONL: 'jsonl',
+  REGEX: 'regex',
+};
+
+module.exports = {
+  outputParserTypes,
+};
@@ -0,0 +1,18 @@
+const promptFormats = {
+  PLAIN: 'plain',
+  CHATML: 'chatml',
+  LLAMA3: 'llama3',
+  LAST_USER: 'last-user',
+  CUSTOM: 'custom',
+};
+
+const toolResultFormats = {
+  TEXT: 'text',
+  JSON: 'json',
+  OMIT: 'omit',
+};
+
+module.exports = {
+  promptFormats,
+  toolResultFormats,
+};
@@ -0,0 +1,25 @@
+const providerTypes = {
+  SPAWN_CLI: 'spawn-cli',
+  HTTP_SDK: 'http-sdk',
+  PROXY: 'proxy',
+  LOCAL: 'local',
+};
+
+// keys the adapter of a provider type cannot run without (local providers default to the local Ollama)
+const requiredAdapterKeys = {
+  [providerTypes.SPAWN_CLI]: ['command'],
+  [providerTypes.PROXY]: ['baseUrl'],
+  [providerTypes.HTTP_SDK]: ['endpoint', 'requestTemplate', 'response'],
+};
+
+const healthStatuses = {
+  UP: 'up',
+  DOWN: 'down',
+  UNKNOWN: 'unknown',
+};
+
+module.exports = {
+  providerTypes,
+  requiredAdapterKeys,
+  healthStatuses,
+};
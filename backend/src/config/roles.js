@@ -1,6 +1,16 @@
 const allRoles = {
   user: [],
-  admin: ['getUsers', 'manageUsers'],
+  admin: [
+    'getUsers',
+    'manageUsers',
+    'getProviders',
+    'manageProviders',
+    'getModelRoutes',
+    'manageModelRoutes',
+    'getApiKeys',
+    'manageApiKeys',
+    'useGateway',
+  ],
 };
 
 const roles = Object.keys(allRoles);
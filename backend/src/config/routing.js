@@ -0,0 +1,17 @@
+const routingStrategies = {
+  ROUND_ROBIN: 'round-robin',
+  WEIGHTED_RANDOM: 'weighted-random',
+  LEAST_IN_FLIGHT: 'least-in-flight',
+  LOWEST_LATENCY: 'lowest-latency',
+};
+
+const circuitStates = {
+  CLOSED: 'closed',
+  OPEN: 'open',
+  HALF_OPEN: 'half-open',
+};
+
+module.exports = {
+  routingStrategies,
+  circuitStates,
+};
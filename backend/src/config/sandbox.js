@@ -0,0 +1,28 @@
+const sandboxTypes = {
+  LOCAL: 'local',
+  DOCKER: 'docker',
+};
+
+const networkModes = {
+  HOST: 'host',
+  NONE: 'none',
+  BRIDGE: 'bridge',
+};
+
+const containerEngines = {
+  DOCKER: 'docker',
+  PODMAN: 'podman',
+};
+
+const pullPolicies = {
+  ALWAYS: 'always',
+  MISSING: 'missing',
+  NEVER: 'never',
+};
+
+module.exports = {
+  sandboxTypes,
+  networkModes,
+  containerEngines,
+  pullPolicies,
+};
@@ -0,0 +1,44 @@
+const httpStatus = require('http-status');
+const pick = require('../utils/pick');
+const ApiError = require('../utils/ApiError');
+const catchAsync = require('../utils/catchAsync');
+const { apiKeyService } = require('../services');
+
+const createApiKey = catchAsync(async (req, res) => {
+  const { apiKey, key } = await apiKeyService.createApiKey({ user: req.user.id, ...req.body });
+  // the raw key is only ever returned here and on rotation
+  res.status(httpStatus.CREATED).send({ ...apiKey.toJSON(), key });
+});
+
+const getApiKeys = catchAsync(async (req, res) => {
+  const filter = pick(req.query, ['name', 'user', 'revoked']);
+  const options = pick(req.query, ['sortBy', 'limit', 'page']);
+  const result = await apiKeyService.queryApiKeys(filter, options);
+  res.send(result);
+});
+
+const getApiKey = catchAsync(async (req, res) => {
+  const apiKey = await apiKeyService.getApiKeyById(req.params.apiKeyId);
+  if (!apiKey) {
+    throw new ApiError(httpStatus.NOT_FOUND, 'API key not found');
+  }
+  res.send(apiKey);
+});
+
+const revokeApiKey = catchAsync(async (req, res) => {
+  const apiKey = await apiKeyService.revokeApiKeyById(req.params.apiKeyId);
+  res.send(apiKey);
+});
+
+const rotateApiKey = catchAsync(async (req, res) => {
+  const { apiKey, key } = await apiKeyService.rotateApiKeyById(req.params.apiKeyId);
+  res.send({ ...apiKey.toJSON(), key });
+});
+
+module.exports = {
+  createApiKey,
+  getApiKeys,
+  getApiKey,
+  revokeApiKey,
+  rotateApiKey,
+};
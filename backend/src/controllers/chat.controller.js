@@ -0,0 +1,69 @@
+const { AbortController } = require('abort-controller');
+const catchAsync = require('../utils/catchAsync');
+const servedBy = require('../utils/servedBy');
+const { toOpenAIError } = require('../middlewares/error');
+const { assertModelAllowed } = require('../middlewares/gatewayAuth');
+const { gatewayService } = require('../services');
+
+/**
+ * Stream the completion as Server-Sent Events, terminated by `data: [DONE]`
+ */
+const streamChatCompletion = async (req, res) => {
+  const abortController = new AbortController();
+  // the client went away before the stream ended: stop the upstream adapter
+  res.on('close', () => {
+    if (!res.writableEnded) {
+      abortController.abort();
+    }
+  });
+
+  const writeEvent = (data) => {
+    if (!res.headersSent) {
+      res.set({
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+        'X-Accel-Buffering': 'no',
+      });
+      res.flushHeaders();
+    }
+    res.write(`data: ${data}\n\n`);
+  };
+
+  try {
+    res.locals.usage = await gatewayService.streamChatCompletion(req.body, {
+      signal: abortController.signal,
+      onChunk: (chunk) => writeEvent(JSON.stringify(chunk)),
+      onProvider: servedBy(res),
+    });
+  } catch (error) {
+    // nothing was streamed yet, so the regular error response can still be sent
+    if (!res.headersSent) {
+      throw error;
+    }
+    // the status is already 200: tell the idempotency middleware not to replay this response
+    res.locals.streamFailed = true;
+    if (!abortController.signal.aborted) {
+      writeEvent(JSON.stringify(toOpenAIError(error)));
+    }
+  }
+
+  if (!abortController.signal.aborted) {
+    writeEvent('[DONE]');
+    res.end();
+  }
+};
+
+const createChatCompletion = catchAsync(async (req, res) => {
+  assertModelAllowed(req, req.body.model);
+  if (req.body.stream) {
+    return streamChatCompletion(req, res);
+  }
+  const completion = await gatewayService.createChatCompletion(req.body, { onProvider: servedBy(res) });
+  res.locals.usage = completion.usage;
+  res.send(completion);
+});
+
+module.exports = {
+  createChatCompletion,
+};
@@ -0,0 +1,15 @@
+const catchAsync = require('../utils/catchAsync');
+const servedBy = require('../utils/servedBy');
+const { assertModelAllowed } = require('../middlewares/gatewayAuth');
+const { gatewayService } = require('../services');
+
+const createEmbeddings = catchAsync(async (req, res) => {
+  assertModelAllowed(req, req.body.model);
+  const embeddings = await gatewayService.createEmbeddings(req.body, { onProvider: servedBy(res) });
+  res.locals.usage = embeddings.usage;
+  res.send(embeddings);
+});
+
+module.exports = {
+  createEmbeddings,
+};
@@ -1,2 +1,8 @@
+module.exports.apiKeyController = require('./apiKey.controller');
 module.exports.authController = require('./auth.controller');
+module.exports.chatController = require('./chat.controller');
+module.exports.embeddingController = require('./embedding.controller');
+module.exports.modelController = require('./model.controller');
+module.exports.modelRouteController = require('./modelRoute.controller');
+module.exports.providerController = require('./provider.controller');
 module.exports.userController = require('./user.controller');
@@ -0,0 +1,22 @@
+const catchAsync = require('../utils/catchAsync');
+const { assertModelAllowed } = require('../middlewares/gatewayAuth');
+const { gatewayService } = require('../services');
+
+const getModels = catchAsync(async (req, res) => {
+  const models = await gatewayService.listModels();
+  if (req.apiKey) {
+    models.data = models.data.filter((model) => req.apiKey.canUseModel(model.id));
+  }
+  res.send(models);
+});
+
+const getModel = catchAsync(async (req, res) => {
+  assertModelAllowed(req, req.params.modelId);
+  const model = await gatewayService.getModel(req.params.modelId);
+  res.send(model);
+});
+
+module.exports = {
+  getModels,
+  getModel,
+};
@@ -0,0 +1,49 @@
+const httpStatus = require('http-status');
+const pick = require('../utils/pick');
+const ApiError = require('../utils/ApiError');
+const catchAsync = require('../utils/catchAsync');
+const { modelRouteService } = require('../services');
+
+const createModelRoute = catchAsync(async (req, res) => {
+  const modelRoute = await modelRouteService.createModelRoute({ ...req.body, createdBy: req.user.id });
+  res.status(httpStatus.CREATED).send(modelRoute);
+});
+
+const getModelRoutes = catchAsync(async (req, res) => {
+  const filter = pick(req.query, ['dyadModelId', 'strategy']);
+  const options = pick(req.query, ['sortBy', 'limit', 'page']);
+  const result = await modelRouteService.queryModelRoutes(filter, options);
+  res.send(result);
+});
+
+const getModelRoute = catchAsync(async (req, res) => {
+  const modelRoute = await modelRouteService.getModelRouteById(req.params.modelRouteId);
+  if (!modelRoute) {
+    throw new ApiError(httpStatus.NOT_FOUND, 'Model route not found');
+  }
+  res.send(modelRoute);
+});
+
+const updateModelRoute = catchAsync(async (req, res) => {
+  const modelRoute = await modelRouteService.updateModelRouteById(req.params.modelRouteId, req.body);
+  res.send(modelRoute);
+});
+
+const deleteModelRoute = catchAsync(async (req, res) => {
+  await modelRouteService.deleteModelRouteById(req.params.modelRouteId);
+  res.status(httpStatus.NO_CONTENT).send();
+});
+
+const getModelRouteStats = catchAsync(async (req, res) => {
+  const stats = await modelRouteService.getModelRouteStats(req.params.modelRouteId);
+  res.send(stats);
+});
+
+module.exports = {
+  createModelRoute,
+  getModelRoutes,
+  getModelRoute,
+  updateModelRoute,
+  deleteModelRoute,
+  getModelRouteStats,
+};
@@ -0,0 +1,91 @@
+const httpStatus = require('http-status');
+const pick = require('../utils/pick');
+const ApiError = require('../utils/ApiError');
+const catchAsync = require('../utils/catchAsync');
+const { providerService, providerHealthService } = require('../services');
+
+const createProvider = catchAsync(async (req, res) => {
+  const provider = await providerService.createProvider({ ...req.body, createdBy: req.user.id });
+  res.status(httpStatus.CREATED).send(provider);
+});
+
+const getProviders = catchAsync(async (req, res) => {
+  const filter = pick(req.query, ['name', 'type', 'enabled']);
+  const options = pick(req.query, ['sortBy', 'limit', 'page']);
+  const result = await providerService.queryProviders(filter, options);
+  res.send(result);
+});
+
+const getProvider = catchAsync(async (req, res) => {
+  const provider = await providerService.getProviderById(req.params.providerId);
+  if (!provider) {
+    throw new ApiError(httpStatus.NOT_FOUND, 'Provider not found');
+  }
+  res.send(provider);
+});
+
+const updateProvider = catchAsync(async (req, res) => {
+  const provider = await providerService.updateProviderById(req.params.providerId, req.body);
+  res.send(provider);
+});
+
+const deleteProvider = catchAsync(async (req, res) => {
+  await providerService.deleteProviderById(req.params.providerId);
+  res.status(httpStatus.NO_CONTENT).send();
+});
+
+const getRemoteModels = catchAsync(async (req, res) => {
+  const models = await providerService.discoverProviderModels(req.params.providerId);
+  res.send({ results: models });
+});
+
+const importModels = catchAsync(async (req, res) => {
+  const provider = await providerService.importProviderModels(req.params.providerId, req.body.models);
+  res.send(provider);
+});
+
+const previewPrompt = catchAsync(async (req, res) => {
+  const prompt = await providerService.previewProviderPrompt(req.params.providerId, req.body.messages, req.body.prompt);
+  res.send({ prompt });
+});
+
+const getPoolStats = catchAsync(async (req, res) => {
+  const stats = await providerService.getProviderPoolStats(req.params.providerId);
+  res.send(stats);
+});
+
+const getCircuit = catchAsync(async (req, res) => {
+  const circuit = await providerService.getProviderCircuit(req.params.providerId);
+  res.send(circuit);
+});
+
+const resetCircuit = catchAsync(async (req, res) => {
+  const circuit = await providerService.resetProviderCircuit(req.params.providerId);
+  res.send(circuit);
+});
+
+const getProvidersHealth = catchAsync(async (req, res) => {
+  const health = await providerHealthService.getProvidersHealth(pick(req.query, ['since']));
+  res.send({ results: health });
+});
+
+const getHealth = catchAsync(async (req, res) => {
+  const health = await providerHealthService.getProviderHealth(req.params.providerId, pick(req.query, ['since', 'limit']));
+  res.send(health);
+});
+
+module.exports = {
+  createProvider,
+  getProviders,
+  getProvider,
+  updateProvider,
+  deleteProvider,
+  getRemoteModels,
+  importModels,
+  previewPrompt,
+  getPoolStats,
+  getCircuit,
+  resetCircuit,
+  getProvidersHealth,
+  getHealth,
+};
@@ -0,0 +1,60 @@
+const logger = require('../config/logger');
+
+/**
+ * Runs a task periodically in the gateway process, such as the provider health checks
+ * A round starts once the previous one is over, so slow checks never pile up; the timer does not keep the process
+ * alive.
+ */
+class HealthScheduler {
+  /**
+   * @param {Object} options
+   * @param {number} options.intervalSeconds - delay between the end of a round and the start of the next one
+   * @param {function(): Promise} options.task - a round of checks
+   */
+  constructor({ intervalSeconds, task }) {
+    this.intervalMs = intervalSeconds * 1000;
+    this.task = task;
+    this.timer = null;
+    this.running = false;
+    this.rounds = 0;
+  }
+
+  /**
+   * Run a round now, then every interval
+   */
+  start() {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    this.runRound();
+  }
+
+  /**
+   * Run a round and schedule the next one
+   * @returns {Promise}
+   */
+  async runRound() {
+    try {
+      await this.task();
+    } catch (error) {
+      logger.error(`Health check round failed: ${error.message}`);
+    }
+    this.rounds += 1;
+    if (this.running) {
+      this.timer = setTimeout(() => this.runRound(), this.intervalMs);
+      this.timer.unref();
+    }
+  }
+
+  /**
+   * Stop scheduling rounds; a round in progress completes
+   */
+  stop() {
+    this.running = false;
+    clearTimeout(this.timer);
+    this.timer = null;
+  }
+}
+
+module.exports = HealthScheduler;
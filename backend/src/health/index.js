@@ -0,0 +1,37 @@
+const HealthScheduler = require('./healthScheduler');
+const config = require('../config/config');
+const logger = require('../config/logger');
+const { providerHealthService } = require('../services');
+
+let scheduler = null;
+
+/**
+ * Start checking the health of the enabled providers periodically (once Mongo is connected)
+ * @returns {HealthScheduler|null} null when the health checks are disabled
+ */
+const startHealthChecks = () => {
+  const { intervalSeconds } = config.gateway.healthCheck;
+  if (!intervalSeconds || scheduler) {
+    return scheduler;
+  }
+  scheduler = new HealthScheduler({ intervalSeconds, task: providerHealthService.checkProvidersHealth });
+  scheduler.start();
+  logger.info(`Checking the health of the providers every ${intervalSeconds} seconds`);
+  return scheduler;
+};
+
+/**
+ * Stop the health checks (on shutdown)
+ */
+const stopHealthChecks = () => {
+  if (scheduler) {
+    scheduler.stop();
+    scheduler = null;
+  }
+};
+
+module.exports = {
+  HealthScheduler,
+  startHealthChecks,
+  stopHealthChecks,
+};
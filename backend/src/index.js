@@ -2,16 +2,26 @@ const mongoose = require('mongoose');
 const app = require('./app');
 const config = require('./config/config');
 const logger = require('./config/logger');
+const { loadAdapters } = require('./adapters');
+const { closeProcessPools } = require('./pools');
+const { startHealthChecks, stopHealthChecks } = require('./health');
+
+if (config.gateway.adaptersDir) {
+  loadAdapters(config.gateway.adaptersDir);
+}
 
 let server;
 mongoose.connect(config.mongoose.url, config.mongoose.options).then(() => {
   logger.info('Connected to MongoDB');
+  startHealthChecks();
   server = app.listen(config.port, () => {
     logger.info(`Listening to port ${config.port}`);
   });
 });
 
 const exitHandler = () => {
+  stopHealthChecks();
+  closeProcessPools();
   if (server) {
     server.close(() => {
       logger.info('Server closed');
@@ -32,6 +42,8 @@ process.on('unhandledRejection', unexpectedErrorHandler);
 
 process.on('SIGTERM', () => {
   logger.info('SIGTERM received');
+  stopHealthChecks();
+  closeProcessPools();
   if (server) {
     server.close();
   }
@@ -3,16 +3,61 @@ const httpStatus = require('http-status');
 const config = require('../config/config');
 const logger = require('../config/logger');
 const ApiError = require('../utils/ApiError');
+const AdapterError = require('../utils/AdapterError');
+const { adapterErrorCodes } = require('../config/adapters');
 
-const errorConverter = (err, req, res, next) => {
-  let error = err;
-  if (!(error instanceof ApiError)) {
-    const statusCode =
-      error.statusCode || error instanceof mongoose.Error ? httpStatus.BAD_REQUEST : httpStatus.INTERNAL_SERVER_ERROR;
-    const message = error.message || httpStatus[statusCode];
-    error = new ApiError(statusCode, message, false, err.stack);
+// network errors raised while talking to an upstream provider
+const upstreamErrors = {
+  ETIMEDOUT: [httpStatus.GATEWAY_TIMEOUT, adapterErrorCodes.UPSTREAM_TIMEOUT],
+  ESOCKETTIMEDOUT: [httpStatus.GATEWAY_TIMEOUT, adapterErrorCodes.UPSTREAM_TIMEOUT],
+  ECONNREFUSED: [httpStatus.BAD_GATEWAY, adapterErrorCodes.UPSTREAM_UNAVAILABLE],
+  ECONNRESET: [httpStatus.BAD_GATEWAY, adapterErrorCodes.UPSTREAM_UNAVAILABLE],
+  EPIPE: [httpStatus.BAD_GATEWAY, adapterErrorCodes.UPSTREAM_UNAVAILABLE],
+  ENOTFOUND: [httpStatus.BAD_GATEWAY, adapterErrorCodes.UPSTREAM_UNAVAILABLE],
+  EAI_AGAIN: [httpStatus.BAD_GATEWAY, adapterErrorCodes.UPSTREAM_UNAVAILABLE],
+};
+
+/**
+ * Convert any error to an ApiError
+ * @param {*} err
+ * @returns {ApiError}
+ */
+const toApiError = (err) => {
+  if (err instanceof ApiError) {
+    return err;
+  }
+  if (err && upstreamErrors[err.code]) {
+    const [statusCode, code] = upstreamErrors[err.code];
+    return new AdapterError(statusCode, code, `Upstream provider error: ${err.message || err.code}`);
+  }
+  // client errors of the body parser: malformed JSON, body over the size limit
+  if (err && err.expose && err.statusCode < httpStatus.INTERNAL_SERVER_ERROR) {
+    return new ApiError(err.statusCode, err.message, true, err.stack);
+  }
+  const statusCode =
+    err.statusCode || err instanceof mongoose.Error ? httpStatus.BAD_REQUEST : httpStatus.INTERNAL_SERVER_ERROR;
+  const message = err.message || httpStatus[statusCode];
+  return new ApiError(statusCode, message, false, err.stack);
+};
+
+/**
+ * Build the OpenAI error body of an error: { error: { message, type, param, code } }
+ * Non operational errors are masked in production
+ * @param {*} err
+ * @returns {Object}
+ */
+const toOpenAIError = (err) => {
+  const error = toApiError(err);
+  if (config.env === 'production' && !error.isOperational) {
+    return {
+      error: { message: httpStatus[httpStatus.INTERNAL_SERVER_ERROR], type: 'server_error', param: null, code: null },
+    };
   }
-  next(error);
+  return { error: { message: error.message, type: error.type, param: error.param, code: error.code } };
+};
+
+const errorConverter = (err, req, res, next) => {
+  next(toApiError(err));
 };
 
 // eslint-disable-next-line no-unused-vars
@@ -25,20 +70,35 @@ const errorHandler = (err, req, res, next) => {
 
   res.locals.errorMessage = err.message;
 
+  if (config.env === 'development') {
+    logger.error(err);
+  }
+
+  // OpenAI SDKs only understand their own error shape
+  if (res.locals.errorFormat === 'openai') {
+    return res.status(statusCode).send(toOpenAIError(err));
+  }
+
   const response = {
     code: statusCode,
     message,
     ...(config.env === 'development' && { stack: err.stack }),
   };
 
-  if (config.env === 'development') {
-    logger.error(err);
-  }
-
   res.status(statusCode).send(response);
 };
 
+/**
+ * Make the error handler reply with OpenAI-shaped errors for the routes it is mounted on
+ */
+const openaiErrorFormat = (req, res, next) => {
+  res.locals.errorFormat = 'openai';
+  next();
+};
+
 module.exports = {
   errorConverter,
   errorHandler,
+  openaiErrorFormat,
+  toOpenAIError,
 };
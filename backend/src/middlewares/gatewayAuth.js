@@ -0,0 +1,62 @@
+const passport = require('passport');
+const httpStatus = require('http-status');
+const { ExtractJwt } = require('passport-jwt');
+const ApiError = require('../utils/ApiError');
+const { roleRights } = require('../config/roles');
+const { apiKeyService } = require('../services');
+
+const extractBearerToken = ExtractJwt.fromAuthHeaderAsBearerToken();
+
+const verifyJwtCallback = (req, resolve, reject) => async (err, user, info) => {
+  if (err || info || !user) {
+    return reject(new ApiError(httpStatus.UNAUTHORIZED, 'Please authenticate'));
+  }
+  // only users allowed to use the gateway (admins) may call it with their session token
+  if (!roleRights.get(user.role).includes('useGateway')) {
+    return reject(new ApiError(httpStatus.FORBIDDEN, 'Forbidden'));
+  }
+  req.user = user;
+  resolve();
+};
+
+/**
+ * Authenticate gateway requests with either an API key holding the required scopes or an admin JWT
+ * @param {...string} requiredScopes - API key scopes required by the route
+ */
+const gatewayAuth =
+  (...requiredScopes) =>
+  async (req, res, next) => {
+    const token = extractBearerToken(req);
+    if (apiKeyService.isApiKey(token)) {
+      try {
+        req.apiKey = await apiKeyService.verifyApiKey(token, requiredScopes);
+        return next();
+      } catch (error) {
+        return next(error);
+      }
+    }
+    return new Promise((resolve, reject) => {
+      passport.authenticate('jwt', { session: false }, verifyJwtCallback(req, resolve, reject))(req, res, next);
+    })
+      .then(() => next())
+      .catch((err) => next(err));
+  };
+
+/**
+ * Reject the request if its API key is not allowed to use the model
+ * @param {Object} req
+ * @param {string} modelId
+ */
+const assertModelAllowed = (req, modelId) => {
+  if (req.apiKey && !req.apiKey.canUseModel(modelId)) {
+    throw new ApiError(httpStatus.FORBIDDEN, `This API key is not allowed to use the model '${modelId}'`, true, '', {
+      param: 'model',
+      code: 'model_not_allowed',
+    });
+  }
+};
+
+module.exports = {
+  gatewayAuth,
+  assertModelAllowed,
+};
@@ -0,0 +1,170 @@
+const crypto = require('crypto');
+const httpStatus = require('http-status');
+const config = require('../config/config');
+const ApiError = require('../utils/ApiError');
+
+const MAX_KEY_LENGTH = 255;
+
+// response headers replayed with the response body
+const REPLAYED_HEADERS = ['content-type', 'x-gateway-provider'];
+
+const fingerprintOf = (req) =>
+  crypto
+    .createHash('sha256')
+    .update(JSON.stringify(req.body || {}))
+    .digest('hex');
+
+/**
+ * Record the response sent by the rest of the chain
+ * @param {Object} res
+ * @param {number} maxBytes - bigger bodies are not recorded
+ * @param {function(Object|null)} onDone - called with { statusCode, headers, body } once the response is sent, or with
+ *   null if the client went away before or the body was too big
+ */
+const recordResponse = (res, maxBytes, onDone) => {
+  let chunks = [];
+  let size = 0;
+  const { write, end } = res;
+  const collect = (chunk, encoding) => {
+    if (chunks && chunk && typeof chunk !== 'function') {
+      const data = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk, typeof encoding === 'string' ? encoding : 'utf8');
+      size += data.length;
+      if (size > maxBytes) {
+        chunks = null;
+      } else {
+        chunks.push(data);
+      }
+    }
+  };
+  let done = false;
+  const finish = (response) => {
+    if (!done) {
+      done = true;
+      onDone(response);
+    }
+  };
+  res.write = function (chunk, encoding, ...rest) {
+    collect(chunk, encoding);
+    return write.call(this, chunk, encoding, ...rest);
+  };
+  res.end = function (chunk, encoding, ...rest) {
+    collect(chunk, encoding);
+    const headers = REPLAYED_HEADERS.filter((name) => res.get(name) !== undefined).reduce(
+      (replayed, name) => ({ ...replayed, [name]: res.get(name) }),
+      {}
+    );
+    finish(chunks && { statusCode: res.statusCode, headers, body: Buffer.concat(chunks) });
+    return end.call(this, chunk, encoding, ...rest);
+  };
+  res.on('close', () => finish(null));
+};
+
+/**
+ * Send a recorded response again
+ * @param {Object} res
+ * @param {Object} response - see recordResponse
+ */
+const replayResponse = (res, { statusCode, headers, body }) => {
+  res.status(statusCode).set(headers).set('idempotent-replayed', 'true').end(body);
+};
+
+/**
+ * Create a middleware deduplicating the gateway requests sent with an Idempotency-Key header, so that a client retrying
+ * a request does not run it twice
+ * A request repeating the key of a request in flight waits for it and gets its response; a request repeating the key
+ * of a successful request gets its response for windowSeconds. Failed requests (streams failing after their first
+ * chunk flag it in res.locals.streamFailed) are not recorded, so they can be retried, and the requests waiting for them
+ * run instead. Keys are scoped to the caller (API key or user), and a key may not be reused with another body.
+ * @param {Object} params
+ * @param {number} params.windowSeconds - 0 disables deduplication
+ * @param {number} [params.maxEntries] - keys kept, the oldest are forgotten first
+ * @param {number} [params.maxBodyKb] - bigger responses are not recorded, as if they had failed
+ * @returns {function}
+ */
+const createIdempotency = ({ windowSeconds, maxEntries = Infinity, maxBodyKb = Infinity }) => {
+  // requests by scoped key, oldest first: { fingerprint, response: Promise<Object|null> }
+  const requests = new Map();
+
+  const remember = (scopedKey, entry) => {
+    requests.set(scopedKey, entry);
+    while (requests.size > maxEntries) {
+      requests.delete(requests.keys().next().value);
+    }
+  };
+
+  const idempotency = async (req, res, next) => {
+    const key = req.get('idempotency-key');
+    if (!key || !windowSeconds) {
+      return next();
+    }
+    if (key.length > MAX_KEY_LENGTH) {
+      return next(
+        new ApiError(
+          httpStatus.BAD_REQUEST,
+          `The Idempotency-Key header must be at most ${MAX_KEY_LENGTH} characters`,
+          true,
+          '',
+          {
+            code: 'invalid_idempotency_key',
+          }
+        )
+      );
+    }
+    const caller = req.apiKey ? `key:${req.apiKey.id}` : `user:${req.user.id}`;
+    const scopedKey = `${caller}:${req.method}:${req.originalUrl}:${key}`;
+    const fingerprint = fingerprintOf(req);
+
+    const original = requests.get(scopedKey);
+    if (original) {
+      if (original.fingerprint !== fingerprint) {
+        return next(
+          new ApiError(
+            httpStatus.UNPROCESSABLE_ENTITY,
+            'The Idempotency-Key header was already used with another request body',
+            true,
+            '',
+            { code: 'idempotency_key_reused' }
+          )
+        );
+      }
+      const response = await original.response;
+      // the original request was cancelled or failed: run this one instead
+      return response ? replayResponse(res, response) : idempotency(req, res, next);
+    }
+
+    let settle;
+    const entry = {
+      fingerprint,
+      response: new Promise((resolve) => {
+        settle = resolve;
+      }),
+    };
+    remember(scopedKey, entry);
+    recordResponse(res, maxBodyKb * 1024, (response) => {
+      // a stream failing after its first chunk keeps its 200 status
+      const succeeded = response && response.statusCode < httpStatus.MULTIPLE_CHOICES && !res.locals.streamFailed;
+      settle(succeeded ? response : null);
+      if (!succeeded) {
+        if (requests.get(scopedKey) === entry) {
+          requests.delete(scopedKey);
+        }
+        return;
+      }
+      setTimeout(() => {
+        if (requests.get(scopedKey) === entry) {
+          requests.delete(scopedKey);
+        }
+      }, windowSeconds * 1000).unref();
+    });
+    next();
+  };
+
+  return idempotency;
+};
+
+const idempotency = createIdempotency(config.gateway.idempotency);
+
+module.exports = {
+  createIdempotency,
+  idempotency,
+};
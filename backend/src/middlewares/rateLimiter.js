@@ -1,4 +1,9 @@
 const rateLimit = require('express-rate-limit');
+const httpStatus = require('http-status');
+const config = require('../config/config');
+const logger = require('../config/logger');
+const ApiError = require('../utils/ApiError');
+const { createRateLimitStore } = require('../rateLimitStores');
 
 const authLimiter = rateLimit({
   windowMs: 15 * 60 * 1000,
@@ -6,6 +11,105 @@ const authLimiter = rateLimit({
   skipSuccessfulRequests: true,
 });
 
+const WINDOW_MS = 60 * 1000;
+
+const limitOf = (value, defaultValue) => (typeof value === 'number' ? value : defaultValue);
+
+const secondsUntil = (date) => Math.max(1, Math.ceil((date.getTime() - Date.now()) / 1000));
+
+const setRateLimitHeaders = (res, name, limit, window) => {
+  res.set({
+    [`x-ratelimit-limit-${name}`]: limit,
+    [`x-ratelimit-remaining-${name}`]: Math.max(0, limit - window.count),
+    [`x-ratelimit-reset-${name}`]: `${secondsUntil(window.resetAt)}s`,
+  });
+};
+
+const rateLimitError = (res, retryAfterSeconds, message) => {
+  res.set('retry-after', retryAfterSeconds);
+  return new ApiError(httpStatus.TOO_MANY_REQUESTS, message, true, '', { code: 'rate_limit_exceeded' });
+};
+
+/**
+ * Create a middleware limiting the requests per minute, tokens per minute and concurrent requests of each API key
+ * Requests authenticated with an admin JWT are not limited
+ * @param {Object} params
+ * @param {Object} params.store - rate limit store shared by the limits
+ * @param {Object} params.defaults - limits of the keys which do not override them (0 disables a limit)
+ * @returns {function}
+ */
+const createGatewayLimiter =
+  ({ store, defaults }) =>
+  async (req, res, next) => {
+    if (!req.apiKey) {
+      return next();
+    }
+    const { id, rateLimits = {} } = req.apiKey;
+    const requestsPerMinute = limitOf(rateLimits.requestsPerMinute, defaults.requestsPerMinute);
+    const tokensPerMinute = limitOf(rateLimits.tokensPerMinute, defaults.tokensPerMinute);
+    const maxConcurrent = limitOf(rateLimits.maxConcurrent, defaults.maxConcurrent);
+
+    try {
+      if (requestsPerMinute) {
+        const requests = await store.increment(`requests:${id}`, 1, WINDOW_MS);
+        setRateLimitHeaders(res, 'requests', requestsPerMinute, requests);
+        if (requests.count > requestsPerMinute) {
+          throw rateLimitError(
+            res,
+            secondsUntil(requests.resetAt),
+            `Rate limit reached for requests per minute (${requestsPerMinute})`
+          );
+        }
+      }
+
+      if (tokensPerMinute) {
+        const tokens = await store.get(`tokens:${id}`, WINDOW_MS);
+        setRateLimitHeaders(res, 'tokens', tokensPerMinute, tokens);
+        if (tokens.count >= tokensPerMinute) {
+          throw rateLimitError(
+            res,
+            secondsUntil(tokens.resetAt),
+            `Rate limit reached for tokens per minute (${tokensPerMinute})`
+          );
+        }
+      }
+
+      const holdsSlot = !!maxConcurrent;
+      if (holdsSlot && !(await store.acquire(`concurrency:${id}`, maxConcurrent))) {
+        throw rateLimitError(res, 1, `Too many concurrent requests (${maxConcurrent})`);
+      }
+
+      let done = false;
+      const onDone = () => {
+        if (done) {
+          return;
+        }
+        done = true;
+        const pending = [];
+        if (holdsSlot) {
+          pending.push(store.release(`concurrency:${id}`));
+        }
+        // the usage of the completion is set by the chat controller
+        if (tokensPerMinute && res.locals.usage) {
+          pending.push(store.increment(`tokens:${id}`, res.locals.usage.total_tokens, WINDOW_MS));
+        }
+        Promise.all(pending).catch((error) => logger.error(error));
+      };
+      res.on('finish', onDone);
+      res.on('close', onDone);
+    } catch (error) {
+      return next(error);
+    }
+    next();
+  };
+
+const gatewayLimiter = createGatewayLimiter({
+  store: createRateLimitStore(config.gateway.rateLimit.store),
+  defaults: config.gateway.rateLimit,
+});
+
 module.exports = {
   authLimiter,
+  createGatewayLimiter,
+  gatewayLimiter,
 };
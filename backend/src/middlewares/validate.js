@@ -12,7 +12,9 @@ const validate = (schema) => (req, res, next) => {
 
   if (error) {
     const errorMessage = error.details.map((details) => details.message).join(', ');
-    return next(new ApiError(httpStatus.BAD_REQUEST, errorMessage));
+    // the first invalid request parameter, without its body/query/params prefix
+    const param = error.details[0].path.slice(1).join('.');
+    return next(new ApiError(httpStatus.BAD_REQUEST, errorMessage, true, '', { param }));
   }
   Object.assign(req, value);
   return next();
@@ -0,0 +1,101 @@
+const crypto = require('crypto');
+const mongoose = require('mongoose');
+const { toJSON, paginate } = require('./plugins');
+const { apiKeyScopes } = require('../config/apiKeys');
+
+const apiKeySchema = mongoose.Schema(
+  {
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    prefix: {
+      type: String,
+      required: true,
+    },
+    hashedKey: {
+      type: String,
+      required: true,
+      unique: true,
+      private: true, // used by the toJSON plugin
+    },
+    user: {
+      type: mongoose.SchemaTypes.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    scopes: {
+      type: [
+        {
+          type: String,
+          enum: Object.values(apiKeyScopes),
+        },
+      ],
+      default: Object.values(apiKeyScopes),
+    },
+    models: {
+      type: [String],
+      default: [],
+    },
+    rateLimits: {
+      // unset limits fall back to the gateway defaults, 0 disables a limit
+      requestsPerMinute: { type: Number, min: 0 },
+      tokensPerMinute: { type: Number, min: 0 },
+      maxConcurrent: { type: Number, min: 0 },
+    },
+    expiresAt: {
+      type: Date,
+    },
+    lastUsedAt: {
+      type: Date,
+    },
+    revoked: {
+      type: Boolean,
+      default: false,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// add plugin that converts mongoose to json
+apiKeySchema.plugin(toJSON);
+apiKeySchema.plugin(paginate);
+
+/**
+ * Hash a raw API key
+ * Keys are long random strings, so a fast hash is enough and allows looking them up
+ * @param {string} key
+ * @returns {string}
+ */
+apiKeySchema.statics.hashKey = function (key) {
+  return crypto.createHash('sha256').update(key).digest('hex');
+};
+
+/**
+ * Check if the key has expired
+ * @returns {boolean}
+ */
+apiKeySchema.methods.isExpired = function () {
+  const apiKey = this;
+  return !!apiKey.expiresAt && apiKey.expiresAt.getTime() <= Date.now();
+};
+
+/**
+ * Check if the key may use a model (an empty allowlist allows every model)
+ * @param {string} modelId
+ * @returns {boolean}
+ */
+apiKeySchema.methods.canUseModel = function (modelId) {
+  const apiKey = this;
+  return apiKey.models.length === 0 || apiKey.models.includes(modelId);
+};
+
+/**
+ * @typedef ApiKey
+ */
+const ApiKey = mongoose.model('ApiKey', apiKeySchema);
+
+module.exports = ApiKey;
@@ -1,2 +1,7 @@
+module.exports.ApiKey = require('./apiKey.model');
+module.exports.ModelRoute = require('./modelRoute.model');
+module.exports.Provider = require('./provider.model');
+module.exports.ProviderHealth = require('./providerHealth.model');
+module.exports.RateLimit = require('./rateLimit.model');
 module.exports.Token = require('./token.model');
 module.exports.User = require('./user.model');
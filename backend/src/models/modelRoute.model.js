@@ -0,0 +1,48 @@
+const mongoose = require('mongoose');
+const { toJSON, paginate } = require('./plugins');
+const { routingStrategies } = require('../config/routing');
+
+const modelRouteSchema = mongoose.Schema(
+  {
+    dyadModelId: {
+      type: String,
+      required: true,
+      unique: true,
+      trim: true,
+    },
+    strategy: {
+      type: String,
+      enum: Object.values(routingStrategies),
+      default: routingStrategies.ROUND_ROBIN,
+    },
+    createdBy: {
+      type: mongoose.SchemaTypes.ObjectId,
+      ref: 'User',
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// add plugin that converts mongoose to json
+modelRouteSchema.plugin(toJSON);
+modelRouteSchema.plugin(paginate);
+
+/**
+ * Check if a Dyad model id already has a route
+ * @param {string} dyadModelId
+ * @param {ObjectId} [excludeRouteId] - The id of the route to be excluded
+ * @returns {Promise<boolean>}
+ */
+modelRouteSchema.statics.isModelTaken = async function (dyadModelId, excludeRouteId) {
+  const route = await this.findOne({ dyadModelId, _id: { $ne: excludeRouteId } });
+  return !!route;
+};
+
+/**
+ * @typedef ModelRoute
+ */
+const ModelRoute = mongoose.model('ModelRoute', modelRouteSchema);
+
+module.exports = ModelRoute;
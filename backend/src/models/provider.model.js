@@ -0,0 +1,224 @@
+const mongoose = require('mongoose');
+const { toJSON, paginate } = require('./plugins');
+const { getProviderTypes } = require('../adapters');
+
+const fallbackSchema = mongoose.Schema(
+  {
+    provider: {
+      type: String,
+      required: true,
+      trim: true,
+      lowercase: true,
+    },
+    model: {
+      type: String,
+      trim: true,
+    },
+  },
+  {
+    _id: false,
+  }
+);
+
+const modelMappingSchema = mongoose.Schema(
+  {
+    dyadModelId: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    adapterModelId: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    maxTokens: {
+      type: Number,
+      min: 1,
+    },
+    contextWindow: {
+      type: Number,
+      min: 1,
+    },
+    // share of the requests of the model with the weighted-random routing strategy (1 by default)
+    weight: {
+      type: Number,
+      min: 0,
+    },
+    // tried in order when this provider fails to serve the model
+    fallbacks: {
+      type: [fallbackSchema],
+      default: undefined,
+    },
+  },
+  {
+    _id: false,
+  }
+);
+
+// how the gateway retries the requests the provider failed with a transient error, before falling back
+const retryPolicySchema = mongoose.Schema(
+  {
+    maxRetries: {
+      type: Number,
+      min: 0,
+      default: 0,
+    },
+    initialDelayMs: {
+      type: Number,
+      min: 0,
+      default: 250,
+    },
+    maxDelayMs: {
+      type: Number,
+      min: 0,
+      default: 5000,
+    },
+    multiplier: {
+      type: Number,
+      min: 1,
+      default: 2,
+    },
+    // wait a random delay between 0 and the backoff delay, so that retries of concurrent requests spread out
+    jitter: {
+      type: Boolean,
+      default: true,
+    },
+    // exit codes of a CLI which mean a transient failure
+    retryableExitCodes: {
+      type: [Number],
+      default: undefined,
+    },
+  },
+  {
+    _id: false,
+  }
+);
+
+const providerSchema = mongoose.Schema(
+  {
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    slug: {
+      type: String,
+      required: true,
+      unique: true,
+      trim: true,
+      lowercase: true,
+      validate(value) {
+        if (!value.match(/^[a-z0-9][a-z0-9-]*$/)) {
+          throw new Error('Slug must contain only lowercase letters, numbers and hyphens');
+        }
+      },
+    },
+    type: {
+      type: String,
+      required: true,
+      validate(value) {
+        if (!getProviderTypes().includes(value)) {
+          throw new Error(`Unknown provider type ${value}`);
+        }
+      },
+    },
+    description: {
+      type: String,
+      trim: true,
+    },
+    enabled: {
+      type: Boolean,
+      default: true,
+    },
+    models: {
+      type: [modelMappingSchema],
+      default: [],
+    },
+    adapterConfig: {
+      type: Object,
+      default: {},
+    },
+    credentials: {
+      type: Object,
+      default: {},
+      private: true, // used by the toJSON plugin
+    },
+    retryPolicy: {
+      type: retryPolicySchema,
+    },
+    createdBy: {
+      type: mongoose.SchemaTypes.ObjectId,
+      ref: 'User',
+    },
+  },
+  {
+    timestamps: true,
+    minimize: false,
+  }
+);
+
+providerSchema.index({ 'models.dyadModelId': 1 });
+
+// add plugin that converts mongoose to json
+providerSchema.plugin(toJSON);
+providerSchema.plugin(paginate);
+
+/**
+ * Check if slug is taken
+ * @param {string} slug - The provider's slug
+ * @param {ObjectId} [excludeProviderId] - The id of the provider to be excluded
+ * @returns {Promise<boolean>}
+ */
+providerSchema.statics.isSlugTaken = async function (slug, excludeProviderId) {
+  const provider = await this.findOne({ slug, _id: { $ne: excludeProviderId } });
+  return !!provider;
+};
+
+/**
+ * Find the enabled provider that serves a Dyad model id
+ * @param {string} dyadModelId
+ * @returns {Promise<Provider>}
+ */
+providerSchema.statics.findByDyadModelId = async function (dyadModelId) {
+  return this.findOne({ enabled: true, 'models.dyadModelId': dyadModelId });
+};
+
+/**
+ * Find the enabled providers that serve a Dyad model id, oldest first
+ * @param {string} dyadModelId
+ * @returns {Promise<Provider[]>}
+ */
+providerSchema.statics.findAllByDyadModelId = async function (dyadModelId) {
+  return this.find({ enabled: true, 'models.dyadModelId': dyadModelId }).sort('createdAt');
+};
+
+/**
+ * Find the provider whose model mapping heads the fallback chain of a Dyad model id: the enabled provider serving it,
+ * else a disabled one, whose fallbacks still apply
+ * @param {string} dyadModelId
+ * @returns {Promise<Provider>}
+ */
+providerSchema.statics.findChainHead = async function (dyadModelId) {
+  const provider = await this.findByDyadModelId(dyadModelId);
+  return (
+    provider || this.findOne({ enabled: false, 'models.dyadModelId': dyadModelId, 'models.fallbacks.0': { $exists: true } })
+  );
+};
+
+/**
+ * Get the model mapping for a Dyad model id
+ * @param {string} dyadModelId
+ * @returns {Object}
+ */
+providerSchema.methods.getModelMapping = function (dyadModelId) {
+  const provider = this;
+  return provider.models.find((model) => model.dyadModelId === dyadModelId);
+};
+
+/**
+ * @typedef Provider
+ */
+const Provider = mongoose.model('Provider', providerSchema);
+
+module.exports = Provider;
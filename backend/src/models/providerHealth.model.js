@@ -0,0 +1,45 @@
+const mongoose = require('mongoose');
+const { toJSON } = require('./plugins');
+const config = require('../config/config');
+
+// one document per health check; the oldest are dropped by mongo once the collection reaches its size
+const providerHealthSchema = mongoose.Schema(
+  {
+    provider: {
+      type: mongoose.SchemaTypes.ObjectId,
+      ref: 'Provider',
+      required: true,
+    },
+    ok: {
+      type: Boolean,
+      required: true,
+    },
+    latencyMs: {
+      type: Number,
+      required: true,
+    },
+    // why the check failed
+    message: {
+      type: String,
+    },
+    checkedAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  {
+    capped: { size: config.gateway.healthCheck.historyMb * 1024 * 1024 },
+  }
+);
+
+providerHealthSchema.index({ provider: 1, checkedAt: -1 });
+
+// add plugin that converts mongoose to json
+providerHealthSchema.plugin(toJSON);
+
+/**
+ * @typedef ProviderHealth
+ */
+const ProviderHealth = mongoose.model('ProviderHealth', providerHealthSchema);
+
+module.exports = ProviderHealth;
@@ -0,0 +1,25 @@
+const mongoose = require('mongoose');
+
+const rateLimitSchema = mongoose.Schema({
+  key: {
+    type: String,
+    required: true,
+    unique: true,
+  },
+  count: {
+    type: Number,
+    default: 0,
+  },
+  resetAt: {
+    type: Date,
+    required: true,
+    index: { expires: 0 }, // counters are removed by mongo once their window is over
+  },
+});
+
+/**
+ * @typedef RateLimit
+ */
+const RateLimit = mongoose.model('RateLimit', rateLimitSchema);
+
+module.exports = RateLimit;
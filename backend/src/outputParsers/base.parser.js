@@ -0,0 +1,124 @@
+const httpStatus = require('http-status');
+const AdapterError = require('../utils/AdapterError');
+const redactSecrets = require('../utils/redactSecrets');
+const { adapterErrorCodes } = require('../config/adapters');
+
+const OUTPUT_EXCERPT_LENGTH = 500;
+
+/**
+ * Turns the stdout of a CLI into the content of the completion
+ * A parser is created for every run: stdout is pushed to it as it is produced, and the content pieces it returns are
+ * streamed to the client. Subclasses declare their type (static `type`) and override push and end.
+ */
+class BaseOutputParser {
+  /**
+   * @param {Object} [outputConfig] - the `output` of a provider's adapterConfig
+   * @param {Object} [outputConfig.usagePatterns] - regexes whose first group is a token count:
+   *   { prompt_tokens, completion_tokens, total_tokens }, matched against the whole output
+   */
+  constructor(outputConfig = {}) {
+    this.outputConfig = outputConfig;
+    this.output = '';
+    this.partialLine = '';
+  }
+
+  /**
+   * Output parser type (e.g. json)
+   * @returns {string}
+   */
+  static get type() {
+    return undefined;
+  }
+
+  /**
+   * Parse a piece of stdout
+   * @param {string} text
+   * @returns {string} the content that can be streamed already ('' if none)
+   */
+  push(text) {
+    this.output += text;
+    return text;
+  }
+
+  /**
+   * Parse what is left once the CLI has exited
+   * @returns {{ content: string, usage?: Object }} the remaining content and the usage reported by the CLI
+   */
+  end() {
+    return { content: '', usage: this.usageFromText(this.output) };
+  }
+
+  /**
+   * Parse a whole stdout at once
+   * @param {string} stdout
+   * @returns {{ content: string, usage?: Object }}
+   */
+  parse(stdout) {
+    const content = this.push(stdout);
+    const result = this.end();
+    return { ...result, content: content + result.content };
+  }
+
+  /**
+   * Buffer a piece of stdout and return the lines it completes; the last unterminated line is kept in partialLine
+   * @param {string} text
+   * @returns {string[]}
+   */
+  completeLines(text) {
+    this.output += text;
+    const lines = (this.partialLine + text).split('\n');
+    this.partialLine = lines.pop();
+    return lines;
+  }
+
+  /**
+   * Read the token counts a CLI prints (e.g. "Tokens: 12 in, 40 out") with the configured usage patterns
+   * @param {string} text
+   * @returns {Object|undefined} OpenAI usage object, undefined when no count is found
+   */
+  usageFromText(text) {
+    const patterns = this.outputConfig.usagePatterns;
+    if (!patterns) {
+      return undefined;
+    }
+    const counts = ['prompt_tokens', 'completion_tokens', 'total_tokens'].reduce((result, name) => {
+      // patterns come from the provider config, which only admins can write
+      // eslint-disable-next-line security/detect-non-literal-regexp
+      const match = patterns[name] && text.match(new RegExp(patterns[name]));
+      if (match) {
+        // eslint-disable-next-line no-param-reassign
+        result[name] = parseInt(match[1], 10);
+      }
+      return result;
+    }, {});
+    if (!Object.keys(counts).length) {
+      return undefined;
+    }
+    const promptTokens = counts.prompt_tokens || 0;
+    const completionTokens = counts.completion_tokens || 0;
+    return {
+      prompt_tokens: promptTokens,
+      completion_tokens: completionTokens,
+      total_tokens: counts.total_tokens === undefined ? promptTokens + completionTokens : counts.total_tokens,
+    };
+  }
+
+  /**
+   * Build the error of an output that cannot be parsed, with an excerpt of the output where secrets are masked
+   * @param {string} reason
+   * @returns {AdapterError}
+   */
+  parseError(reason) {
+    const excerpt = redactSecrets(this.output.trim().slice(0, OUTPUT_EXCERPT_LENGTH));
+    return new AdapterError(
+      httpStatus.BAD_GATEWAY,
+      adapterErrorCodes.CLI_OUTPUT_INVALID,
+      `Could not parse the CLI output with the ${this.constructor.type} parser: ${reason}${
+        excerpt ? `. Output: ${excerpt}` : ''
+      }`,
+      { parser: this.constructor.type, stdout: excerpt }
+    );
+  }
+}
+
+module.exports = BaseOutputParser;
@@ -0,0 +1,55 @@
+const httpStatus = require('http-status');
+const AdapterError = require('../utils/AdapterError');
+const { adapterErrorCodes } = require('../config/adapters');
+const { outputParserTypes } = require('../config/outputParsers');
+const BaseOutputParser = require('./base.parser');
+const RawOutputParser = require('./raw.parser');
+const StripAnsiOutputParser = require('./stripAnsi.parser');
+const JsonOutputParser = require('./json.parser');
+const JsonlOutputParser = require('./jsonl.parser');
+const RegexOutputParser = require('./regex.parser');
+
+const parsers = new Map();
+
+/**
+ * Register the output parser class serving a parser type
+ * @param {string} type
+ * @param {Function} Parser - a subclass of BaseOutputParser
+ */
+const registerOutputParser = (type, Parser) => {
+  if (!(Parser.prototype instanceof BaseOutputParser)) {
+    throw new Error(`Output parser ${type} must extend BaseOutputParser`);
+  }
+  parsers.set(type, Parser);
+};
+
+/**
+ * Get every registered output parser type
+ * @returns {string[]}
+ */
+const getOutputParserTypes = () => Array.from(parsers.keys());
+
+/**
+ * Create the parser of a CLI run
+ * @param {Object} [outputConfig] - the `output` of a provider's adapterConfig; `parser` is the type (raw by default)
+ * @returns {BaseOutputParser}
+ */
+const createOutputParser = (outputConfig = {}) => {
+  const type = outputConfig.parser || outputParserTypes.RAW;
+  const Parser = parsers.get(type);
+  if (!Parser) {
+    throw new AdapterError(httpStatus.BAD_GATEWAY, adapterErrorCodes.CLI_NOT_CONFIGURED, `Unknown output parser: ${type}`);
+  }
+  return new Parser(outputConfig);
+};
+
+[RawOutputParser, StripAnsiOutputParser, JsonOutputParser, JsonlOutputParser, RegexOutputParser].forEach((Parser) =>
+  registerOutputParser(Parser.type, Parser)
+);
+
+module.exports = {
+  BaseOutputParser,
+  registerOutputParser,
+  getOutputParserTypes,
+  createOutputParser,
+};
@@ -0,0 +1,57 @@
+const BaseOutputParser = require('./base.parser');
+const stripAnsi = require('../utils/stripAnsi');
+const { extractText, extractUsage } = require('../utils/extractFromJson');
+const { outputParserTypes } = require('../config/outputParsers');
+
+/**
+ * Parse the JSON document of an output, ignoring the text printed around it (banners, warnings...)
+ * @param {string} text
+ * @returns {*} undefined if the output holds no JSON document
+ */
+const parseJsonDocument = (text) => {
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    const start = text.search(/[{[]/);
+    const end = Math.max(text.lastIndexOf('}'), text.lastIndexOf(']'));
+    if (start === -1 || end < start) {
+      return undefined;
+    }
+    try {
+      return JSON.parse(text.slice(start, end + 1));
+    } catch (sliceError) {
+      return undefined;
+    }
+  }
+};
+
+/**
+ * Reads the content and usage of a CLI printing a single JSON document (e.g. `gemini --output-format json`)
+ * Nothing can be streamed before the CLI exits
+ * Config: `content`, the JSONPath-style path of the content (e.g. `$.response`), and `usage`, the paths of the token
+ * counters ({ prompt_tokens, completion_tokens, total_tokens })
+ */
+class JsonOutputParser extends BaseOutputParser {
+  static get type() {
+    return outputParserTypes.JSON;
+  }
+
+  push(text) {
+    this.output += text;
+    return '';
+  }
+
+  end() {
+    const body = parseJsonDocument(stripAnsi(this.output).trim());
+    if (body === undefined) {
+      throw this.parseError('no JSON document found');
+    }
+    const content = extractText(body, this.outputConfig.content);
+    if (content === undefined) {
+      throw this.parseError(`no content found at ${this.outputConfig.content}`);
+    }
+    return { content, usage: extractUsage(body, this.outputConfig.usage) };
+  }
+}
+
+module.exports = JsonOutputParser;
@@ -0,0 +1,68 @@
+const BaseOutputParser = require('./base.parser');
+const jsonPath = require('../utils/jsonPath');
+const stripAnsi = require('../utils/stripAnsi');
+const { extractText, extractUsage } = require('../utils/extractFromJson');
+const { outputParserTypes } = require('../config/outputParsers');
+
+/**
+ * Maps the JSON events a CLI prints one per line (e.g. `--output-format stream-json`) to content chunks
+ * Lines which are not JSON (banners, logs) are ignored
+ */
+class JsonlOutputParser extends BaseOutputParser {
+  /**
+   * @param {Object} outputConfig
+   * @param {string} outputConfig.content - path of the content in an event
+   * @param {Object} [outputConfig.filter] - only the events whose `path` equals `value` hold content
+   * @param {Object} [outputConfig.usage] - paths of the token counters, read from every event (the last ones win)
+   */
+  constructor(outputConfig) {
+    super(outputConfig);
+    this.events = 0;
+    this.usage = undefined;
+  }
+
+  static get type() {
+    return outputParserTypes.JSONL;
+  }
+
+  /**
+   * Parse a line and return the content of its event
+   * @param {string} line
+   * @returns {string}
+   */
+  parseLine(line) {
+    const text = stripAnsi(line).trim();
+    let event;
+    try {
+      event = JSON.parse(text);
+    } catch (error) {
+      return '';
+    }
+    if (!event || typeof event !== 'object') {
+      return '';
+    }
+    this.events += 1;
+    const { content, filter, usage } = this.outputConfig;
+    this.usage = extractUsage(event, usage) || this.usage;
+    if (filter && jsonPath(event, filter.path) !== filter.value) {
+      return '';
+    }
+    return extractText(event, content) || '';
+  }
+
+  push(text) {
+    return this.completeLines(text)
+      .map((line) => this.parseLine(line))
+      .join('');
+  }
+
+  end() {
+    const content = this.parseLine(this.partialLine);
+    if (!this.events && this.output.trim()) {
+      throw this.parseError('no JSON event found');
+    }
+    return { content, usage: this.usage };
+  }
+}
+
+module.exports = JsonlOutputParser;
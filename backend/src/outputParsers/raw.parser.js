@@ -0,0 +1,13 @@
+const BaseOutputParser = require('./base.parser');
+const { outputParserTypes } = require('../config/outputParsers');
+
+/**
+ * Returns stdout unchanged
+ */
+class RawOutputParser extends BaseOutputParser {
+  static get type() {
+    return outputParserTypes.RAW;
+  }
+}
+
+module.exports = RawOutputParser;
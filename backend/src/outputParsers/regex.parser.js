@@ -0,0 +1,106 @@
+const BaseOutputParser = require('./base.parser');
+const stripAnsi = require('../utils/stripAnsi');
+const { outputParserTypes } = require('../config/outputParsers');
+
+/**
+ * Extracts the content printed between a start and an end marker, optionally narrowed down with a pattern
+ * Content is streamed as it comes between the markers, unless a pattern is set
+ */
+class RegexOutputParser extends BaseOutputParser {
+  /**
+   * @param {Object} outputConfig
+   * @param {string} [outputConfig.start] - the content starts after this marker (at the beginning of the output if not set)
+   * @param {string} [outputConfig.end] - the content ends before this marker (at the end of the output if not set)
+   * @param {string} [outputConfig.pattern] - regex applied to the text between the markers; the content is its
+   *   `content` named group, its first group or the whole match
+   * @param {string} [outputConfig.flags] - flags of the pattern
+   */
+  constructor(outputConfig) {
+    super(outputConfig);
+    // patterns come from the provider config, which only admins can write
+    // eslint-disable-next-line security/detect-non-literal-regexp
+    this.pattern = outputConfig.pattern && new RegExp(outputConfig.pattern, outputConfig.flags);
+    this.started = !outputConfig.start;
+    this.ended = false;
+    this.pending = '';
+    this.section = '';
+  }
+
+  static get type() {
+    return outputParserTypes.REGEX;
+  }
+
+  /**
+   * Consume cleaned output and return the content found between the markers
+   * @param {string} text
+   * @returns {string}
+   */
+  consume(text) {
+    if (this.ended) {
+      return '';
+    }
+    const { start, end } = this.outputConfig;
+    this.pending += text;
+    if (!this.started) {
+      const index = this.pending.indexOf(start);
+      if (index === -1) {
+        // the marker may be split across pieces
+        this.pending = this.pending.slice(Math.max(0, this.pending.length - start.length + 1));
+        return '';
+      }
+      this.started = true;
+      // the line break ending the marker line is not content
+      this.pending = this.pending.slice(index + start.length).replace(/^[ \t]*\n/, '');
+    }
+    let content = this.pending;
+    this.pending = '';
+    if (end) {
+      const index = content.indexOf(end);
+      if (index !== -1) {
+        this.ended = true;
+        content = content.slice(0, index).replace(/\n[ \t]*$/, '');
+      } else {
+        // hold back what could be the beginning of the marker and the line break before it
+        const length = Math.max(0, content.length - end.length - 1);
+        this.pending = content.slice(length);
+        content = content.slice(0, length);
+      }
+    }
+    if (this.pattern) {
+      this.section += content;
+      return '';
+    }
+    return content;
+  }
+
+  push(text) {
+    return this.consume(
+      this.completeLines(text)
+        .map((line) => `${stripAnsi(line)}\n`)
+        .join('')
+    );
+  }
+
+  end() {
+    let content = this.consume(stripAnsi(this.partialLine));
+    if (!this.started) {
+      throw this.parseError(`start marker ${this.outputConfig.start} not found`);
+    }
+    // the CLI stopped before printing the end marker: the content goes up to the end of the output
+    content += this.pending;
+    if (this.pattern) {
+      const match = (this.section + content).match(this.pattern);
+      if (!match) {
+        throw this.parseError(`no match for ${this.outputConfig.pattern}`);
+      }
+      if (match.groups && match.groups.content !== undefined) {
+        content = match.groups.content;
+      } else {
+        content = match[1] === undefined ? match[0] : match[1];
+      }
+    }
+    return { content, usage: this.usageFromText(stripAnsi(this.output)) };
+  }
+}
+
+module.exports = RegexOutputParser;
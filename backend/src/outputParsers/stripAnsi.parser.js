@@ -0,0 +1,55 @@
+const BaseOutputParser = require('./base.parser');
+const stripAnsi = require('../utils/stripAnsi');
+const { outputParserTypes } = require('../config/outputParsers');
+
+/**
+ * Returns stdout as plain text: colours, spinners and the configured banner lines are removed
+ * Content is streamed line by line
+ */
+class StripAnsiOutputParser extends BaseOutputParser {
+  /**
+   * @param {Object} [outputConfig]
+   * @param {string[]} [outputConfig.skipLines] - regexes of the lines to leave out (banners, progress messages...)
+   */
+  constructor(outputConfig = {}) {
+    super(outputConfig);
+    // patterns come from the provider config, which only admins can write
+    // eslint-disable-next-line security/detect-non-literal-regexp
+    this.skipLines = (outputConfig.skipLines || []).map((pattern) => new RegExp(pattern));
+    this.started = false;
+  }
+
+  static get type() {
+    return outputParserTypes.STRIP_ANSI;
+  }
+
+  /**
+   * Clean lines and drop the skipped ones, as well as the blank lines preceding the content
+   * @param {string[]} lines
+   * @returns {string[]}
+   */
+  cleanLines(lines) {
+    return lines
+      .map(stripAnsi)
+      .filter((line) => !this.skipLines.some((pattern) => pattern.test(line)))
+      .filter((line) => {
+        this.started = this.started || !!line.trim();
+        return this.started;
+      });
+  }
+
+  push(text) {
+    return this.cleanLines(this.completeLines(text))
+      .map((line) => `${line}\n`)
+      .join('');
+  }
+
+  end() {
+    return {
+      content: this.cleanLines(this.partialLine ? [this.partialLine] : []).join(''),
+      usage: this.usageFromText(stripAnsi(this.output)),
+    };
+  }
+}
+
+module.exports = StripAnsiOutputParser;
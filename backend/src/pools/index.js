@@ -0,0 +1,59 @@
+const ProcessPool = require('./processPool');
+
+// pools by key (the provider id), with the options they were created with
+const pools = new Map();
+
+/**
+ * Options of the process pool of a spawn-cli provider
+ * @param {Object} adapterConfig
+ * @returns {Object}
+ */
+const poolOptions = ({ command, args, pool }) => ({ command, args, ...pool });
+
+/**
+ * Get the process pool of a provider, creating it on first use
+ * A pool whose options changed (the provider was updated) is closed and replaced
+ * @param {string} key
+ * @param {Object} options - see ProcessPool
+ * @returns {ProcessPool}
+ */
+const getProcessPool = (key, options) => {
+  const signature = JSON.stringify(options);
+  const entry = pools.get(key);
+  if (entry && entry.signature === signature) {
+    return entry.pool;
+  }
+  if (entry) {
+    entry.pool.close();
+  }
+  const pool = new ProcessPool(options);
+  pools.set(key, { signature, pool });
+  return pool;
+};
+
+/**
+ * Close the process pool of a provider, if any
+ * @param {string} key
+ */
+const closeProcessPool = (key) => {
+  const entry = pools.get(key);
+  if (entry) {
+    entry.pool.close();
+    pools.delete(key);
+  }
+};
+
+/**
+ * Close every process pool (on shutdown)
+ */
+const closeProcessPools = () => {
+  Array.from(pools.keys()).forEach(closeProcessPool);
+};
+
+module.exports = {
+  ProcessPool,
+  poolOptions,
+  getProcessPool,
+  closeProcessPool,
+  closeProcessPools,
+};
@@ -0,0 +1,373 @@
+/* eslint-disable no-param-reassign */
+// workers (the pooled processes) and jobs (the requests) are the mutable state of the pool
+
+// eslint-disable-next-line security/detect-child-process
+const childProcess = require('child_process');
+const httpStatus = require('http-status');
+const AdapterError = require('../utils/AdapterError');
+const redactSecrets = require('../utils/redactSecrets');
+const killProcessTree = require('../utils/killProcessTree');
+const { adapterErrorCodes } = require('../config/adapters');
+
+const DEFAULT_SIZE = 2;
+const DEFAULT_MAX_REQUESTS = 100;
+const DEFAULT_DELIMITER = '\n<<<END>>>\n';
+const DEFAULT_STARTUP_TIMEOUT_SECONDS = 30;
+// time a process gets to exit after SIGTERM before it is killed
+const KILL_GRACE_MS = 2000;
+const STDERR_EXCERPT_LENGTH = 500;
+
+/**
+ * Keeps long-lived CLI processes (REPLs, `--server` modes) and dispatches prompts to them over stdin
+ * A prompt is written followed by the request delimiter, and the answer is what the process prints before the response
+ * delimiter. Processes are spawned on demand, recycled after maxRequests answers and replaced when they crash.
+ */
+class ProcessPool {
+  /**
+   * @param {Object} options
+   * @param {string} options.command - executable to run
+   * @param {string[]} [options.args] - arguments passed to the executable
+   * @param {number} [options.size] - number of processes kept
+   * @param {number} [options.maxRequests] - a process is recycled after answering this many requests
+   * @param {string} [options.requestDelimiter] - written after every prompt
+   * @param {string} [options.responseDelimiter] - printed by the processes after every answer
+   * @param {string} [options.readyMarker] - printed by the processes once they accept prompts (what precedes it is
+   *   dropped); processes are ready as soon as they are spawned if not set
+   * @param {number} [options.startupTimeoutSeconds] - processes which are not ready in time are killed
+   */
+  constructor(options) {
+    this.command = options.command;
+    this.args = options.args || [];
+    this.size = options.size || DEFAULT_SIZE;
+    this.maxRequests = options.maxRequests || DEFAULT_MAX_REQUESTS;
+    this.requestDelimiter = options.requestDelimiter || DEFAULT_DELIMITER;
+    this.responseDelimiter = options.responseDelimiter || DEFAULT_DELIMITER;
+    this.readyMarker = options.readyMarker;
+    this.startupTimeoutMs = (options.startupTimeoutSeconds || DEFAULT_STARTUP_TIMEOUT_SECONDS) * 1000;
+    this.workers = new Set();
+    this.queue = [];
+    this.closed = false;
+    this.counters = { spawned: 0, recycled: 0, crashed: 0, requests: 0 };
+  }
+
+  /**
+   * Send a prompt to an idle process, waiting for one if they are all busy
+   * @param {string} prompt
+   * @param {Object} [params]
+   * @param {AbortSignal} [params.signal] - kills the process answering the prompt when aborted
+   * @param {function(string)} [params.onData] - called with every piece of the answer
+   * @param {number} [params.timeoutMs] - the process is killed if it has not answered in time
+   * @returns {Promise<string>} the answer
+   */
+  run(prompt, { signal, onData, timeoutMs } = {}) {
+    return new Promise((resolve, reject) => {
+      if (signal && signal.aborted) {
+        return reject(new Error('Request aborted'));
+      }
+      if (this.closed) {
+        return reject(
+          new AdapterError(httpStatus.BAD_GATEWAY, adapterErrorCodes.CLI_SPAWN_FAILED, 'The process pool is closed')
+        );
+      }
+      const job = { prompt, onData, timeoutMs, signal, resolve, reject };
+      if (signal) {
+        job.onAbort = () => this.abort(job);
+        signal.addEventListener('abort', job.onAbort);
+      }
+      this.queue.push(job);
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Describe the processes of the pool and what they did so far
+   * @returns {Object}
+   */
+  stats() {
+    const workers = Array.from(this.workers);
+    return {
+      size: this.size,
+      maxRequests: this.maxRequests,
+      processes: workers.map((worker) => ({
+        pid: worker.child.pid,
+        ready: worker.ready,
+        busy: !!worker.job,
+        requests: worker.requests,
+      })),
+      queued: this.queue.length,
+      ...this.counters,
+    };
+  }
+
+  /**
+   * Kill every process and fail the pending requests
+   */
+  close() {
+    this.closed = true;
+    this.failQueue(
+      new AdapterError(httpStatus.BAD_GATEWAY, adapterErrorCodes.CLI_SPAWN_FAILED, 'The process pool is closed')
+    );
+    this.workers.forEach((worker) => {
+      if (worker.job) {
+        this.settle(worker.job, new Error('Request aborted'));
+      }
+      this.retire(worker);
+    });
+  }
+
+  /**
+   * Give the queued requests to the idle processes, spawning the missing processes
+   */
+  dispatch() {
+    if (this.closed || !this.queue.length) {
+      return;
+    }
+    while (this.workers.size < this.size) {
+      this.spawnWorker();
+    }
+    this.workers.forEach((worker) => {
+      if (worker.ready && !worker.job && this.queue.length) {
+        this.assign(worker, this.queue.shift());
+      }
+    });
+  }
+
+  /**
+   * Start a process
+   */
+  spawnWorker() {
+    // never use a shell: the command and its arguments are passed as an array
+    const child = childProcess.spawn(this.command, this.args, { stdio: ['pipe', 'pipe', 'pipe'], detached: true });
+    const worker = { child, ready: !this.readyMarker, job: null, requests: 0, output: '', stderr: '' };
+    this.workers.add(worker);
+    this.counters.spawned += 1;
+
+    if (!worker.ready) {
+      worker.startupTimer = setTimeout(() => {
+        this.retire(worker);
+        this.failQueueIfNoneReady(
+          new AdapterError(
+            httpStatus.GATEWAY_TIMEOUT,
+            adapterErrorCodes.CLI_TIMEOUT,
+            `CLI did not get ready within ${this.startupTimeoutMs / 1000} seconds`
+          )
+        );
+      }, this.startupTimeoutMs);
+    }
+
+    child.stdout.setEncoding('utf8');
+    child.stdout.on('data', (text) => this.onOutput(worker, text));
+    child.stderr.setEncoding('utf8');
+    child.stderr.on('data', (text) => {
+      worker.stderr = (worker.stderr + text).slice(-STDERR_EXCERPT_LENGTH);
+    });
+    // a process that exits while a prompt is written must not crash the gateway with EPIPE
+    child.stdin.on('error', () => {});
+    child.on('error', (error) => this.onExit(worker, { error }));
+    child.on('close', (code, signal) => this.onExit(worker, { code, signal }));
+  }
+
+  /**
+   * Write a prompt to an idle process
+   * @param {Object} worker
+   * @param {Object} job
+   */
+  assign(worker, job) {
+    worker.job = job;
+    worker.output = '';
+    job.worker = worker;
+    job.emitted = 0;
+    if (job.timeoutMs) {
+      job.timer = setTimeout(() => {
+        this.retire(worker);
+        this.settle(
+          job,
+          new AdapterError(
+            httpStatus.GATEWAY_TIMEOUT,
+            adapterErrorCodes.CLI_TIMEOUT,
+            `CLI timed out after ${job.timeoutMs / 1000} seconds`
+          )
+        );
+        this.dispatch();
+      }, job.timeoutMs);
+    }
+    worker.child.stdin.write(job.prompt + this.requestDelimiter);
+  }
+
+  /**
+   * Handle a piece of stdout: wait for the ready marker, then stream the answer up to the response delimiter
+   * @param {Object} worker
+   * @param {string} text
+   */
+  onOutput(worker, text) {
+    if (!worker.ready) {
+      worker.output += text;
+      if (!worker.output.includes(this.readyMarker)) {
+        return;
+      }
+      clearTimeout(worker.startupTimer);
+      worker.ready = true;
+      worker.output = '';
+      return this.dispatch();
+    }
+    const { job } = worker;
+    // whatever a process prints between requests is dropped
+    if (!job) {
+      return;
+    }
+    worker.output += text;
+    const index = worker.output.indexOf(this.responseDelimiter);
+    // hold back what could be the beginning of the delimiter
+    const end = index === -1 ? Math.max(0, worker.output.length - this.responseDelimiter.length + 1) : index;
+    if (end > job.emitted && job.onData) {
+      job.onData(worker.output.slice(job.emitted, end));
+    }
+    job.emitted = Math.max(job.emitted, end);
+    if (index === -1) {
+      return;
+    }
+
+    const answer = worker.output.slice(0, index);
+    worker.job = null;
+    worker.output = '';
+    worker.requests += 1;
+    this.counters.requests += 1;
+    this.settle(job, null, answer);
+    if (worker.requests >= this.maxRequests) {
+      this.counters.recycled += 1;
+      this.retire(worker);
+      this.spawnWorker();
+    }
+    this.dispatch();
+  }
+
+  /**
+   * Handle the exit of a process: the ones which were not killed on purpose crashed
+   * @param {Object} worker
+   * @param {Object} exit - { error } if it could not be spawned, { code, signal } otherwise
+   */
+  onExit(worker, { error, code, signal }) {
+    if (worker.exited) {
+      return;
+    }
+    worker.exited = true;
+    clearTimeout(worker.startupTimer);
+    if (worker.retired) {
+      return;
+    }
+    this.workers.delete(worker);
+    this.counters.crashed += 1;
+
+    const stderr = redactSecrets(worker.stderr.trim());
+    let exitError;
+    if (error && error.code === 'ENOENT') {
+      exitError = new AdapterError(
+        httpStatus.BAD_GATEWAY,
+        adapterErrorCodes.CLI_NOT_FOUND,
+        `CLI command not found: ${this.command}`
+      );
+    } else if (error) {
+      exitError = new AdapterError(
+        httpStatus.BAD_GATEWAY,
+        adapterErrorCodes.CLI_SPAWN_FAILED,
+        `Failed to start CLI: ${error.message}`
+      );
+    } else {
+      exitError = new AdapterError(
+        httpStatus.BAD_GATEWAY,
+        adapterErrorCodes.CLI_CRASHED,
+        `Pooled CLI exited ${signal ? `on ${signal}` : `with code ${code}`}${stderr ? `: ${stderr}` : ''}`,
+        { exitCode: code, signal, stderr }
+      );
+    }
+
+    if (worker.job) {
+      this.settle(worker.job, exitError);
+    }
+    if (worker.ready) {
+      this.dispatch();
+    } else {
+      // a CLI which cannot start would be respawned forever
+      this.failQueueIfNoneReady(exitError);
+    }
+  }
+
+  /**
+   * Kill a process on purpose
+   * @param {Object} worker
+   */
+  retire(worker) {
+    worker.retired = true;
+    worker.job = null;
+    this.workers.delete(worker);
+    clearTimeout(worker.startupTimer);
+    if (worker.exited) {
+      return;
+    }
+    killProcessTree(worker.child, 'SIGTERM');
+    setTimeout(() => {
+      if (!worker.exited) {
+        killProcessTree(worker.child, 'SIGKILL');
+      }
+    }, KILL_GRACE_MS).unref();
+  }
+
+  /**
+   * Abort a request: a queued one is dropped, the process answering a running one is killed
+   * @param {Object} job
+   */
+  abort(job) {
+    const index = this.queue.indexOf(job);
+    if (index !== -1) {
+      this.queue.splice(index, 1);
+    } else if (job.worker && job.worker.job === job) {
+      this.retire(job.worker);
+    }
+    this.settle(job, new Error('Request aborted'));
+    this.dispatch();
+  }
+
+  /**
+   * Fail every queued request
+   * @param {Error} error
+   */
+  failQueue(error) {
+    this.queue.splice(0).forEach((job) => this.settle(job, error));
+  }
+
+  /**
+   * Fail every queued request unless a process is ready to serve them
+   * @param {Error} error
+   */
+  failQueueIfNoneReady(error) {
+    if (!Array.from(this.workers).some((worker) => worker.ready)) {
+      this.workers.forEach((worker) => this.retire(worker));
+      this.failQueue(error);
+    }
+  }
+
+  /**
+   * Resolve or reject a request once
+   * @param {Object} job
+   * @param {Error} [error]
+   * @param {string} [answer]
+   */
+  // eslint-disable-next-line class-methods-use-this
+  settle(job, error, answer) {
+    if (job.settled) {
+      return;
+    }
+    job.settled = true;
+    clearTimeout(job.timer);
+    if (job.signal) {
+      job.signal.removeEventListener('abort', job.onAbort);
+    }
+    if (error) {
+      job.reject(error);
+    } else {
+      job.resolve(answer);
+    }
+  }
+}
+
+module.exports = ProcessPool;
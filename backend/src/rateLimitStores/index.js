@@ -0,0 +1,27 @@
+const MemoryStore = require('./memory.store');
+const MongoStore = require('./mongo.store');
+
+const stores = {
+  memory: MemoryStore,
+  mongo: MongoStore,
+};
+
+/**
+ * Create a rate limit store
+ * Stores implement get(key, windowMs), increment(key, amount, windowMs), acquire(key, limit) and release(key)
+ * @param {string} type - memory or mongo
+ * @returns {MemoryStore|MongoStore}
+ */
+const createRateLimitStore = (type) => {
+  const Store = stores[type];
+  if (!Store) {
+    throw new Error(`Unknown rate limit store: ${type}`);
+  }
+  return new Store();
+};
+
+module.exports = {
+  MemoryStore,
+  MongoStore,
+  createRateLimitStore,
+};
@@ -0,0 +1,69 @@
+/**
+ * Rate limit store keeping its counters in process memory
+ * Only suitable when the gateway runs as a single instance
+ */
+class MemoryStore {
+  constructor() {
+    this.windows = new Map();
+    this.active = new Map();
+  }
+
+  /**
+   * Get the counter of the current window of a key
+   * @param {string} key
+   * @param {number} windowMs
+   * @returns {Promise<{ count: number, resetAt: Date }>}
+   */
+  async get(key, windowMs) {
+    const window = this.windows.get(key);
+    if (!window || window.resetAt.getTime() <= Date.now()) {
+      return { count: 0, resetAt: new Date(Date.now() + windowMs) };
+    }
+    return { ...window };
+  }
+
+  /**
+   * Add to the counter of the current window of a key, starting a new window if the previous one is over
+   * @param {string} key
+   * @param {number} amount
+   * @param {number} windowMs
+   * @returns {Promise<{ count: number, resetAt: Date }>}
+   */
+  async increment(key, amount, windowMs) {
+    const window = await this.get(key, windowMs);
+    window.count += amount;
+    this.windows.set(key, window);
+    return { ...window };
+  }
+
+  /**
+   * Take one of the concurrency slots of a key
+   * @param {string} key
+   * @param {number} limit
+   * @returns {Promise<boolean>} false if every slot is taken
+   */
+  async acquire(key, limit) {
+    const active = this.active.get(key) || 0;
+    if (active >= limit) {
+      return false;
+    }
+    this.active.set(key, active + 1);
+    return true;
+  }
+
+  /**
+   * Give back a concurrency slot of a key
+   * @param {string} key
+   * @returns {Promise}
+   */
+  async release(key) {
+    const active = this.active.get(key) || 0;
+    if (active <= 1) {
+      this.active.delete(key);
+    } else {
+      this.active.set(key, active - 1);
+    }
+  }
+}
+
+module.exports = MemoryStore;
@@ -0,0 +1,72 @@
+const { RateLimit } = require('../models');
+
+const DUPLICATE_KEY_ERROR = 11000;
+
+// concurrency counters are dropped after this delay, so slots held by a crashed instance are eventually freed
+const CONCURRENCY_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * Rate limit store keeping its counters in mongo, shared by every gateway instance
+ */
+class MongoStore {
+  // eslint-disable-next-line class-methods-use-this
+  async get(key, windowMs) {
+    const window = await RateLimit.findOne({ key, resetAt: { $gt: new Date() } });
+    if (!window) {
+      return { count: 0, resetAt: new Date(Date.now() + windowMs) };
+    }
+    return { count: window.count, resetAt: window.resetAt };
+  }
+
+  async increment(key, amount, windowMs) {
+    const now = new Date();
+    const window = await RateLimit.findOneAndUpdate(
+      { key, resetAt: { $gt: now } },
+      { $inc: { count: amount } },
+      { new: true }
+    );
+    if (window) {
+      return { count: window.count, resetAt: window.resetAt };
+    }
+    try {
+      // the previous window is over (or the key is new): start a new one
+      const newWindow = await RateLimit.findOneAndUpdate(
+        { key, resetAt: { $lte: now } },
+        { count: amount, resetAt: new Date(now.getTime() + windowMs) },
+        { new: true, upsert: true }
+      );
+      return { count: newWindow.count, resetAt: newWindow.resetAt };
+    } catch (error) {
+      // another instance started the new window first
+      if (error.code === DUPLICATE_KEY_ERROR) {
+        return this.increment(key, amount, windowMs);
+      }
+      throw error;
+    }
+  }
+
+  // eslint-disable-next-line class-methods-use-this
+  async acquire(key, limit) {
+    try {
+      await RateLimit.findOneAndUpdate(
+        { key, count: { $lt: limit } },
+        { $inc: { count: 1 }, resetAt: new Date(Date.now() + CONCURRENCY_TTL_MS) },
+        { upsert: true }
+      );
+      return true;
+    } catch (error) {
+      // the counter exists but every slot is taken, so the upsert tried to insert a duplicate key
+      if (error.code === DUPLICATE_KEY_ERROR) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  // eslint-disable-next-line class-methods-use-this
+  async release(key) {
+    await RateLimit.updateOne({ key, count: { $gt: 0 } }, { $inc: { count: -1 } });
+  }
+}
+
+module.exports = MongoStore;
@@ -0,0 +1,270 @@
+const express = require('express');
+const auth = require('../../middlewares/auth');
+const validate = require('../../middlewares/validate');
+const apiKeyValidation = require('../../validations/apiKey.validation');
+const apiKeyController = require('../../controllers/apiKey.controller');
+
+const router = express.Router();
+
+router
+  .route('/')
+  .post(auth('manageApiKeys'), validate(apiKeyValidation.createApiKey), apiKeyController.createApiKey)
+  .get(auth('getApiKeys'), validate(apiKeyValidation.getApiKeys), apiKeyController.getApiKeys);
+
+router.route('/:apiKeyId').get(auth('getApiKeys'), validate(apiKeyValidation.getApiKey), apiKeyController.getApiKey);
+
+router
+  .route('/:apiKeyId/revoke')
+  .post(auth('manageApiKeys'), validate(apiKeyValidation.revokeApiKey), apiKeyController.revokeApiKey);
+
+router
+  .route('/:apiKeyId/rotate')
+  .post(auth('manageApiKeys'), validate(apiKeyValidation.rotateApiKey), apiKeyController.rotateApiKey);
+
+module.exports = router;
+
+/**
+ * @swagger
+ * tags:
+ *   name: API Keys
+ *   description: Gateway API key management
+ */
+
+/**
+ * @swagger
+ * /admin/api-keys:
+ *   post:
+ *     summary: Create an API key
+ *     description: Only admins can create API keys. The raw key is returned in this response only.
+ *     tags: [API Keys]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *             properties:
+ *               name:
+ *                 type: string
+ *               user:
+ *                 type: string
+ *                 description: owner of the key (defaults to the caller)
+ *               scopes:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   enum: [chat, embeddings, models:read]
+ *               models:
+ *                 type: array
+ *                 description: models the key may use (all models if empty)
+ *                 items:
+ *                   type: string
+ *               rateLimits:
+ *                 type: object
+ *                 description: overrides of the gateway default limits (0 disables a limit)
+ *                 properties:
+ *                   requestsPerMinute:
+ *                     type: integer
+ *                   tokensPerMinute:
+ *                     type: integer
+ *                   maxConcurrent:
+ *                     type: integer
+ *               expiresAt:
+ *                 type: string
+ *                 format: date-time
+ *             example:
+ *               name: Dyad desktop
+ *               scopes: [chat, models:read]
+ *     responses:
+ *       "201":
+ *         description: Created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiKey'
+ *                 - type: object
+ *                   properties:
+ *                     key:
+ *                       type: string
+ *                       description: raw API key, shown only once
+ *       "401":
+ *         $ref: '#/components/responses/Unauthorized'
+ *       "403":
+ *         $ref: '#/components/responses/Forbidden'
+ *
+ *   get:
+ *     summary: Get all API keys
+ *     description: Only admins can retrieve API keys.
+ *     tags: [API Keys]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: name
+ *         schema:
+ *           type: string
+ *         description: API key name
+ *       - in: query
+ *         name: user
+ *         schema:
+ *           type: string
+ *         description: Owner id
+ *       - in: query
+ *         name: revoked
+ *         schema:
+ *           type: boolean
+ *         description: Whether the API key is revoked
+ *       - in: query
+ *         name: sortBy
+ *         schema:
+ *           type: string
+ *         description: sort by query in the form of field:desc/asc (ex. name:asc)
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *         default: 10
+ *         description: Maximum number of API keys
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *         description: Page number
+ *     responses:
+ *       "200":
+ *         description: OK
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 results:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/ApiKey'
+ *                 page:
+ *                   type: integer
+ *                   example: 1
+ *                 limit:
+ *                   type: integer
+ *                   example: 10
+ *                 totalPages:
+ *                   type: integer
+ *                   example: 1
+ *                 totalResults:
+ *                   type: integer
+ *                   example: 1
+ *       "401":
+ *         $ref: '#/components/responses/Unauthorized'
+ *       "403":
+ *         $ref: '#/components/responses/Forbidden'
+ */
+
+/**
+ * @swagger
+ * /admin/api-keys/{id}:
+ *   get:
+ *     summary: Get an API key
+ *     description: Only admins can fetch API keys.
+ *     tags: [API Keys]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: API key id
+ *     responses:
+ *       "200":
+ *         description: OK
+ *         content:
+ *           application/json:
+ *             schema:
+ *                $ref: '#/components/schemas/ApiKey'
+ *       "401":
+ *         $ref: '#/components/responses/Unauthorized'
+ *       "403":
+ *         $ref: '#/components/responses/Forbidden'
+ *       "404":
+ *         $ref: '#/components/responses/NotFound'
+ */
+
+/**
+ * @swagger
+ * /admin/api-keys/{id}/revoke:
+ *   post:
+ *     summary: Revoke an API key
+ *     description: Only admins can revoke API keys. A revoked key is rejected by the gateway.
+ *     tags: [API Keys]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: API key id
+ *     responses:
+ *       "200":
+ *         description: OK
+ *         content:
+ *           application/json:
+ *             schema:
+ *                $ref: '#/components/schemas/ApiKey'
+ *       "401":
+ *         $ref: '#/components/responses/Unauthorized'
+ *       "403":
+ *         $ref: '#/components/responses/Forbidden'
+ *       "404":
+ *         $ref: '#/components/responses/NotFound'
+ */
+
+/**
+ * @swagger
+ * /admin/api-keys/{id}/rotate:
+ *   post:
+ *     summary: Rotate an API key
+ *     description: Only admins can rotate API keys. The previous key stops working and the new raw key is returned in this response only.
+ *     tags: [API Keys]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: API key id
+ *     responses:
+ *       "200":
+ *         description: OK
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiKey'
+ *                 - type: object
+ *                   properties:
+ *                     key:
+ *                       type: string
+ *                       description: new raw API key, shown only once
+ *       "400":
+ *         description: API key is revoked
+ *       "401":
+ *         $ref: '#/components/responses/Unauthorized'
+ *       "403":
+ *         $ref: '#/components/responses/Forbidden'
+ *       "404":
+ *         $ref: '#/components/responses/NotFound'
+ */
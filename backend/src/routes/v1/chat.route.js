@@ -0,0 +1,125 @@
+const express = require('express');
+const { gatewayAuth } = require('../../middlewares/gatewayAuth');
+const { gatewayLimiter } = require('../../middlewares/rateLimiter');
+const { idempotency } = require('../../middlewares/idempotency');
+const validate = require('../../middlewares/validate');
+const chatValidation = require('../../validations/chat.validation');
+const chatController = require('../../controllers/chat.controller');
+const { apiKeyScopes } = require('../../config/apiKeys');
+
+const router = express.Router();
+
+router.post(
+  '/completions',
+  gatewayAuth(apiKeyScopes.CHAT),
+  gatewayLimiter,
+  validate(chatValidation.createChatCompletion),
+  idempotency,
+  chatController.createChatCompletion
+);
+
+module.exports = router;
+
+/**
+ * @swagger
+ * tags:
+ *   name: Chat
+ *   description: OpenAI-compatible chat completions
+ */
+
+/**
+ * @swagger
+ * /chat/completions:
+ *   post:
+ *     summary: Create a chat completion
+ *     description: Routes an OpenAI chat completion request to the provider that serves the requested model, then to the fallbacks of its model mapping if it times out, fails with a 5xx error or is disabled.
+ *     tags: [Chat]
+ *     security:
+ *       - apiKeyAuth: []
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: header
+ *         name: Idempotency-Key
+ *         schema:
+ *           type: string
+ *           maxLength: 255
+ *         description: >-
+ *           Requests repeating the key of a request in flight or served in the last IDEMPOTENCY_WINDOW_SECONDS get its
+ *           response instead of being run again
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - model
+ *               - messages
+ *             properties:
+ *               model:
+ *                 type: string
+ *               messages:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     role:
+ *                       type: string
+ *                       enum: [system, user, assistant, tool]
+ *                     content:
+ *                       type: string
+ *               temperature:
+ *                 type: number
+ *                 minimum: 0
+ *                 maximum: 2
+ *               max_tokens:
+ *                 type: integer
+ *                 minimum: 1
+ *               stop:
+ *                 oneOf:
+ *                   - type: string
+ *                   - type: array
+ *                     items:
+ *                       type: string
+ *               user:
+ *                 type: string
+ *             example:
+ *               model: gemini-2.5-pro
+ *               messages:
+ *                 - role: user
+ *                   content: Hello
+ *     responses:
+ *       "200":
+ *         description: OK
+ *         headers:
+ *           x-gateway-provider:
+ *             description: slug of the provider which served the request, after the fallbacks of the model
+ *             schema:
+ *               type: string
+ *           idempotent-replayed:
+ *             description: true when the response is the one of an earlier request with the same Idempotency-Key
+ *             schema:
+ *               type: string
+ *         content:
+ *           application/json:
+ *             schema:
+ *                $ref: '#/components/schemas/ChatCompletion'
+ *       "400":
+ *         $ref: '#/components/responses/GatewayError'
+ *       "401":
+ *         $ref: '#/components/responses/GatewayError'
+ *       "403":
+ *         $ref: '#/components/responses/GatewayError'
+ *       "404":
+ *         $ref: '#/components/responses/GatewayError'
+ *       "422":
+ *         description: The Idempotency-Key was already used with another request body (code idempotency_key_reused)
+ *       "429":
+ *         $ref: '#/components/responses/RateLimited'
+ *       "502":
+ *         $ref: '#/components/responses/GatewayError'
+ *       "503":
+ *         description: The circuits of the providers serving the model are open (code provider_unavailable)
+ *       "504":
+ *         $ref: '#/components/responses/GatewayError'
+ */
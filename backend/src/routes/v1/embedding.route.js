@@ -0,0 +1,129 @@
+const express = require('express');
+const { gatewayAuth } = require('../../middlewares/gatewayAuth');
+const { gatewayLimiter } = require('../../middlewares/rateLimiter');
+const { idempotency } = require('../../middlewares/idempotency');
+const validate = require('../../middlewares/validate');
+const embeddingValidation = require('../../validations/embedding.validation');
+const embeddingController = require('../../controllers/embedding.controller');
+const { apiKeyScopes } = require('../../config/apiKeys');
+
+const router = express.Router();
+
+router.post(
+  '/',
+  gatewayAuth(apiKeyScopes.EMBEDDINGS),
+  gatewayLimiter,
+  validate(embeddingValidation.createEmbeddings),
+  idempotency,
+  embeddingController.createEmbeddings
+);
+
+module.exports = router;
+
+/**
+ * @swagger
+ * tags:
+ *   name: Embeddings
+ *   description: OpenAI-compatible embeddings
+ */
+
+/**
+ * @swagger
+ * /embeddings:
+ *   post:
+ *     summary: Create embeddings
+ *     description: Routes an OpenAI embeddings request to the provider that serves the requested model.
+ *     tags: [Embeddings]
+ *     security:
+ *       - apiKeyAuth: []
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: header
+ *         name: Idempotency-Key
+ *         schema:
+ *           type: string
+ *           maxLength: 255
+ *         description: >-
+ *           Requests repeating the key of a request in flight or served in the last IDEMPOTENCY_WINDOW_SECONDS get its
+ *           response instead of being run again
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - model
+ *               - input
+ *             properties:
+ *               model:
+ *                 type: string
+ *               input:
+ *                 oneOf:
+ *                   - type: string
+ *                   - type: array
+ *                     items:
+ *                       type: string
+ *               encoding_format:
+ *                 type: string
+ *                 enum: [float]
+ *               user:
+ *                 type: string
+ *             example:
+ *               model: nomic-embed-text
+ *               input: Hello
+ *     responses:
+ *       "200":
+ *         description: OK
+ *         headers:
+ *           x-gateway-provider:
+ *             description: slug of the provider which served the request, after the fallbacks of the model
+ *             schema:
+ *               type: string
+ *           idempotent-replayed:
+ *             description: true when the response is the one of an earlier request with the same Idempotency-Key
+ *             schema:
+ *               type: string
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 object:
+ *                   type: string
+ *                   example: list
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       object:
+ *                         type: string
+ *                         example: embedding
+ *                       index:
+ *                         type: integer
+ *                       embedding:
+ *                         type: array
+ *                         items:
+ *                           type: number
+ *                 model:
+ *                   type: string
+ *                 usage:
+ *                   type: object
+ *       "400":
+ *         $ref: '#/components/responses/GatewayError'
+ *       "401":
+ *         $ref: '#/components/responses/GatewayError'
+ *       "403":
+ *         $ref: '#/components/responses/GatewayError'
+ *       "404":
+ *         $ref: '#/components/responses/GatewayError'
+ *       "422":
+ *         description: The Idempotency-Key was already used with another request body (code idempotency_key_reused)
+ *       "429":
+ *         $ref: '#/components/responses/RateLimited'
+ *       "502":
+ *         $ref: '#/components/responses/GatewayError'
+ *       "503":
+ *         description: The circuits of the providers serving the model are open (code provider_unavailable)
+ */
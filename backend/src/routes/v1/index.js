@@ -1,7 +1,14 @@
 const express = require('express');
+const apiKeyRoute = require('./apiKey.route');
 const authRoute = require('./auth.route');
+const chatRoute = require('./chat.route');
+const embeddingRoute = require('./embedding.route');
 const userRoute = require('./user.route');
+const modelRoute = require('./model.route');
+const modelRouteRoute = require('./modelRoute.route');
+const providerRoute = require('./provider.route');
 const docsRoute = require('./docs.route');
+const { openaiErrorFormat } = require('../../middlewares/error');
 const config = require('../../config/config');
 
 const router = express.Router();
@@ -15,6 +22,34 @@ const defaultRoutes = [
     path: '/users',
     route: userRoute,
   },
+  {
+    path: '/admin/providers',
+    route: providerRoute,
+  },
+  {
+    path: '/admin/model-routes',
+    route: modelRouteRoute,
+  },
+  {
+    path: '/admin/api-keys',
+    route: apiKeyRoute,
+  },
+];
+
+const gatewayRoutes = [
+  // OpenAI-compatible routes, which reply with OpenAI-shaped errors
+  {
+    path: '/chat',
+    route: chatRoute,
+  },
+  {
+    path: '/embeddings',
+    route: embeddingRoute,
+  },
+  {
+    path: '/models',
+    route: modelRoute,
+  },
 ];
 
 const devRoutes = [
@@ -29,6 +64,10 @@ defaultRoutes.forEach((route) => {
   router.use(route.path, route.route);
 });
 
+gatewayRoutes.forEach((route) => {
+  router.use(route.path, openaiErrorFormat, express.json({ limit: config.gateway.bodyLimit }), route.route);
+});
+
 /* istanbul ignore next */
 if (config.env === 'development') {
   devRoutes.forEach((route) => {
@@ -0,0 +1,91 @@
+const express = require('express');
+const { gatewayAuth } = require('../../middlewares/gatewayAuth');
+const { gatewayLimiter } = require('../../middlewares/rateLimiter');
+const validate = require('../../middlewares/validate');
+const modelValidation = require('../../validations/model.validation');
+const modelController = require('../../controllers/model.controller');
+const { apiKeyScopes } = require('../../config/apiKeys');
+
+const router = express.Router();
+
+router.get('/', gatewayAuth(apiKeyScopes.MODELS_READ), gatewayLimiter, modelController.getModels);
+router.get(
+  '/:modelId',
+  gatewayAuth(apiKeyScopes.MODELS_READ),
+  gatewayLimiter,
+  validate(modelValidation.getModel),
+  modelController.getModel
+);
+
+module.exports = router;
+
+/**
+ * @swagger
+ * tags:
+ *   name: Models
+ *   description: OpenAI-compatible model listing
+ */
+
+/**
+ * @swagger
+ * /models:
+ *   get:
+ *     summary: List models
+ *     description: Lists the models served by all enabled providers, restricted to the models allowed for the API key.
+ *     tags: [Models]
+ *     security:
+ *       - apiKeyAuth: []
+ *       - bearerAuth: []
+ *     responses:
+ *       "200":
+ *         description: OK
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 object:
+ *                   type: string
+ *                   example: list
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Model'
+ *       "401":
+ *         $ref: '#/components/responses/GatewayError'
+ *       "403":
+ *         $ref: '#/components/responses/GatewayError'
+ */
+
+/**
+ * @swagger
+ * /models/{id}:
+ *   get:
+ *     summary: Get a model
+ *     tags: [Models]
+ *     security:
+ *       - apiKeyAuth: []
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Model id
+ *     responses:
+ *       "200":
+ *         description: OK
+ *         content:
+ *           application/json:
+ *             schema:
+ *                $ref: '#/components/schemas/Model'
+ *       "401":
+ *         $ref: '#/components/responses/GatewayError'
+ *       "403":
+ *         $ref: '#/components/responses/GatewayError'
+ *       "404":
+ *         $ref: '#/components/responses/GatewayError'
+ *       "429":
+ *         $ref: '#/components/responses/RateLimited'
+ */
@@ -0,0 +1,272 @@
+const express = require('express');
+const auth = require('../../middlewares/auth');
+const validate = require('../../middlewares/validate');
+const modelRouteValidation = require('../../validations/modelRoute.validation');
+const modelRouteController = require('../../controllers/modelRoute.controller');
+
+const router = express.Router();
+
+router
+  .route('/')
+  .post(auth('manageModelRoutes'), validate(modelRouteValidation.createModelRoute), modelRouteController.createModelRoute)
+  .get(auth('getModelRoutes'), validate(modelRouteValidation.getModelRoutes), modelRouteController.getModelRoutes);
+
+router
+  .route('/:modelRouteId')
+  .get(auth('getModelRoutes'), validate(modelRouteValidation.getModelRoute), modelRouteController.getModelRoute)
+  .patch(auth('manageModelRoutes'), validate(modelRouteValidation.updateModelRoute), modelRouteController.updateModelRoute)
+  .delete(auth('manageModelRoutes'), validate(modelRouteValidation.deleteModelRoute), modelRouteController.deleteModelRoute);
+
+router
+  .route('/:modelRouteId/stats')
+  .get(auth('getModelRoutes'), validate(modelRouteValidation.getModelRouteStats), modelRouteController.getModelRouteStats);
+
+module.exports = router;
+
+/**
+ * @swagger
+ * tags:
+ *   name: Model Routes
+ *   description: Routing of the models served by several providers
+ */
+
+/**
+ * @swagger
+ * /admin/model-routes:
+ *   post:
+ *     summary: Create a model route
+ *     description: >-
+ *       Only admins can create model routes. A route sets the strategy picking the provider of each request when
+ *       several enabled providers map the model; models without a route use round-robin.
+ *     tags: [Model Routes]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - dyadModelId
+ *             properties:
+ *               dyadModelId:
+ *                 type: string
+ *                 description: must be unique
+ *               strategy:
+ *                 type: string
+ *                 enum: [round-robin, weighted-random, least-in-flight, lowest-latency]
+ *                 default: round-robin
+ *             example:
+ *               dyadModelId: llama3
+ *               strategy: least-in-flight
+ *     responses:
+ *       "201":
+ *         description: Created
+ *         content:
+ *           application/json:
+ *             schema:
+ *                $ref: '#/components/schemas/ModelRoute'
+ *       "400":
+ *         description: The model already has a route
+ *       "401":
+ *         $ref: '#/components/responses/Unauthorized'
+ *       "403":
+ *         $ref: '#/components/responses/Forbidden'
+ *
+ *   get:
+ *     summary: Get all model routes
+ *     description: Only admins can retrieve model routes.
+ *     tags: [Model Routes]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: dyadModelId
+ *         schema:
+ *           type: string
+ *         description: Dyad model id
+ *       - in: query
+ *         name: strategy
+ *         schema:
+ *           type: string
+ *         description: Routing strategy
+ *       - in: query
+ *         name: sortBy
+ *         schema:
+ *           type: string
+ *         description: sort by query in the form of field:desc/asc (ex. dyadModelId:asc)
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *         default: 10
+ *         description: Maximum number of model routes
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *         description: Page number
+ *     responses:
+ *       "200":
+ *         description: OK
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 results:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/ModelRoute'
+ *                 page:
+ *                   type: integer
+ *                   example: 1
+ *                 limit:
+ *                   type: integer
+ *                   example: 10
+ *                 totalPages:
+ *                   type: integer
+ *                   example: 1
+ *                 totalResults:
+ *                   type: integer
+ *                   example: 1
+ *       "401":
+ *         $ref: '#/components/responses/Unauthorized'
+ *       "403":
+ *         $ref: '#/components/responses/Forbidden'
+ */
+
+/**
+ * @swagger
+ * /admin/model-routes/{id}:
+ *   get:
+ *     summary: Get a model route
+ *     description: Only admins can fetch model routes.
+ *     tags: [Model Routes]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Model route id
+ *     responses:
+ *       "200":
+ *         description: OK
+ *         content:
+ *           application/json:
+ *             schema:
+ *                $ref: '#/components/schemas/ModelRoute'
+ *       "401":
+ *         $ref: '#/components/responses/Unauthorized'
+ *       "403":
+ *         $ref: '#/components/responses/Forbidden'
+ *       "404":
+ *         $ref: '#/components/responses/NotFound'
+ *
+ *   patch:
+ *     summary: Update a model route
+ *     description: Only admins can update model routes. Changing the strategy resets the stats of the model.
+ *     tags: [Model Routes]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Model route id
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               dyadModelId:
+ *                 type: string
+ *                 description: must be unique
+ *               strategy:
+ *                 type: string
+ *                 enum: [round-robin, weighted-random, least-in-flight, lowest-latency]
+ *             example:
+ *               strategy: weighted-random
+ *     responses:
+ *       "200":
+ *         description: OK
+ *         content:
+ *           application/json:
+ *             schema:
+ *                $ref: '#/components/schemas/ModelRoute'
+ *       "400":
+ *         description: The model already has a route
+ *       "401":
+ *         $ref: '#/components/responses/Unauthorized'
+ *       "403":
+ *         $ref: '#/components/responses/Forbidden'
+ *       "404":
+ *         $ref: '#/components/responses/NotFound'
+ *
+ *   delete:
+ *     summary: Delete a model route
+ *     description: Only admins can delete model routes. The model goes back to round-robin.
+ *     tags: [Model Routes]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Model route id
+ *     responses:
+ *       "200":
+ *         description: No content
+ *       "401":
+ *         $ref: '#/components/responses/Unauthorized'
+ *       "403":
+ *         $ref: '#/components/responses/Forbidden'
+ *       "404":
+ *         $ref: '#/components/responses/NotFound'
+ */
+
+/**
+ * @swagger
+ * /admin/model-routes/{id}/stats:
+ *   get:
+ *     summary: Get the routing stats of a model
+ *     description: >-
+ *       Only admins can get routing stats. Counts the decisions of the strategy and the requests served by each
+ *       provider since the gateway started.
+ *     tags: [Model Routes]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Model route id
+ *     responses:
+ *       "200":
+ *         description: OK
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/RoutingStats'
+ *       "401":
+ *         $ref: '#/components/responses/Unauthorized'
+ *       "403":
+ *         $ref: '#/components/responses/Forbidden'
+ *       "404":
+ *         $ref: '#/components/responses/NotFound'
+ */
@@ -0,0 +1,661 @@
+const express = require('express');
+const auth = require('../../middlewares/auth');
+const validate = require('../../middlewares/validate');
+const providerValidation = require('../../validations/provider.validation');
+const providerController = require('../../controllers/provider.controller');
+
+const router = express.Router();
+
+router
+  .route('/')
+  .post(auth('manageProviders'), validate(providerValidation.createProvider), providerController.createProvider)
+  .get(auth('getProviders'), validate(providerValidation.getProviders), providerController.getProviders);
+
+router
+  .route('/health')
+  .get(auth('getProviders'), validate(providerValidation.getProvidersHealth), providerController.getProvidersHealth);
+
+router
+  .route('/:providerId')
+  .get(auth('getProviders'), validate(providerValidation.getProvider), providerController.getProvider)
+  .patch(auth('manageProviders'), validate(providerValidation.updateProvider), providerController.updateProvider)
+  .delete(auth('manageProviders'), validate(providerValidation.deleteProvider), providerController.deleteProvider);
+
+router
+  .route('/:providerId/remote-models')
+  .get(auth('getProviders'), validate(providerValidation.getRemoteModels), providerController.getRemoteModels);
+
+router
+  .route('/:providerId/import-models')
+  .post(auth('manageProviders'), validate(providerValidation.importModels), providerController.importModels);
+
+router
+  .route('/:providerId/prompt-preview')
+  .post(auth('getProviders'), validate(providerValidation.previewPrompt), providerController.previewPrompt);
+
+router
+  .route('/:providerId/pool')
+  .get(auth('getProviders'), validate(providerValidation.getPoolStats), providerController.getPoolStats);
+
+router
+  .route('/:providerId/circuit')
+  .get(auth('getProviders'), validate(providerValidation.getCircuit), providerController.getCircuit);
+
+router
+  .route('/:providerId/circuit/reset')
+  .post(auth('manageProviders'), validate(providerValidation.resetCircuit), providerController.resetCircuit);
+
+router
+  .route('/:providerId/health')
+  .get(auth('getProviders'), validate(providerValidation.getHealth), providerController.getHealth);
+
+module.exports = router;
+
+/**
+ * @swagger
+ * tags:
+ *   name: Providers
+ *   description: Provider registry management
+ */
+
+/**
+ * @swagger
+ * /admin/providers:
+ *   post:
+ *     summary: Create a provider
+ *     description: Only admins can create providers.
+ *     tags: [Providers]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - slug
+ *               - type
+ *             properties:
+ *               name:
+ *                 type: string
+ *               slug:
+ *                 type: string
+ *                 description: must be unique
+ *               type:
+ *                 type: string
+ *                 enum: [spawn-cli, http-sdk, proxy, local]
+ *               description:
+ *                 type: string
+ *               enabled:
+ *                 type: boolean
+ *               models:
+ *                 type: array
+ *                 items:
+ *                   $ref: '#/components/schemas/ModelMapping'
+ *               adapterConfig:
+ *                 type: object
+ *                 description: required keys by type - command (spawn-cli), baseUrl (proxy), endpoint, requestTemplate and response (http-sdk)
+ *               credentials:
+ *                 type: object
+ *                 description: never returned in responses
+ *               retryPolicy:
+ *                 $ref: '#/components/schemas/RetryPolicy'
+ *             example:
+ *               name: Gemini CLI
+ *               slug: gemini-cli
+ *               type: spawn-cli
+ *               models:
+ *                 - dyadModelId: gemini-2.5-pro
+ *                   adapterModelId: gemini-2.5-pro
+ *                   maxTokens: 4096
+ *               adapterConfig:
+ *                 command: /usr/local/bin/gemini
+ *                 args: [--json]
+ *     responses:
+ *       "201":
+ *         description: Created
+ *         content:
+ *           application/json:
+ *             schema:
+ *                $ref: '#/components/schemas/Provider'
+ *       "400":
+ *         $ref: '#/components/responses/DuplicateSlug'
+ *       "401":
+ *         $ref: '#/components/responses/Unauthorized'
+ *       "403":
+ *         $ref: '#/components/responses/Forbidden'
+ *
+ *   get:
+ *     summary: Get all providers
+ *     description: Only admins can retrieve providers.
+ *     tags: [Providers]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: name
+ *         schema:
+ *           type: string
+ *         description: Provider name
+ *       - in: query
+ *         name: type
+ *         schema:
+ *           type: string
+ *           enum: [spawn-cli, http-sdk, proxy, local]
+ *         description: Provider type
+ *       - in: query
+ *         name: enabled
+ *         schema:
+ *           type: boolean
+ *         description: Whether the provider is enabled
+ *       - in: query
+ *         name: sortBy
+ *         schema:
+ *           type: string
+ *         description: sort by query in the form of field:desc/asc (ex. name:asc)
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *         default: 10
+ *         description: Maximum number of providers
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *         description: Page number
+ *     responses:
+ *       "200":
+ *         description: OK
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 results:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Provider'
+ *                 page:
+ *                   type: integer
+ *                   example: 1
+ *                 limit:
+ *                   type: integer
+ *                   example: 10
+ *                 totalPages:
+ *                   type: integer
+ *                   example: 1
+ *                 totalResults:
+ *                   type: integer
+ *                   example: 1
+ *       "401":
+ *         $ref: '#/components/responses/Unauthorized'
+ *       "403":
+ *         $ref: '#/components/responses/Forbidden'
+ */
+
+/**
+ * @swagger
+ * /admin/providers/health:
+ *   get:
+ *     summary: Get the health of the providers
+ *     description: >-
+ *       Only admins can get provider health. The gateway checks the enabled providers periodically
+ *       (HEALTH_CHECK_INTERVAL_SECONDS); the status is the one of the last check, the uptime and latency cover the period.
+ *     tags: [Providers]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: since
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Start of the period (the last 24 hours by default)
+ *     responses:
+ *       "200":
+ *         description: OK
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 results:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/ProviderHealth'
+ *       "401":
+ *         $ref: '#/components/responses/Unauthorized'
+ *       "403":
+ *         $ref: '#/components/responses/Forbidden'
+ */
+
+/**
+ * @swagger
+ * /admin/providers/{id}:
+ *   get:
+ *     summary: Get a provider
+ *     description: Only admins can fetch providers.
+ *     tags: [Providers]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Provider id
+ *     responses:
+ *       "200":
+ *         description: OK
+ *         content:
+ *           application/json:
+ *             schema:
+ *                $ref: '#/components/schemas/Provider'
+ *       "401":
+ *         $ref: '#/components/responses/Unauthorized'
+ *       "403":
+ *         $ref: '#/components/responses/Forbidden'
+ *       "404":
+ *         $ref: '#/components/responses/NotFound'
+ *
+ *   patch:
+ *     summary: Update a provider
+ *     description: Only admins can update providers.
+ *     tags: [Providers]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Provider id
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               slug:
+ *                 type: string
+ *                 description: must be unique
+ *               type:
+ *                 type: string
+ *                 enum: [spawn-cli, http-sdk, proxy, local]
+ *               description:
+ *                 type: string
+ *               enabled:
+ *                 type: boolean
+ *               models:
+ *                 type: array
+ *                 items:
+ *                   $ref: '#/components/schemas/ModelMapping'
+ *               adapterConfig:
+ *                 type: object
+ *               credentials:
+ *                 type: object
+ *               retryPolicy:
+ *                 $ref: '#/components/schemas/RetryPolicy'
+ *             example:
+ *               enabled: false
+ *     responses:
+ *       "200":
+ *         description: OK
+ *         content:
+ *           application/json:
+ *             schema:
+ *                $ref: '#/components/schemas/Provider'
+ *       "400":
+ *         $ref: '#/components/responses/DuplicateSlug'
+ *       "401":
+ *         $ref: '#/components/responses/Unauthorized'
+ *       "403":
+ *         $ref: '#/components/responses/Forbidden'
+ *       "404":
+ *         $ref: '#/components/responses/NotFound'
+ *
+ *   delete:
+ *     summary: Delete a provider
+ *     description: Only admins can delete providers.
+ *     tags: [Providers]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Provider id
+ *     responses:
+ *       "200":
+ *         description: No content
+ *       "401":
+ *         $ref: '#/components/responses/Unauthorized'
+ *       "403":
+ *         $ref: '#/components/responses/Forbidden'
+ *       "404":
+ *         $ref: '#/components/responses/NotFound'
+ */
+
+/**
+ * @swagger
+ * /admin/providers/{id}/remote-models:
+ *   get:
+ *     summary: Discover the models of a provider
+ *     description: Only admins can discover models. Lists the models exposed by the provider upstream (e.g. the models pulled in Ollama).
+ *     tags: [Providers]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Provider id
+ *     responses:
+ *       "200":
+ *         description: OK
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 results:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       id:
+ *                         type: string
+ *                       imported:
+ *                         type: boolean
+ *                         description: whether the model is already mapped
+ *       "401":
+ *         $ref: '#/components/responses/Unauthorized'
+ *       "403":
+ *         $ref: '#/components/responses/Forbidden'
+ *       "404":
+ *         $ref: '#/components/responses/NotFound'
+ *       "502":
+ *         description: The provider upstream could not be reached
+ */
+
+/**
+ * @swagger
+ * /admin/providers/{id}/import-models:
+ *   post:
+ *     summary: Import the models of a provider
+ *     description: Only admins can import models. Adds a model mapping, named after the upstream model, for every discovered model which is not mapped yet.
+ *     tags: [Providers]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Provider id
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               models:
+ *                 type: array
+ *                 description: upstream ids of the models to import (all of them by default)
+ *                 items:
+ *                   type: string
+ *             example:
+ *               models: [llama3:8b]
+ *     responses:
+ *       "200":
+ *         description: OK
+ *         content:
+ *           application/json:
+ *             schema:
+ *                $ref: '#/components/schemas/Provider'
+ *       "400":
+ *         description: The provider does not expose a requested model
+ *       "401":
+ *         $ref: '#/components/responses/Unauthorized'
+ *       "403":
+ *         $ref: '#/components/responses/Forbidden'
+ *       "404":
+ *         $ref: '#/components/responses/NotFound'
+ *       "502":
+ *         description: The provider upstream could not be reached
+ */
+
+/**
+ * @swagger
+ * /admin/providers/{id}/prompt-preview:
+ *   post:
+ *     summary: Preview the prompt of a CLI provider
+ *     description: Only admins can preview prompts. Renders messages into the prompt the CLI would read, without running it.
+ *     tags: [Providers]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Provider id
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - messages
+ *             properties:
+ *               messages:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *               prompt:
+ *                 $ref: '#/components/schemas/PromptConfig'
+ *             example:
+ *               messages:
+ *                 - role: system
+ *                   content: Be brief
+ *                 - role: user
+ *                   content: Hello
+ *               prompt:
+ *                 format: chatml
+ *     responses:
+ *       "200":
+ *         description: OK
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 prompt:
+ *                   type: string
+ *             example:
+ *               prompt: "<|im_start|>system\nBe brief<|im_end|>\n<|im_start|>user\nHello<|im_end|>\n<|im_start|>assistant\n"
+ *       "400":
+ *         description: The provider is not a CLI provider
+ *       "401":
+ *         $ref: '#/components/responses/Unauthorized'
+ *       "403":
+ *         $ref: '#/components/responses/Forbidden'
+ *       "404":
+ *         $ref: '#/components/responses/NotFound'
+ */
+
+/**
+ * @swagger
+ * /admin/providers/{id}/pool:
+ *   get:
+ *     summary: Get the process pool stats of a CLI provider
+ *     description: Only admins can get pool stats. Available for spawn-cli providers configured with a pool.
+ *     tags: [Providers]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Provider id
+ *     responses:
+ *       "200":
+ *         description: OK
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/PoolStats'
+ *       "400":
+ *         description: The provider does not run a process pool
+ *       "401":
+ *         $ref: '#/components/responses/Unauthorized'
+ *       "403":
+ *         $ref: '#/components/responses/Forbidden'
+ *       "404":
+ *         $ref: '#/components/responses/NotFound'
+ */
+
+/**
+ * @swagger
+ * /admin/providers/{id}/circuit:
+ *   get:
+ *     summary: Get the circuit breaker state of a provider
+ *     description: >-
+ *       Only admins can get circuit states. A provider failing too often within a window gets no requests during a
+ *       cool-down (open), then a single probe request (half-open) closes the circuit again or reopens it.
+ *     tags: [Providers]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Provider id
+ *     responses:
+ *       "200":
+ *         description: OK
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/CircuitState'
+ *       "401":
+ *         $ref: '#/components/responses/Unauthorized'
+ *       "403":
+ *         $ref: '#/components/responses/Forbidden'
+ *       "404":
+ *         $ref: '#/components/responses/NotFound'
+ */
+
+/**
+ * @swagger
+ * /admin/providers/{id}/circuit/reset:
+ *   post:
+ *     summary: Reset the circuit breaker of a provider
+ *     description: Only admins can reset circuits. The circuit is closed and the provider gets requests again.
+ *     tags: [Providers]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Provider id
+ *     responses:
+ *       "200":
+ *         description: OK
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/CircuitState'
+ *       "401":
+ *         $ref: '#/components/responses/Unauthorized'
+ *       "403":
+ *         $ref: '#/components/responses/Forbidden'
+ *       "404":
+ *         $ref: '#/components/responses/NotFound'
+ */
+
+/**
+ * @swagger
+ * /admin/providers/{id}/health:
+ *   get:
+ *     summary: Get the health of a provider with the history of its health checks
+ *     description: Only admins can get provider health.
+ *     tags: [Providers]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Provider id
+ *       - in: query
+ *         name: since
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Start of the period (the last 24 hours by default)
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *         description: Keep the most recent health checks only in the series
+ *     responses:
+ *       "200":
+ *         description: OK
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ProviderHealth'
+ *                 - type: object
+ *                   properties:
+ *                     series:
+ *                       type: array
+ *                       description: health checks of the period, oldest first
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           checkedAt:
+ *                             type: string
+ *                             format: date-time
+ *                           ok:
+ *                             type: boolean
+ *                           latencyMs:
+ *                             type: integer
+ *                           message:
+ *                             type: string
+ *       "401":
+ *         $ref: '#/components/responses/Unauthorized'
+ *       "403":
+ *         $ref: '#/components/responses/Forbidden'
+ *       "404":
+ *         $ref: '#/components/responses/NotFound'
+ */
@@ -0,0 +1,88 @@
+const strategies = require('./strategies');
+const { routingStrategies } = require('../config/routing');
+
+// weight of the latest request in the moving average of the latency
+const LATENCY_SMOOTHING = 0.3;
+
+/**
+ * Spreads the requests of a model over the providers serving it
+ * It picks a provider with a routing strategy and keeps, per provider, the decisions and the outcome of the requests
+ * it served: the strategies rely on them (in-flight requests, latency), the admin API exposes them.
+ */
+class Balancer {
+  constructor() {
+    this.decisions = 0;
+    // stats by provider slug
+    this.providers = new Map();
+  }
+
+  /**
+   * Stats of a provider, created on first use
+   * @param {string} slug
+   * @returns {{ selected: number, inFlight: number, completed: number, failed: number, latencyMs: number|null }}
+   */
+  statsOf(slug) {
+    if (!this.providers.has(slug)) {
+      this.providers.set(slug, { selected: 0, inFlight: 0, completed: 0, failed: 0, latencyMs: null });
+    }
+    return this.providers.get(slug);
+  }
+
+  /**
+   * Pick the provider serving a request
+   * @param {{ provider: Provider, mapping: Object }[]} candidates - the enabled providers serving the model
+   * @param {string} [strategy] - round-robin by default
+   * @returns {{ provider: Provider, mapping: Object }}
+   */
+  pick(candidates, strategy = routingStrategies.ROUND_ROBIN) {
+    const choose = strategies[strategy] || strategies[routingStrategies.ROUND_ROBIN];
+    const chosen = choose(
+      candidates.map((candidate) => ({ ...candidate, stats: this.statsOf(candidate.provider.slug) })),
+      this.decisions
+    );
+    this.decisions += 1;
+    chosen.stats.selected += 1;
+    return { provider: chosen.provider, mapping: chosen.mapping };
+  }
+
+  /**
+   * Run a request on a provider, keeping its in-flight count, failures and latency up to date
+   * @param {string} slug - the provider
+   * @param {function(): Promise} task
+   * @returns {Promise} what the task resolves with
+   */
+  async track(slug, task) {
+    const stats = this.statsOf(slug);
+    const start = Date.now();
+    stats.inFlight += 1;
+    try {
+      const result = await task();
+      const latencyMs = Date.now() - start;
+      stats.completed += 1;
+      stats.latencyMs =
+        stats.latencyMs === null ? latencyMs : LATENCY_SMOOTHING * latencyMs + (1 - LATENCY_SMOOTHING) * stats.latencyMs;
+      return result;
+    } catch (error) {
+      stats.failed += 1;
+      throw error;
+    } finally {
+      stats.inFlight -= 1;
+    }
+  }
+
+  /**
+   * @returns {{ decisions: number, providers: Object[] }} the stats of every provider seen, with its slug
+   */
+  getStats() {
+    return {
+      decisions: this.decisions,
+      providers: Array.from(this.providers, ([provider, stats]) => ({
+        provider,
+        ...stats,
+        latencyMs: stats.latencyMs === null ? null : Math.round(stats.latencyMs),
+      })),
+    };
+  }
+}
+
+module.exports = Balancer;
@@ -0,0 +1,139 @@
+const { circuitStates } = require('../config/routing');
+
+/**
+ * Stops sending requests to a provider which keeps failing
+ * The circuit opens when the provider fails failureThreshold times within windowSeconds; it then rejects the requests
+ * for cooldownSeconds, after which it is half-open: a single probe request goes through, and closes the circuit if it
+ * succeeds or opens it again if it fails.
+ */
+class CircuitBreaker {
+  /**
+   * @param {Object} options
+   * @param {number} options.failureThreshold - 0 never opens the circuit
+   * @param {number} options.windowSeconds
+   * @param {number} options.cooldownSeconds
+   */
+  constructor({ failureThreshold, windowSeconds, cooldownSeconds }) {
+    this.failureThreshold = failureThreshold;
+    this.windowMs = windowSeconds * 1000;
+    this.cooldownMs = cooldownSeconds * 1000;
+    this.reset();
+  }
+
+  /**
+   * Close the circuit and forget the failures
+   */
+  reset() {
+    this.state = circuitStates.CLOSED;
+    // timestamps of the failures within the window
+    this.failures = [];
+    this.openedAt = null;
+    this.probing = false;
+  }
+
+  /**
+   * Open the circuit, or move it to half-open once its cool-down is over
+   * @returns {string} the current state
+   */
+  currentState() {
+    if (this.state === circuitStates.OPEN && Date.now() - this.openedAt >= this.cooldownMs) {
+      this.state = circuitStates.HALF_OPEN;
+      this.probing = false;
+    }
+    return this.state;
+  }
+
+  /**
+   * Tell whether a request may be sent, without taking the probe of a half-open circuit
+   * @returns {boolean}
+   */
+  isAvailable() {
+    const state = this.currentState();
+    return state === circuitStates.CLOSED || (state === circuitStates.HALF_OPEN && !this.probing);
+  }
+
+  /**
+   * Let a request through if the circuit allows it; the request must then report its outcome
+   * @returns {boolean} false when the request must not be sent
+   */
+  tryAcquire() {
+    if (!this.isAvailable()) {
+      return false;
+    }
+    if (this.state === circuitStates.HALF_OPEN) {
+      this.probing = true;
+    }
+    return true;
+  }
+
+  /**
+   * The provider served the request (or rejected it, which proves it is up)
+   */
+  recordSuccess() {
+    if (this.state !== circuitStates.CLOSED) {
+      this.reset();
+    }
+  }
+
+  /**
+   * The provider failed to serve the request
+   * @returns {boolean} whether this failure opened the circuit
+   */
+  recordFailure() {
+    const now = Date.now();
+    if (this.state === circuitStates.HALF_OPEN) {
+      this.trip(now);
+      return true;
+    }
+    this.failures = this.failures.filter((failedAt) => now - failedAt < this.windowMs).concat(now);
+    if (this.state === circuitStates.CLOSED && this.failureThreshold && this.failures.length >= this.failureThreshold) {
+      this.trip(now);
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * The request was cancelled before the provider answered: release the probe, the outcome is unknown
+   */
+  release() {
+    this.probing = false;
+  }
+
+  /**
+   * Open the circuit
+   * @param {number} now
+   */
+  trip(now) {
+    this.state = circuitStates.OPEN;
+    this.openedAt = now;
+    this.probing = false;
+  }
+
+  /**
+   * Seconds before an open circuit lets a probe request through
+   * @returns {number}
+   */
+  retryAfterSeconds() {
+    return this.state === circuitStates.OPEN
+      ? Math.max(1, Math.ceil((this.openedAt + this.cooldownMs - Date.now()) / 1000))
+      : 0;
+  }
+
+  /**
+   * @returns {{ state: string, failures: number, failureThreshold: number, openedAt: Date|null, retryAt: Date|null }}
+   */
+  getState() {
+    const state = this.currentState();
+    const now = Date.now();
+    return {
+      state,
+      failures: this.failures.filter((failedAt) => now - failedAt < this.windowMs).length,
+      failureThreshold: this.failureThreshold,
+      openedAt: this.openedAt === null ? null : new Date(this.openedAt),
+      retryAt: state === circuitStates.OPEN ? new Date(this.openedAt + this.cooldownMs) : null,
+    };
+  }
+}
+
+module.exports = CircuitBreaker;
@@ -0,0 +1,70 @@
+const Balancer = require('./balancer');
+const CircuitBreaker = require('./circuitBreaker');
+const { retryPolicyOf, isRetryable, backoffDelay, sleep } = require('./retryPolicy');
+const config = require('../config/config');
+
+// balancers by Dyad model id; their stats live as long as the gateway process
+const balancers = new Map();
+// circuit breakers by key (the provider id)
+const circuitBreakers = new Map();
+
+/**
+ * Get the balancer of a model, creating it on first use
+ * @param {string} dyadModelId
+ * @returns {Balancer}
+ */
+const getBalancer = (dyadModelId) => {
+  if (!balancers.has(dyadModelId)) {
+    balancers.set(dyadModelId, new Balancer());
+  }
+  return balancers.get(dyadModelId);
+};
+
+/**
+ * Forget the stats of a model, or of every model
+ * @param {string} [dyadModelId]
+ */
+const resetBalancers = (dyadModelId) => {
+  if (dyadModelId === undefined) {
+    balancers.clear();
+  } else {
+    balancers.delete(dyadModelId);
+  }
+};
+
+/**
+ * Get the circuit breaker of a provider, creating it (closed) on first use
+ * @param {string} key
+ * @returns {CircuitBreaker}
+ */
+const getCircuitBreaker = (key) => {
+  if (!circuitBreakers.has(key)) {
+    circuitBreakers.set(key, new CircuitBreaker(config.gateway.circuitBreaker));
+  }
+  return circuitBreakers.get(key);
+};
+
+/**
+ * Close the circuit of a provider, or of every provider, forgetting its failures
+ * @param {string} [key]
+ */
+const resetCircuitBreakers = (key) => {
+  if (key === undefined) {
+    circuitBreakers.clear();
+  } else {
+    circuitBreakers.delete(key);
+  }
+};
+
+module.exports = {
+  Balancer,
+  CircuitBreaker,
+  getBalancer,
+  resetBalancers,
+  getCircuitBreaker,
+  resetCircuitBreakers,
+  retryPolicyOf,
+  isRetryable,
+  backoffDelay,
+  sleep,
+};
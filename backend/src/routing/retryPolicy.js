@@ -0,0 +1,92 @@
+const { adapterErrorCodes } = require('../config/adapters');
+
+const DEFAULT_RETRY_POLICY = {
+  maxRetries: 0,
+  initialDelayMs: 250,
+  maxDelayMs: 5000,
+  multiplier: 2,
+  jitter: true,
+  retryableExitCodes: [],
+};
+
+// network errors which another attempt may not hit
+const TRANSIENT_NETWORK_ERRORS = ['ECONNRESET', 'ECONNREFUSED', 'EPIPE', 'EAI_AGAIN'];
+// upstream statuses which tell the upstream is overloaded or restarting
+const TRANSIENT_UPSTREAM_STATUSES = [502, 503];
+
+/**
+ * Retry policy of a provider, with the defaults (no retries) for what it does not set
+ * @param {Provider} provider
+ * @returns {Object}
+ */
+const retryPolicyOf = (provider) => {
+  const retryPolicy = provider.retryPolicy || {};
+  return Object.keys(DEFAULT_RETRY_POLICY).reduce(
+    (policy, name) => ({
+      ...policy,
+      [name]: retryPolicy[name] === undefined || retryPolicy[name] === null ? DEFAULT_RETRY_POLICY[name] : retryPolicy[name],
+    }),
+    {}
+  );
+};
+
+/**
+ * Tell whether a request failed with a transient error, which another attempt on the same provider may not hit:
+ * a connection reset or refused, an upstream answering 502 or 503, or a CLI exiting with a code of the policy
+ * @param {Error} error
+ * @param {Object} policy - see retryPolicyOf
+ * @returns {boolean}
+ */
+const isRetryable = (error, policy) => {
+  const details = error.details || {};
+  if (TRANSIENT_NETWORK_ERRORS.includes(error.code) || error.code === adapterErrorCodes.UPSTREAM_UNAVAILABLE) {
+    return true;
+  }
+  if (error.code === adapterErrorCodes.UPSTREAM_ERROR) {
+    return TRANSIENT_UPSTREAM_STATUSES.includes(details.upstreamStatus);
+  }
+  if (error.code === adapterErrorCodes.CLI_EXIT_ERROR) {
+    return policy.retryableExitCodes.includes(details.exitCode);
+  }
+  return false;
+};
+
+/**
+ * Delay before a retry: exponential backoff capped at maxDelayMs, with full jitter
+ * @param {Object} policy - see retryPolicyOf
+ * @param {number} retry - 0 for the first retry
+ * @returns {number} milliseconds
+ */
+const backoffDelay = (policy, retry) => {
+  const delayMs = Math.min(policy.maxDelayMs, policy.initialDelayMs * policy.multiplier ** retry);
+  return Math.round(policy.jitter ? Math.random() * delayMs : delayMs);
+};
+
+/**
+ * Wait before a retry, or less if the request is aborted meanwhile
+ * @param {number} delayMs
+ * @param {AbortSignal} [signal]
+ * @returns {Promise}
+ */
+const sleep = (delayMs, signal) =>
+  new Promise((resolve) => {
+    let timer;
+    const wake = () => {
+      clearTimeout(timer);
+      if (signal) {
+        signal.removeEventListener('abort', wake);
+      }
+      resolve();
+    };
+    timer = setTimeout(wake, delayMs);
+    if (signal) {
+      signal.addEventListener('abort', wake);
+    }
+  });
+
+module.exports = {
+  retryPolicyOf,
+  isRetryable,
+  backoffDelay,
+  sleep,
+};
@@ -0,0 +1,55 @@
+const { routingStrategies } = require('../config/routing');
+
+/**
+ * A strategy picks the provider serving a request among the enabled providers of a model
+ * It is called with the candidates, each with the stats the balancer keeps for its provider, and the number of
+ * decisions the balancer made so far; it returns one of the candidates and keeps no state of its own.
+ * @callback RoutingStrategy
+ * @param {{ provider: Provider, mapping: Object, stats: Object }[]} candidates - at least one
+ * @param {number} decisions
+ * @returns {Object} the chosen candidate
+ */
+
+/**
+ * Smallest candidate by a list of scores, compared in order; ties go to the first candidate
+ * @param {Object[]} candidates
+ * @param {function(Object): number[]} scores
+ * @returns {Object}
+ */
+const minBy = (candidates, scores) =>
+  candidates.reduce((best, candidate) => {
+    const [a, b] = [scores(candidate), scores(best)];
+    const differing = a.findIndex((score, index) => score !== b[index]);
+    return differing !== -1 && a[differing] < b[differing] ? candidate : best;
+  });
+
+const strategies = {
+  [routingStrategies.ROUND_ROBIN]: (candidates, decisions) => candidates[decisions % candidates.length],
+
+  // weight of the model mapping, 1 by default; a weight of 0 only serves when every weight is 0
+  [routingStrategies.WEIGHTED_RANDOM]: (candidates) => {
+    const weights = candidates.map(({ mapping }) => (mapping.weight === undefined ? 1 : mapping.weight));
+    const total = weights.reduce((sum, weight) => sum + weight, 0);
+    let draw = Math.random() * total;
+    const index = weights.findIndex((weight) => {
+      draw -= weight;
+      return draw < 0;
+    });
+    return candidates[index === -1 ? 0 : index];
+  },
+
+  // ties go to the provider chosen the least, so idle providers share the traffic
+  [routingStrategies.LEAST_IN_FLIGHT]: (candidates) => minBy(candidates, ({ stats }) => [stats.inFlight, stats.selected]),
+
+  // a provider never chosen is tried once so it gets measured; only successful requests are measured, so a provider
+  // chosen without a latency yet (failing, or still serving its first request) comes last
+  [routingStrategies.LOWEST_LATENCY]: (candidates) =>
+    minBy(candidates, ({ stats }) => {
+      if (stats.latencyMs !== null) {
+        return [stats.latencyMs];
+      }
+      return [stats.selected === 0 ? -1 : Infinity];
+    }),
+};
+
+module.exports = strategies;
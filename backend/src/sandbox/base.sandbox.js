@@ -0,0 +1,210 @@
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const httpStatus = require('http-status');
+const AdapterError = require('../utils/AdapterError');
+const { adapterErrorCodes } = require('../config/adapters');
+
+// variables a CLI usually needs; nothing else of the gateway environment (secrets, database urls) is passed
+const DEFAULT_ALLOWED_ENV = ['PATH', 'HOME', 'USER', 'LANG', 'LC_ALL', 'TERM', 'TZ', 'TMPDIR'];
+
+// what processes print when a limit stops them
+const MEMORY_FAILURE = /out of memory|cannot allocate memory|allocation failed|MemoryError|bad_alloc|ENOMEM/i;
+const FILE_SIZE_FAILURE = /EFBIG|file too large/i;
+const PROCESS_FAILURE = /resource temporarily unavailable|EAGAIN|cannot fork|fork: retry/i;
+
+// the executables found on the PATH, by name
+const executables = new Map();
+
+/**
+ * Tell whether an executable is on the PATH of the gateway
+ * @param {string} name
+ * @returns {boolean}
+ */
+const isAvailable = (name) => {
+  if (!executables.has(name)) {
+    const found = (process.env.PATH || '').split(path.delimiter).some((dir) => {
+      try {
+        // eslint-disable-next-line security/detect-non-literal-fs-filename
+        fs.accessSync(path.join(dir, name), fs.constants.X_OK);
+        return true;
+      } catch (error) {
+        return false;
+      }
+    });
+    executables.set(name, found);
+  }
+  return executables.get(name);
+};
+
+/**
+ * Runs a CLI with restricted resources and environment
+ * A sandbox wraps the command of every run; once the CLI exited with an error, it tells whether one of its limits was
+ * the cause. Subclasses declare their type (static `type`) and override wrap and violation.
+ */
+class BaseSandbox {
+  /**
+   * @param {Object} [sandboxConfig] - the `sandbox` of a provider's adapterConfig
+   * @param {Object} [sandboxConfig.env]
+   * @param {string[]} [sandboxConfig.env.allow] - names of the gateway environment variables passed to the CLI
+   * @param {Object} [sandboxConfig.env.set] - variables set for the CLI
+   */
+  constructor(sandboxConfig = {}) {
+    this.sandboxConfig = sandboxConfig;
+  }
+
+  /**
+   * Sandbox type (e.g. local)
+   * @returns {string}
+   */
+  static get type() {
+    return undefined;
+  }
+
+  /**
+   * Names of the gateway environment variables passed to the CLI when the config does not list them
+   * @returns {string[]}
+   */
+  static get defaultAllowedEnv() {
+    return DEFAULT_ALLOWED_ENV;
+  }
+
+  /**
+   * Build the environment of the CLI from the allowlisted variables of the gateway
+   * @param {Object} [extraEnv] - variables added on top (e.g. the credentials of the provider)
+   * @returns {Object}
+   */
+  env(extraEnv = {}) {
+    const { allow = this.constructor.defaultAllowedEnv, set = {} } = this.sandboxConfig.env || {};
+    const env = allow.reduce((result, name) => {
+      if (process.env[name] !== undefined) {
+        return { ...result, [name]: process.env[name] };
+      }
+      return result;
+    }, {});
+    return { ...env, ...set, ...extraEnv };
+  }
+
+  /**
+   * Wrap a command so it runs in the sandbox
+   * @param {Object} params
+   * @param {string} params.command
+   * @param {string[]} params.args
+   * @param {string} [params.cwd] - working directory of the CLI
+   * @param {boolean} [params.tty] - the CLI runs under a PTY
+   * @returns {{ command: string, args: string[] }}
+   */
+  // eslint-disable-next-line class-methods-use-this
+  wrap({ command, args }) {
+    return { command, args };
+  }
+
+  /**
+   * User the CLI runs as, who must own its workspace
+   * @returns {{ uid: number, gid: number }|undefined} undefined when the CLI runs as the gateway user
+   */
+  // eslint-disable-next-line class-methods-use-this
+  owner() {
+    return undefined;
+  }
+
+  /**
+   * Tell whether a failed run was stopped by a limit of the sandbox
+   * @param {Object} exit
+   * @param {number} [exit.code]
+   * @param {string} [exit.signal]
+   * @param {string} exit.output - what the CLI printed on stderr (or on the screen under a PTY)
+   * @returns {AdapterError|undefined} the error to report, undefined for a regular failure
+   */
+  // eslint-disable-next-line class-methods-use-this, no-unused-vars
+  violation(exit) {
+    return undefined;
+  }
+
+  /**
+   * Recognize the failures caused by the file size, memory and process limits (the fileSizeMb, memoryMb and
+   * maxProcesses of the subclass) from the signal which killed the CLI or the errors it printed
+   * @param {Object} exit - see violation
+   * @returns {AdapterError|undefined}
+   */
+  limitViolation(exit) {
+    const { output } = exit;
+    if (this.fileSizeMb && (BaseSandbox.signalOf(exit) === 'SIGXFSZ' || FILE_SIZE_FAILURE.test(output))) {
+      return new AdapterError(
+        httpStatus.BAD_GATEWAY,
+        adapterErrorCodes.SANDBOX_FILE_SIZE_LIMIT,
+        `CLI exceeded its file size limit of ${this.fileSizeMb} MB`
+      );
+    }
+    if (MEMORY_FAILURE.test(output)) {
+      return this.memoryError();
+    }
+    if (this.maxProcesses && PROCESS_FAILURE.test(output)) {
+      return new AdapterError(
+        httpStatus.BAD_GATEWAY,
+        adapterErrorCodes.SANDBOX_PROCESS_LIMIT,
+        `CLI exceeded its limit of ${this.maxProcesses} processes`
+      );
+    }
+    return undefined;
+  }
+
+  /**
+   * Build the error of a CLI which ran out of memory
+   * @returns {AdapterError}
+   */
+  memoryError() {
+    return new AdapterError(
+      httpStatus.BAD_GATEWAY,
+      adapterErrorCodes.SANDBOX_MEMORY_LIMIT,
+      `CLI exceeded its memory limit of ${this.memoryMb} MB`
+    );
+  }
+
+  /**
+   * Stop a run whose process is being killed, for the sandboxes whose CLI does not die with it
+   * @param {Object} wrapped - what wrap returned for the run
+   */
+  // eslint-disable-next-line class-methods-use-this, no-unused-vars
+  stop(wrapped) {}
+
+  /**
+   * Throw a sandbox_unavailable error if an executable the sandbox runs is not installed
+   * @param {string[]} tools
+   */
+  requireTools(tools) {
+    const missing = tools.find((tool) => !isAvailable(tool));
+    if (missing) {
+      throw this.unavailableError(`${missing} is not installed`);
+    }
+  }
+
+  /**
+   * Build the error of a sandbox which cannot be set up
+   * @param {string} reason
+   * @returns {AdapterError}
+   */
+  unavailableError(reason) {
+    return new AdapterError(
+      httpStatus.BAD_GATEWAY,
+      adapterErrorCodes.SANDBOX_UNAVAILABLE,
+      `The ${this.constructor.type} sandbox is not available: ${reason}`
+    );
+  }
+
+  /**
+   * Name of the signal which killed a process, also when a wrapper (sh, script) reported it as exit code 128 + n
+   * @param {Object} exit
+   * @param {number} [exit.code]
+   * @param {string} [exit.signal]
+   * @returns {string|undefined}
+   */
+  static signalOf({ code, signal }) {
+    if (signal) {
+      return signal;
+    }
+    return Object.keys(os.constants.signals).find((name) => os.constants.signals[name] === code - 128);
+  }
+}
+
+module.exports = BaseSandbox;
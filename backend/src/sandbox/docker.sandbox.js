@@ -0,0 +1,163 @@
+// eslint-disable-next-line security/detect-child-process
+const childProcess = require('child_process');
+const crypto = require('crypto');
+const httpStatus = require('http-status');
+const BaseSandbox = require('./base.sandbox');
+const AdapterError = require('../utils/AdapterError');
+const { createContainerDriver } = require('./drivers');
+const { adapterErrorCodes } = require('../config/adapters');
+const { sandboxTypes, networkModes, containerEngines, pullPolicies } = require('../config/sandbox');
+
+const DEFAULT_CPUS = 1;
+const DEFAULT_MEMORY_MB = 512;
+const DEFAULT_TMPFS_MB = 64;
+const WORKSPACE_TARGET = '/workspace';
+// exit code of docker run and podman run when the engine failed, not the command
+const ENGINE_FAILURE_EXIT_CODE = 125;
+// exit code of a container killed by the OOM killer (128 + SIGKILL)
+const OOM_KILLED_EXIT_CODE = 137;
+
+/**
+ * Runs the CLI in an ephemeral container, through the driver of a container engine
+ * The container is removed when the CLI exits; the workspace of the request, if any, is bind mounted as its working
+ * directory. The root filesystem is read-only and the network is off unless configured otherwise.
+ */
+class DockerSandbox extends BaseSandbox {
+  /**
+   * @param {Object} sandboxConfig - see BaseSandbox, plus:
+   * @param {string} sandboxConfig.image - image the containers are created from
+   * @param {string} [sandboxConfig.engine] - docker (default) or podman
+   * @param {string} [sandboxConfig.pullPolicy] - always, missing (default) or never
+   * @param {number} [sandboxConfig.cpus] - CPUs the container may use
+   * @param {number} [sandboxConfig.memoryMb] - memory of the container
+   * @param {number} [sandboxConfig.fileSizeMb] - size of the biggest file the CLI may write
+   * @param {number} [sandboxConfig.maxProcesses] - processes the container may have
+   * @param {number} [sandboxConfig.uid] - run the CLI as this user (the image's user by default)
+   * @param {number} [sandboxConfig.gid] - and this group (the group of uid by default)
+   * @param {string} [sandboxConfig.network] - none (default), bridge or host
+   * @param {boolean} [sandboxConfig.readOnly] - read-only root filesystem (default true), with a tmpfs on /tmp
+   * @param {number} [sandboxConfig.tmpfsMb] - size of /tmp
+   */
+  constructor(sandboxConfig) {
+    super(sandboxConfig);
+    if (!sandboxConfig.image) {
+      throw new AdapterError(
+        httpStatus.BAD_GATEWAY,
+        adapterErrorCodes.CLI_NOT_CONFIGURED,
+        'No image configured for the docker sandbox'
+      );
+    }
+    this.image = sandboxConfig.image;
+    this.driver = createContainerDriver(sandboxConfig.engine || containerEngines.DOCKER);
+    this.pullPolicy = sandboxConfig.pullPolicy || pullPolicies.MISSING;
+    this.cpus = sandboxConfig.cpus || DEFAULT_CPUS;
+    this.memoryMb = sandboxConfig.memoryMb || DEFAULT_MEMORY_MB;
+    this.fileSizeMb = sandboxConfig.fileSizeMb;
+    this.maxProcesses = sandboxConfig.maxProcesses;
+    this.uid = sandboxConfig.uid;
+    this.gid = sandboxConfig.gid === undefined ? sandboxConfig.uid : sandboxConfig.gid;
+    this.network = sandboxConfig.network || networkModes.NONE;
+    this.readOnly = sandboxConfig.readOnly !== false;
+    this.tmpfsMb = sandboxConfig.tmpfsMb || DEFAULT_TMPFS_MB;
+  }
+
+  static get type() {
+    return sandboxTypes.DOCKER;
+  }
+
+  // the paths and the locale of the gateway host mean nothing in the image
+  static get defaultAllowedEnv() {
+    return ['LANG', 'LC_ALL', 'TERM', 'TZ'];
+  }
+
+  /**
+   * Environment of the engine CLI: the variables it needs, plus those of the container
+   * @param {Object} [extraEnv] - see BaseSandbox
+   * @returns {Object}
+   */
+  env(extraEnv) {
+    const clientEnv = this.driver.clientEnv.reduce((result, name) => {
+      if (process.env[name] !== undefined) {
+        return { ...result, [name]: process.env[name] };
+      }
+      return result;
+    }, {});
+    return { ...clientEnv, ...this.containerEnv(extraEnv) };
+  }
+
+  /**
+   * Environment of the CLI in the container
+   * @param {Object} [extraEnv]
+   * @returns {Object}
+   */
+  containerEnv(extraEnv) {
+    return super.env(extraEnv);
+  }
+
+  /**
+   * Wrap the command as the run of a new container
+   * @param {Object} params - see BaseSandbox
+   * @returns {{ command: string, args: string[], container: string }}
+   */
+  wrap({ command, args, cwd, tty }) {
+    if (this.driver.executable) {
+      this.requireTools([this.driver.executable]);
+    }
+    const container = `gateway-cli-${crypto.randomBytes(8).toString('hex')}`;
+    const run = this.driver.runCommand({
+      name: container,
+      image: this.image,
+      pullPolicy: this.pullPolicy,
+      command,
+      args,
+      env: Object.keys(this.containerEnv()),
+      cpus: this.cpus,
+      memoryMb: this.memoryMb,
+      pidsLimit: this.maxProcesses,
+      fileSizeBytes: this.fileSizeMb && Math.floor(this.fileSizeMb * 1024 * 1024),
+      network: this.network,
+      readOnly: this.readOnly,
+      tmpfsMb: this.tmpfsMb,
+      user: this.uid === undefined ? undefined : `${this.uid}:${this.gid}`,
+      workspace: cwd ? { source: cwd, target: WORKSPACE_TARGET } : undefined,
+      tty,
+    });
+    return { ...run, container };
+  }
+
+  owner() {
+    return this.uid === undefined ? undefined : { uid: this.uid, gid: this.gid };
+  }
+
+  /**
+   * Remove the container, which outlives a killed engine CLI
+   * @param {{ container: string }} wrapped
+   */
+  stop({ container }) {
+    const remove = this.driver.removeCommand(container);
+    if (!remove) {
+      return;
+    }
+    const child = childProcess.spawn(remove.command, remove.args, { stdio: 'ignore', env: this.env() });
+    child.on('error', () => {});
+  }
+
+  /**
+   * Recognize the failures of the engine and those caused by the limits of the container
+   * The CPU limit only slows the CLI down, so it never fails a run; the timeout of the provider bounds it.
+   * @param {Object} exit - see BaseSandbox
+   * @returns {AdapterError|undefined}
+   */
+  violation(exit) {
+    if (this.driver.executable && exit.code === ENGINE_FAILURE_EXIT_CODE) {
+      const reason = exit.output.trim().split('\n').pop();
+      return this.unavailableError(`${this.driver.constructor.engine} failed to run ${this.image}: ${reason}`);
+    }
+    if (exit.code === OOM_KILLED_EXIT_CODE) {
+      return this.memoryError();
+    }
+    return this.limitViolation(exit);
+  }
+}
+
+module.exports = DockerSandbox;
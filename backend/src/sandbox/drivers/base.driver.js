@@ -0,0 +1,71 @@
+/**
+ * Talks to a container engine through its CLI
+ * A driver turns the spec of a container into the command which runs it attached (stdin, stdout and stderr are those
+ * of the command) and removes it on demand. Subclasses declare their engine (static `engine`) and override
+ * runCommand and removeCommand.
+ */
+class BaseContainerDriver {
+  /**
+   * Container engine (e.g. docker)
+   * @returns {string}
+   */
+  static get engine() {
+    return undefined;
+  }
+
+  /**
+   * Executable of the engine CLI, which must be on the PATH
+   * @returns {string|undefined} undefined when the driver runs no engine
+   */
+  // eslint-disable-next-line class-methods-use-this
+  get executable() {
+    return undefined;
+  }
+
+  /**
+   * Names of the gateway environment variables the engine CLI needs (e.g. to reach its daemon)
+   * @returns {string[]}
+   */
+  // eslint-disable-next-line class-methods-use-this
+  get clientEnv() {
+    return ['PATH', 'HOME'];
+  }
+
+  /**
+   * Build the command running a container
+   * @param {Object} spec
+   * @param {string} spec.name - container name
+   * @param {string} spec.image
+   * @param {string} spec.pullPolicy - always|missing|never
+   * @param {string} spec.command - run in the container
+   * @param {string[]} spec.args
+   * @param {string[]} spec.env - names of the variables of the command environment passed to the container
+   * @param {number} spec.cpus
+   * @param {number} spec.memoryMb
+   * @param {number} [spec.pidsLimit]
+   * @param {number} [spec.fileSizeBytes]
+   * @param {string} spec.network - host|none|bridge
+   * @param {boolean} spec.readOnly - mount the root filesystem read-only, with a tmpfs on /tmp
+   * @param {number} spec.tmpfsMb
+   * @param {string} [spec.user] - uid:gid
+   * @param {{ source: string, target: string }} [spec.workspace] - bind mounted, and the working directory
+   * @param {boolean} [spec.tty]
+   * @returns {{ command: string, args: string[] }}
+   */
+  // eslint-disable-next-line class-methods-use-this, no-unused-vars
+  runCommand(spec) {
+    throw new Error('runCommand is not implemented');
+  }
+
+  /**
+   * Build the command removing a container, running or not
+   * @param {string} name
+   * @returns {{ command: string, args: string[] }|undefined}
+   */
+  // eslint-disable-next-line class-methods-use-this, no-unused-vars
+  removeCommand(name) {
+    return undefined;
+  }
+}
+
+module.exports = BaseContainerDriver;
@@ -0,0 +1,76 @@
+const BaseContainerDriver = require('./base.driver');
+const { containerEngines } = require('../../config/sandbox');
+
+/**
+ * Runs containers with the docker CLI
+ */
+class DockerDriver extends BaseContainerDriver {
+  static get engine() {
+    return containerEngines.DOCKER;
+  }
+
+  // eslint-disable-next-line class-methods-use-this
+  get executable() {
+    return 'docker';
+  }
+
+  get clientEnv() {
+    return super.clientEnv.concat([
+      'DOCKER_HOST',
+      'DOCKER_CONTEXT',
+      'DOCKER_CONFIG',
+      'DOCKER_CERT_PATH',
+      'DOCKER_TLS_VERIFY',
+    ]);
+  }
+
+  /**
+   * Options of `run` shared by the docker compatible engines
+   * @param {Object} spec - see BaseContainerDriver
+   * @returns {string[]}
+   */
+  // eslint-disable-next-line class-methods-use-this
+  runOptions(spec) {
+    const mb = (size) => `${size}m`;
+    return [
+      '--rm',
+      '--interactive',
+      `--name=${spec.name}`,
+      `--pull=${spec.pullPolicy}`,
+      `--cpus=${spec.cpus}`,
+      `--memory=${mb(spec.memoryMb)}`,
+      // no swap on top of the memory limit
+      `--memory-swap=${mb(spec.memoryMb)}`,
+      `--network=${spec.network}`,
+      '--cap-drop=ALL',
+      '--security-opt=no-new-privileges',
+    ].concat(
+      spec.tty ? ['--tty'] : [],
+      spec.pidsLimit ? [`--pids-limit=${spec.pidsLimit}`] : [],
+      spec.fileSizeBytes ? [`--ulimit=fsize=${spec.fileSizeBytes}`] : [],
+      spec.readOnly ? ['--read-only', `--tmpfs=/tmp:rw,size=${mb(spec.tmpfsMb)}`] : [],
+      spec.user ? [`--user=${spec.user}`] : [],
+      spec.workspace
+        ? [
+            `--mount=type=bind,source=${spec.workspace.source},target=${spec.workspace.target}`,
+            `--workdir=${spec.workspace.target}`,
+          ]
+        : [],
+      // values are read from the environment of the engine CLI, so they never show in the process list
+      ...spec.env.map((name) => ['--env', name])
+    );
+  }
+
+  runCommand(spec) {
+    return {
+      command: this.executable,
+      args: ['run', ...this.runOptions(spec), spec.image, spec.command, ...spec.args],
+    };
+  }
+
+  removeCommand(name) {
+    return { command: this.executable, args: ['rm', '--force', name] };
+  }
+}
+
+module.exports = DockerDriver;
@@ -0,0 +1,52 @@
+const httpStatus = require('http-status');
+const AdapterError = require('../../utils/AdapterError');
+const { adapterErrorCodes } = require('../../config/adapters');
+const BaseContainerDriver = require('./base.driver');
+const DockerDriver = require('./docker.driver');
+const PodmanDriver = require('./podman.driver');
+
+const drivers = new Map();
+
+/**
+ * Register the driver class serving a container engine
+ * @param {string} engine
+ * @param {Function} Driver - a subclass of BaseContainerDriver
+ */
+const registerContainerDriver = (engine, Driver) => {
+  if (!(Driver.prototype instanceof BaseContainerDriver)) {
+    throw new Error(`Container driver ${engine} must extend BaseContainerDriver`);
+  }
+  drivers.set(engine, Driver);
+};
+
+/**
+ * Get every registered container engine
+ * @returns {string[]}
+ */
+const getContainerEngines = () => Array.from(drivers.keys());
+
+/**
+ * Create the driver of a container engine
+ * @param {string} engine
+ * @returns {BaseContainerDriver}
+ */
+const createContainerDriver = (engine) => {
+  const Driver = drivers.get(engine);
+  if (!Driver) {
+    throw new AdapterError(
+      httpStatus.BAD_GATEWAY,
+      adapterErrorCodes.CLI_NOT_CONFIGURED,
+      `Unknown container engine: ${engine}`
+    );
+  }
+  return new Driver();
+};
+
+[DockerDriver, PodmanDriver].forEach((Driver) => registerContainerDriver(Driver.engine, Driver));
+
+module.exports = {
+  BaseContainerDriver,
+  registerContainerDriver,
+  getContainerEngines,
+  createContainerDriver,
+};
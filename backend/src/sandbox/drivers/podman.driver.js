@@ -0,0 +1,28 @@
+const DockerDriver = require('./docker.driver');
+const { containerEngines } = require('../../config/sandbox');
+
+/**
+ * Runs containers with the podman CLI, whose options are those of docker
+ */
+class PodmanDriver extends DockerDriver {
+  static get engine() {
+    return containerEngines.PODMAN;
+  }
+
+  // eslint-disable-next-line class-methods-use-this
+  get executable() {
+    return 'podman';
+  }
+
+  // eslint-disable-next-line class-methods-use-this
+  get clientEnv() {
+    return ['PATH', 'HOME', 'XDG_RUNTIME_DIR', 'CONTAINER_HOST', 'CONTAINER_CONNECTION', 'CONTAINERS_CONF'];
+  }
+
+  runOptions(spec) {
+    // rootless podman maps the gateway user to root in the container; keep its uid so the workspace stays writable
+    return super.runOptions(spec).concat(spec.user || process.getuid() === 0 ? [] : ['--userns=keep-id']);
+  }
+}
+
+module.exports = PodmanDriver;
@@ -0,0 +1,67 @@
+const httpStatus = require('http-status');
+const AdapterError = require('../utils/AdapterError');
+const { adapterErrorCodes } = require('../config/adapters');
+const BaseSandbox = require('./base.sandbox');
+const LocalSandbox = require('./local.sandbox');
+const DockerSandbox = require('./docker.sandbox');
+const { sandboxTypes } = require('../config/sandbox');
+
+const sandboxes = new Map();
+
+/**
+ * Register the sandbox class serving a sandbox type
+ * @param {string} type
+ * @param {Function} Sandbox - a subclass of BaseSandbox
+ */
+const registerSandbox = (type, Sandbox) => {
+  if (!(Sandbox.prototype instanceof BaseSandbox)) {
+    throw new Error(`Sandbox ${type} must extend BaseSandbox`);
+  }
+  sandboxes.set(type, Sandbox);
+};
+
+/**
+ * Get every registered sandbox type
+ * @returns {string[]}
+ */
+const getSandboxTypes = () => Array.from(sandboxes.keys());
+
+/**
+ * Sandbox config of a spawn-cli provider
+ * `dockerSandbox: true` with a `sandboxImage` is the short form of a docker sandbox; `sandbox` adds its limits
+ * @param {Object} adapterConfig
+ * @returns {Object|undefined} undefined when the CLI runs unsandboxed
+ */
+const sandboxOptions = ({ sandbox, dockerSandbox, sandboxImage }) => {
+  if (dockerSandbox) {
+    return { image: sandboxImage, ...sandbox, type: sandboxTypes.DOCKER };
+  }
+  return sandbox;
+};
+
+/**
+ * Create the sandbox of a CLI provider
+ * @param {Object} sandboxConfig - the `sandbox` of a provider's adapterConfig; `type` selects the sandbox
+ * @returns {BaseSandbox}
+ */
+const createSandbox = (sandboxConfig) => {
+  const Sandbox = sandboxes.get(sandboxConfig.type);
+  if (!Sandbox) {
+    throw new AdapterError(
+      httpStatus.BAD_GATEWAY,
+      adapterErrorCodes.CLI_NOT_CONFIGURED,
+      `Unknown sandbox: ${sandboxConfig.type}`
+    );
+  }
+  return new Sandbox(sandboxConfig);
+};
+
+[LocalSandbox, DockerSandbox].forEach((Sandbox) => registerSandbox(Sandbox.type, Sandbox));
+
+module.exports = {
+  BaseSandbox,
+  registerSandbox,
+  getSandboxTypes,
+  sandboxOptions,
+  createSandbox,
+};
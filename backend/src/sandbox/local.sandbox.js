@@ -0,0 +1,100 @@
+const httpStatus = require('http-status');
+const BaseSandbox = require('./base.sandbox');
+const AdapterError = require('../utils/AdapterError');
+const { adapterErrorCodes } = require('../config/adapters');
+const { sandboxTypes, networkModes } = require('../config/sandbox');
+
+const DEFAULT_CPU_SECONDS = 300;
+const DEFAULT_MEMORY_MB = 2048;
+const DEFAULT_FILE_SIZE_MB = 100;
+
+// what the tools of util-linux print when they cannot set up the sandbox
+const TOOL_FAILURE = /^(?:prlimit|setpriv|unshare): .*$/m;
+
+/**
+ * Runs the CLI on the gateway host with the tools of util-linux: resource limits (prlimit), another user (setpriv)
+ * and no network (unshare)
+ */
+class LocalSandbox extends BaseSandbox {
+  /**
+   * @param {Object} [sandboxConfig] - see BaseSandbox, plus:
+   * @param {number} [sandboxConfig.cpuSeconds] - CPU time the CLI may use
+   * @param {number} [sandboxConfig.memoryMb] - size of the data segment (heap) of every process
+   * @param {number} [sandboxConfig.fileSizeMb] - size of the biggest file the CLI may write
+   * @param {number} [sandboxConfig.maxProcesses] - processes the user running the CLI may have
+   * @param {number} [sandboxConfig.uid] - run the CLI as this user (the gateway must run as root)
+   * @param {number} [sandboxConfig.gid] - and this group (the group of uid by default)
+   * @param {string} [sandboxConfig.network] - host (default), or none to run the CLI in an empty network namespace
+   */
+  constructor(sandboxConfig = {}) {
+    super(sandboxConfig);
+    this.cpuSeconds = sandboxConfig.cpuSeconds || DEFAULT_CPU_SECONDS;
+    this.memoryMb = sandboxConfig.memoryMb || DEFAULT_MEMORY_MB;
+    this.fileSizeMb = sandboxConfig.fileSizeMb || DEFAULT_FILE_SIZE_MB;
+    this.maxProcesses = sandboxConfig.maxProcesses;
+    this.uid = sandboxConfig.uid;
+    this.gid = sandboxConfig.gid === undefined ? sandboxConfig.uid : sandboxConfig.gid;
+    this.network = sandboxConfig.network || networkModes.HOST;
+  }
+
+  static get type() {
+    return sandboxTypes.LOCAL;
+  }
+
+  /**
+   * Wrap the command as: [unshare --net --] prlimit <limits> -- [setpriv <user> --] command args
+   * @param {Object} params - see BaseSandbox
+   * @returns {{ command: string, args: string[] }}
+   */
+  wrap({ command, args }) {
+    const isolated = this.network === networkModes.NONE;
+    const tools = ['prlimit'].concat(this.uid === undefined ? [] : ['setpriv'], isolated ? ['unshare'] : []);
+    this.requireTools(tools);
+    if (this.uid !== undefined && process.getuid() !== 0) {
+      throw this.unavailableError('running the CLI as another user requires the gateway to run as root');
+    }
+
+    const mb = 1024 * 1024;
+    // the soft CPU limit sends SIGXCPU, the hard one a second later SIGKILL
+    const limits = [
+      `--cpu=${this.cpuSeconds}:${this.cpuSeconds + 1}`,
+      `--data=${this.memoryMb * mb}`,
+      `--fsize=${this.fileSizeMb * mb}`,
+    ].concat(this.maxProcesses ? [`--nproc=${this.maxProcesses}`] : []);
+    const user =
+      this.uid === undefined ? [] : ['setpriv', `--reuid=${this.uid}`, `--regid=${this.gid}`, '--clear-groups', '--'];
+    // only root can create a network namespace without a user namespace
+    const namespace = isolated
+      ? ['unshare', '--net'].concat(process.getuid() === 0 ? [] : ['--map-current-user'], ['--'])
+      : [];
+
+    const [wrapper, ...wrapperArgs] = [...namespace, 'prlimit', ...limits, '--', ...user, command, ...args];
+    return { command: wrapper, args: wrapperArgs };
+  }
+
+  owner() {
+    return this.uid === undefined ? undefined : { uid: this.uid, gid: this.gid };
+  }
+
+  /**
+   * Recognize the failures caused by the limits, from the signal which killed the CLI or the errors it printed
+   * @param {Object} exit - see BaseSandbox
+   * @returns {AdapterError|undefined}
+   */
+  violation(exit) {
+    const toolFailure = exit.output.match(TOOL_FAILURE);
+    if (toolFailure) {
+      return this.unavailableError(toolFailure[0]);
+    }
+    if (BaseSandbox.signalOf(exit) === 'SIGXCPU') {
+      return new AdapterError(
+        httpStatus.BAD_GATEWAY,
+        adapterErrorCodes.SANDBOX_CPU_LIMIT,
+        `CLI exceeded its CPU time limit of ${this.cpuSeconds} seconds`
+      );
+    }
+    return this.limitViolation(exit);
+  }
+}
+
+module.exports = LocalSandbox;
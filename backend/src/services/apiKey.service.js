@@ -0,0 +1,128 @@
+const crypto = require('crypto');
+const httpStatus = require('http-status');
+const { ApiKey } = require('../models');
+const ApiError = require('../utils/ApiError');
+const { API_KEY_PREFIX } = require('../config/apiKeys');
+
+// number of characters of the raw key kept in clear to recognize it
+const DISPLAYED_PREFIX_LENGTH = API_KEY_PREFIX.length + 6;
+
+/**
+ * Generate a raw API key
+ * @returns {string}
+ */
+const generateKey = () => `${API_KEY_PREFIX}${crypto.randomBytes(24).toString('base64').replace(/[+/=]/g, '')}`;
+
+/**
+ * Check if a bearer token is an API key (rather than a JWT)
+ * @param {string} token
+ * @returns {boolean}
+ */
+const isApiKey = (token) => typeof token === 'string' && token.startsWith(API_KEY_PREFIX);
+
+/**
+ * Create an API key
+ * @param {Object} apiKeyBody
+ * @returns {Promise<{ apiKey: ApiKey, key: string }>} the key document and the raw key, which is not stored
+ */
+const createApiKey = async (apiKeyBody) => {
+  const key = generateKey();
+  const apiKey = await ApiKey.create({
+    ...apiKeyBody,
+    prefix: key.slice(0, DISPLAYED_PREFIX_LENGTH),
+    hashedKey: ApiKey.hashKey(key),
+  });
+  return { apiKey, key };
+};
+
+/**
+ * Query for API keys
+ * @param {Object} filter - Mongo filter
+ * @param {Object} options - Query options
+ * @param {string} [options.sortBy] - Sort option in the format: sortField:(desc|asc)
+ * @param {number} [options.limit] - Maximum number of results per page (default = 10)
+ * @param {number} [options.page] - Current page (default = 1)
+ * @returns {Promise<QueryResult>}
+ */
+const queryApiKeys = async (filter, options) => {
+  const apiKeys = await ApiKey.paginate(filter, options);
+  return apiKeys;
+};
+
+/**
+ * Get API key by id
+ * @param {ObjectId} id
+ * @returns {Promise<ApiKey>}
+ */
+const getApiKeyById = async (id) => {
+  return ApiKey.findById(id);
+};
+
+/**
+ * Revoke API key by id
+ * @param {ObjectId} apiKeyId
+ * @returns {Promise<ApiKey>}
+ */
+const revokeApiKeyById = async (apiKeyId) => {
+  const apiKey = await getApiKeyById(apiKeyId);
+  if (!apiKey) {
+    throw new ApiError(httpStatus.NOT_FOUND, 'API key not found');
+  }
+  apiKey.revoked = true;
+  await apiKey.save();
+  return apiKey;
+};
+
+/**
+ * Replace the secret of an API key, invalidating the previous one
+ * @param {ObjectId} apiKeyId
+ * @returns {Promise<{ apiKey: ApiKey, key: string }>}
+ */
+const rotateApiKeyById = async (apiKeyId) => {
+  const apiKey = await getApiKeyById(apiKeyId);
+  if (!apiKey) {
+    throw new ApiError(httpStatus.NOT_FOUND, 'API key not found');
+  }
+  if (apiKey.revoked) {
+    throw new ApiError(httpStatus.BAD_REQUEST, 'API key is revoked');
+  }
+  const key = generateKey();
+  Object.assign(apiKey, { prefix: key.slice(0, DISPLAYED_PREFIX_LENGTH), hashedKey: ApiKey.hashKey(key) });
+  await apiKey.save();
+  return { apiKey, key };
+};
+
+/**
+ * Verify a raw API key and return its document (or throw an error if it cannot be used)
+ * @param {string} key
+ * @param {string[]} [requiredScopes]
+ * @returns {Promise<ApiKey>}
+ */
+const verifyApiKey = async (key, requiredScopes = []) => {
+  const apiKey = await ApiKey.findOne({ hashedKey: ApiKey.hashKey(key) });
+  if (!apiKey || apiKey.revoked) {
+    throw new ApiError(httpStatus.UNAUTHORIZED, 'Invalid API key', true, '', { code: 'invalid_api_key' });
+  }
+  if (apiKey.isExpired()) {
+    throw new ApiError(httpStatus.UNAUTHORIZED, 'API key expired', true, '', { code: 'expired_api_key' });
+  }
+  const missingScope = requiredScopes.find((scope) => !apiKey.scopes.includes(scope));
+  if (missingScope) {
+    throw new ApiError(httpStatus.FORBIDDEN, `API key is missing the ${missingScope} scope`, true, '', {
+      code: 'insufficient_scope',
+    });
+  }
+  apiKey.lastUsedAt = new Date();
+  await ApiKey.updateOne({ _id: apiKey._id }, { lastUsedAt: apiKey.lastUsedAt });
+  return apiKey;
+};
+
+module.exports = {
+  isApiKey,
+  createApiKey,
+  queryApiKeys,
+  getApiKeyById,
+  revokeApiKeyById,
+  rotateApiKeyById,
+  verifyApiKey,
+};
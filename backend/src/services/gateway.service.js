@@ -0,0 +1,478 @@
+const crypto = require('crypto');
+const httpStatus = require('http-status');
+const { Provider, ModelRoute } = require('../models');
+const { createAdapter } = require('../adapters');
+const ApiError = require('../utils/ApiError');
+const logger = require('../config/logger');
+const { getBalancer, getCircuitBreaker, retryPolicyOf, isRetryable, backoffDelay, sleep } = require('../routing');
+
+/**
+ * Rough token estimate used when an adapter does not report usage (~4 characters per token)
+ * @param {string} text
+ * @returns {number}
+ */
+const estimateTokens = (text) => Math.ceil((text || '').length / 4);
+
+/**
+ * Estimate the usage of a completion whose adapter did not report it
+ * @param {Object[]} messages
+ * @param {string} content - completion content
+ * @returns {Object} OpenAI usage object
+ */
+const estimateUsage = (messages, content) => {
+  const promptTokens = estimateTokens(messages.map((message) => JSON.stringify(message.content)).join(''));
+  const completionTokens = estimateTokens(content);
+  return {
+    prompt_tokens: promptTokens,
+    completion_tokens: completionTokens,
+    total_tokens: promptTokens + completionTokens,
+  };
+};
+
+/**
+ * Generate an OpenAI-style completion id
+ * @returns {string}
+ */
+const generateCompletionId = () => `chatcmpl-${crypto.randomBytes(12).toString('hex')}`;
+
+/**
+ * Resolve the provider and model mapping serving a Dyad model id
+ * @param {string} modelId
+ * @returns {Promise<{ provider: Provider, mapping: Object }>}
+ */
+const resolveModel = async (modelId) => {
+  const provider = await Provider.findByDyadModelId(modelId);
+  if (!provider) {
+    throw new ApiError(httpStatus.NOT_FOUND, `The model '${modelId}' does not exist`, true, '', {
+      param: 'model',
+      code: 'model_not_found',
+    });
+  }
+  return { provider, mapping: provider.getModelMapping(modelId) };
+};
+
+/**
+ * Pick the provider heading the fallback chain of a Dyad model id: among the enabled providers serving it, the one
+ * chosen by the routing strategy of the model, leaving out the providers whose circuit is open unless all of them are;
+ * else a disabled provider, whose fallbacks still apply
+ * @param {string} modelId
+ * @returns {Promise<Provider>}
+ */
+const pickChainHead = async (modelId) => {
+  const providers = await Provider.findAllByDyadModelId(modelId);
+  if (!providers.length) {
+    return Provider.findChainHead(modelId);
+  }
+  const available = providers.filter((provider) => getCircuitBreaker(provider.id).isAvailable());
+  const route = providers.length > 1 ? await ModelRoute.findOne({ dyadModelId: modelId }) : null;
+  const candidates = (available.length ? available : providers).map((provider) => ({
+    provider,
+    mapping: provider.getModelMapping(modelId),
+  }));
+  return getBalancer(modelId).pick(candidates, route ? route.strategy : undefined).provider;
+};
+
+/**
+ * Resolve the providers which may serve a Dyad model id, in the order they are tried: the provider picked to serve it,
+ * then the fallbacks of its model mapping; disabled providers are left out
+ * @param {string} modelId
+ * @returns {Promise<{ provider: Provider, mapping: Object }[]>}
+ */
+const resolveTargets = async (modelId) => {
+  const head = await pickChainHead(modelId);
+  const fallbacks = (head && head.getModelMapping(modelId).fallbacks) || [];
+  const providers = fallbacks.length
+    ? await Provider.find({ enabled: true, slug: { $in: fallbacks.map((fallback) => fallback.provider) } })
+    : [];
+  const targets = fallbacks
+    .map((fallback) => {
+      const provider = providers.find((candidate) => candidate.slug === fallback.provider);
+      return { provider, mapping: provider && provider.getModelMapping(fallback.model || modelId) };
+    })
+    .filter((target) => target.mapping);
+  if (head && head.enabled) {
+    targets.unshift({ provider: head, mapping: head.getModelMapping(modelId) });
+  }
+  if (!targets.length) {
+    throw new ApiError(httpStatus.NOT_FOUND, `The model '${modelId}' does not exist`, true, '', {
+      param: 'model',
+      code: 'model_not_found',
+    });
+  }
+  return targets;
+};
+
+/**
+ * Tell whether the next provider of a fallback chain may succeed where a provider failed: it timed out or failed with
+ * a 5xx error, as opposed to rejecting the request itself
+ * @param {Error} error
+ * @returns {boolean}
+ */
+const isProviderFailure = (error) => (error.statusCode || httpStatus.INTERNAL_SERVER_ERROR) >= 500;
+
+/**
+ * Error of a request no provider could be tried for, their circuits being open
+ * @param {Provider} provider - the last provider of the chain
+ * @param {CircuitBreaker} circuitBreaker - its circuit
+ * @returns {ApiError}
+ */
+const circuitOpenError = (provider, circuitBreaker) =>
+  new ApiError(
+    httpStatus.SERVICE_UNAVAILABLE,
+    `The provider '${
+      provider.slug
+    }' is failing and receives no requests for now, retry in ${circuitBreaker.retryAfterSeconds()} seconds`,
+    true,
+    '',
+    { code: 'provider_unavailable' }
+  );
+
+/**
+ * Run a request on a provider through its circuit breaker, which counts the provider failures
+ * @param {Object} target
+ * @param {AbortSignal} [signal]
+ * @param {function(): Promise} task
+ * @returns {Promise} what the task resolves with
+ */
+const throughCircuit = async ({ provider }, signal, task) => {
+  const circuitBreaker = getCircuitBreaker(provider.id);
+  try {
+    const result = await task();
+    circuitBreaker.recordSuccess();
+    return result;
+  } catch (error) {
+    if (signal && signal.aborted) {
+      circuitBreaker.release();
+    } else if (!isProviderFailure(error)) {
+      circuitBreaker.recordSuccess();
+    } else if (circuitBreaker.recordFailure()) {
+      logger.warn(`Provider ${provider.slug} keeps failing (${error.message}), its circuit is open`);
+    }
+    throw error;
+  }
+};
+
+/**
+ * Run a request on a provider, retrying it with exponential backoff while it fails with a transient error, as allowed
+ * by the retry policy of the provider and its circuit breaker
+ * @param {Object} target
+ * @param {Object} params - see withFallbacks
+ * @param {function(): Promise} task - an attempt, counted by the circuit breaker
+ * @param {number} [retry] - retries done so far
+ * @returns {Promise} what the first successful attempt resolves with
+ */
+const withRetries = async ({ provider }, { signal, canRetry }, task, retry = 0) => {
+  try {
+    return await task();
+  } catch (error) {
+    const policy = retryPolicyOf(provider);
+    if (retry >= policy.maxRetries || !isRetryable(error, policy) || (signal && signal.aborted) || !canRetry()) {
+      throw error;
+    }
+    const delayMs = backoffDelay(policy, retry);
+    logger.warn(
+      `Provider ${provider.slug} failed (${error.message}), retrying in ${delayMs} ms (${retry + 1}/${policy.maxRetries})`
+    );
+    await sleep(delayMs, signal);
+    if ((signal && signal.aborted) || !getCircuitBreaker(provider.id).tryAcquire()) {
+      throw error;
+    }
+    return withRetries({ provider }, { signal, canRetry }, task, retry + 1);
+  }
+};
+
+/**
+ * Run a request against the providers of a model in turn, until one serves it
+ * Each provider is retried according to its retry policy before the next one is tried; providers whose circuit is
+ * open are skipped.
+ * @param {string} modelId
+ * @param {Object} params
+ * @param {AbortSignal} [params.signal] - an aborted request is not retried
+ * @param {function(): boolean} [params.canRetry] - false once the failed attempt sent part of the response
+ * @param {function({ provider: Provider, mapping: Object }): Promise} attempt
+ * @returns {Promise} what the first successful attempt resolves with
+ */
+const withFallbacks = async (modelId, { signal, canRetry = () => true }, attempt) => {
+  const targets = await resolveTargets(modelId);
+  const tryTarget = async (index) => {
+    const target = targets[index];
+    const circuitBreaker = getCircuitBreaker(target.provider.id);
+    if (!circuitBreaker.tryAcquire()) {
+      if (!targets[index + 1]) {
+        throw circuitOpenError(target.provider, circuitBreaker);
+      }
+      return tryTarget(index + 1);
+    }
+    try {
+      return await withRetries(target, { signal, canRetry }, () =>
+        throughCircuit(target, signal, () => getBalancer(modelId).track(target.provider.slug, () => attempt(target)))
+      );
+    } catch (error) {
+      const next = targets[index + 1];
+      if (!next || !isProviderFailure(error) || (signal && signal.aborted) || !canRetry()) {
+        throw error;
+      }
+      logger.warn(
+        `Provider ${targets[index].provider.slug} failed to serve ${modelId} (${error.message}), falling back to ${next.provider.slug}`
+      );
+      return tryTarget(index + 1);
+    }
+  };
+  return tryTarget(0);
+};
+
+/**
+ * Reject the OpenAI parameters that the adapter serving the model cannot honour
+ * @param {Object} capabilities - capabilities declared by the adapter
+ * @param {Object} chatBody - OpenAI chat completion request
+ */
+const assertSupportedParameters = (capabilities, chatBody) => {
+  const { model, messages, tools, tool_choice: toolChoice, response_format: responseFormat } = chatBody;
+  if ((tools || toolChoice) && !capabilities.tools) {
+    throw new ApiError(httpStatus.BAD_REQUEST, `The model '${model}' does not support tools`, true, '', {
+      param: tools ? 'tools' : 'tool_choice',
+      code: 'unsupported_parameter',
+    });
+  }
+  if (responseFormat && responseFormat.type !== 'text' && !capabilities.json_mode) {
+    throw new ApiError(
+      httpStatus.BAD_REQUEST,
+      `The model '${model}' does not support response_format ${responseFormat.type}`,
+      true,
+      '',
+      { param: 'response_format', code: 'unsupported_parameter' }
+    );
+  }
+  const hasImages = messages.some(
+    (message) => Array.isArray(message.content) && message.content.some((part) => part.type === 'image_url')
+  );
+  if (hasImages && !capabilities.vision) {
+    throw new ApiError(httpStatus.BAD_REQUEST, `The model '${model}' does not support image inputs`, true, '', {
+      param: 'messages',
+      code: 'unsupported_parameter',
+    });
+  }
+};
+
+/**
+ * Prepare the adapter of a provider to answer a chat request
+ * @param {Object} chatBody - OpenAI chat completion request
+ * @param {{ provider: Provider, mapping: Object }} target
+ * @returns {Promise<{ adapter: BaseAdapter, chatParams: Object }>}
+ */
+const prepareChat = async (chatBody, { provider, mapping }) => {
+  const { model, messages, stream, ...options } = chatBody;
+  const adapter = await createAdapter(provider);
+  assertSupportedParameters(adapter.constructor.capabilities, chatBody);
+  return { adapter, chatParams: { messages, model: mapping.adapterModelId, options } };
+};
+
+/**
+ * Create a chat completion, falling back to the next provider of the model if one fails
+ * @param {Object} chatBody - OpenAI chat completion request
+ * @param {Object} [params]
+ * @param {AbortSignal} [params.signal] - aborts the upstream adapter call
+ * @param {function(Provider)} [params.onProvider] - called with the provider which served the completion
+ * @returns {Promise<Object>} OpenAI chat.completion object
+ */
+const createChatCompletion = async (chatBody, { signal, onProvider } = {}) => {
+  const { model, messages } = chatBody;
+  const { provider, adapter, result } = await withFallbacks(model, { signal }, async (target) => {
+    const { adapter: targetAdapter, chatParams } = await prepareChat(chatBody, target);
+    return {
+      provider: target.provider,
+      adapter: targetAdapter,
+      result: await targetAdapter.handleChat({ ...chatParams, signal }),
+    };
+  });
+  if (onProvider) {
+    onProvider(provider);
+  }
+
+  if (adapter.constructor.capabilities.passthrough) {
+    // the upstream answered in OpenAI format: forward its completion under the model id the client asked for
+    return { ...result.completion, model };
+  }
+
+  const completion = {
+    id: generateCompletionId(),
+    object: 'chat.completion',
+    created: Math.floor(Date.now() / 1000),
+    model,
+    choices: [
+      {
+        index: 0,
+        message: { role: 'assistant', content: result.content },
+        finish_reason: result.finishReason || 'stop',
+      },
+    ],
+    usage: result.usage || estimateUsage(messages, result.content),
+  };
+  if (result.files) {
+    completion.workspace_files = result.files;
+  }
+  return completion;
+};
+
+/**
+ * Stream a chat completion as OpenAI chat.completion.chunk objects
+ * A failed provider is replaced by the next one of the model only until the first chunk was sent.
+ * @param {Object} chatBody - OpenAI chat completion request
+ * @param {Object} params
+ * @param {function(Object)} params.onChunk - called with every chat.completion.chunk object
+ * @param {AbortSignal} [params.signal] - aborts the upstream adapter call
+ * @param {function(Provider)} [params.onProvider] - called with the provider serving the stream, before its first chunk
+ * @returns {Promise<Object>} usage of the completion
+ */
+const streamChatCompletion = async (chatBody, { onChunk, signal, onProvider }) => {
+  const { model, messages } = chatBody;
+  const id = generateCompletionId();
+  const created = Math.floor(Date.now() / 1000);
+  const buildChunk = (delta, finishReason = null) => ({
+    id,
+    object: 'chat.completion.chunk',
+    created,
+    model,
+    choices: [{ index: 0, delta, finish_reason: finishReason }],
+  });
+  let started = false;
+
+  return withFallbacks(model, { signal, canRetry: () => !started }, async (target) => {
+    const { adapter, chatParams } = await prepareChat(chatBody, target);
+    let streamedContent = '';
+    const send = (chunk) => {
+      if (!started) {
+        started = true;
+        if (onProvider) {
+          onProvider(target.provider);
+        }
+      }
+      onChunk(chunk);
+    };
+
+    if (adapter.constructor.capabilities.passthrough) {
+      const result = await adapter.handleChatStream({
+        ...chatParams,
+        signal,
+        onChunk: (chunk) => {
+          const [choice] = chunk.choices || [];
+          if (choice && choice.delta && choice.delta.content) {
+            streamedContent += choice.delta.content;
+          }
+          send({ ...chunk, model });
+        },
+      });
+      return result.usage || estimateUsage(messages, streamedContent);
+    }
+
+    // the role chunk waits for the first content, so a provider failing before it can still be replaced
+    const sendDelta = (chunk) => {
+      if (!started) {
+        send(buildChunk({ role: 'assistant' }));
+      }
+      send(chunk);
+    };
+    const result = await adapter.handleChatStream({
+      ...chatParams,
+      signal,
+      onChunk: (content) => {
+        streamedContent += content;
+        sendDelta(buildChunk({ content }));
+      },
+    });
+
+    const lastChunk = buildChunk({}, result.finishReason || 'stop');
+    if (result.files) {
+      lastChunk.workspace_files = result.files;
+    }
+    sendDelta(lastChunk);
+    return result.usage || estimateUsage(messages, streamedContent);
+  });
+};
+
+/**
+ * Create embeddings, falling back to the next provider of the model if one fails
+ * @param {Object} embeddingBody - OpenAI embeddings request
+ * @param {Object} [params]
+ * @param {AbortSignal} [params.signal] - aborts the upstream adapter call
+ * @param {function(Provider)} [params.onProvider] - called with the provider which served the embeddings
+ * @returns {Promise<Object>} OpenAI list of embedding objects
+ */
+const createEmbeddings = async (embeddingBody, { signal, onProvider } = {}) => {
+  const { model, input } = embeddingBody;
+  const result = await withFallbacks(model, { signal }, async ({ provider, mapping }) => {
+    const adapter = await createAdapter(provider);
+    if (!adapter.constructor.capabilities.embeddings) {
+      throw new ApiError(httpStatus.BAD_REQUEST, `The model '${model}' does not support embeddings`, true, '', {
+        param: 'model',
+        code: 'unsupported_model',
+      });
+    }
+    const embeddings = await adapter.handleEmbeddings({ input, model: mapping.adapterModelId, signal });
+    if (onProvider) {
+      onProvider(provider);
+    }
+    return embeddings;
+  });
+
+  const promptTokens = estimateTokens([].concat(input).join(''));
+  return {
+    object: 'list',
+    data: result.data.map((embedding, index) => ({ object: 'embedding', index, embedding })),
+    model,
+    usage: result.usage || { prompt_tokens: promptTokens, total_tokens: promptTokens },
+  };
+};
+
+/**
+ * Build an OpenAI model object from a provider model mapping
+ * @param {Provider} provider
+ * @param {Object} mapping
+ * @returns {Object}
+ */
+const toOpenAIModel = (provider, mapping) => ({
+  id: mapping.dyadModelId,
+  object: 'model',
+  created: Math.floor(provider.createdAt.getTime() / 1000),
+  owned_by: provider.slug,
+  context_window: mapping.contextWindow || null,
+  max_tokens: mapping.maxTokens || null,
+});
+
+/**
+ * List the models served by all enabled providers
+ * @returns {Promise<Object>} OpenAI list of model objects
+ */
+const listModels = async () => {
+  const providers = await Provider.find({ enabled: true }).sort('createdAt');
+  const models = new Map();
+  providers.forEach((provider) => {
+    provider.models.forEach((mapping) => {
+      // when several providers serve the same model, the oldest one is listed
+      if (!models.has(mapping.dyadModelId)) {
+        models.set(mapping.dyadModelId, toOpenAIModel(provider, mapping));
+      }
+    });
+  });
+  return { object: 'list', data: Array.from(models.values()) };
+};
+
+/**
+ * Get a model served by an enabled provider
+ * @param {string} modelId
+ * @returns {Promise<Object>} OpenAI model object
+ */
+const getModel = async (modelId) => {
+  const { provider, mapping } = await resolveModel(modelId);
+  return toOpenAIModel(provider, mapping);
+};
+
+module.exports = {
+  resolveModel,
+  resolveTargets,
+  listModels,
+  getModel,
+  createChatCompletion,
+  streamChatCompletion,
+  createEmbeddings,
+};
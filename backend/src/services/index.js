@@ -1,4 +1,9 @@
+module.exports.apiKeyService = require('./apiKey.service');
 module.exports.authService = require('./auth.service');
 module.exports.emailService = require('./email.service');
+module.exports.gatewayService = require('./gateway.service');
+module.exports.modelRouteService = require('./modelRoute.service');
+module.exports.providerHealthService = require('./providerHealth.service');
+module.exports.providerService = require('./provider.service');
 module.exports.tokenService = require('./token.service');
 module.exports.userService = require('./user.service');
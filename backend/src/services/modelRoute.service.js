@@ -0,0 +1,100 @@
+const httpStatus = require('http-status');
+const { ModelRoute } = require('../models');
+const ApiError = require('../utils/ApiError');
+const { getBalancer, resetBalancers } = require('../routing');
+
+/**
+ * Create a model route
+ * @param {Object} modelRouteBody
+ * @returns {Promise<ModelRoute>}
+ */
+const createModelRoute = async (modelRouteBody) => {
+  if (await ModelRoute.isModelTaken(modelRouteBody.dyadModelId)) {
+    throw new ApiError(httpStatus.BAD_REQUEST, 'Model already routed');
+  }
+  return ModelRoute.create(modelRouteBody);
+};
+
+/**
+ * Query for model routes
+ * @param {Object} filter - Mongo filter
+ * @param {Object} options - Query options
+ * @param {string} [options.sortBy] - Sort option in the format: sortField:(desc|asc)
+ * @param {number} [options.limit] - Maximum number of results per page (default = 10)
+ * @param {number} [options.page] - Current page (default = 1)
+ * @returns {Promise<QueryResult>}
+ */
+const queryModelRoutes = async (filter, options) => {
+  const modelRoutes = await ModelRoute.paginate(filter, options);
+  return modelRoutes;
+};
+
+/**
+ * Get model route by id
+ * @param {ObjectId} id
+ * @returns {Promise<ModelRoute>}
+ */
+const getModelRouteById = async (id) => {
+  return ModelRoute.findById(id);
+};
+
+/**
+ * Update model route by id
+ * @param {ObjectId} modelRouteId
+ * @param {Object} updateBody
+ * @returns {Promise<ModelRoute>}
+ */
+const updateModelRouteById = async (modelRouteId, updateBody) => {
+  const modelRoute = await getModelRouteById(modelRouteId);
+  if (!modelRoute) {
+    throw new ApiError(httpStatus.NOT_FOUND, 'Model route not found');
+  }
+  if (updateBody.dyadModelId && (await ModelRoute.isModelTaken(updateBody.dyadModelId, modelRouteId))) {
+    throw new ApiError(httpStatus.BAD_REQUEST, 'Model already routed');
+  }
+  const { dyadModelId, strategy } = modelRoute;
+  Object.assign(modelRoute, updateBody);
+  await modelRoute.save();
+  if (modelRoute.dyadModelId !== dyadModelId || modelRoute.strategy !== strategy) {
+    // the stats describe the decisions of the previous strategy
+    resetBalancers(dyadModelId);
+  }
+  return modelRoute;
+};
+
+/**
+ * Delete model route by id
+ * @param {ObjectId} modelRouteId
+ * @returns {Promise<ModelRoute>}
+ */
+const deleteModelRouteById = async (modelRouteId) => {
+  const modelRoute = await getModelRouteById(modelRouteId);
+  if (!modelRoute) {
+    throw new ApiError(httpStatus.NOT_FOUND, 'Model route not found');
+  }
+  await modelRoute.remove();
+  resetBalancers(modelRoute.dyadModelId);
+  return modelRoute;
+};
+
+/**
+ * Get the routing decisions taken for the model of a route since the gateway started, by provider
+ * @param {ObjectId} modelRouteId
+ * @returns {Promise<Object>}
+ */
+const getModelRouteStats = async (modelRouteId) => {
+  const modelRoute = await getModelRouteById(modelRouteId);
+  if (!modelRoute) {
+    throw new ApiError(httpStatus.NOT_FOUND, 'Model route not found');
+  }
+  return { model: modelRoute.dyadModelId, strategy: modelRoute.strategy, ...getBalancer(modelRoute.dyadModelId).getStats() };
+};
+
+module.exports = {
+  createModelRoute,
+  queryModelRoutes,
+  getModelRouteById,
+  updateModelRouteById,
+  deleteModelRouteById,
+  getModelRouteStats,
+};
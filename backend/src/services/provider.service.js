@@ -0,0 +1,218 @@
+const httpStatus = require('http-status');
+const { Provider } = require('../models');
+const { createAdapter } = require('../adapters');
+const { poolOptions, getProcessPool, closeProcessPool } = require('../pools');
+const { getCircuitBreaker, resetCircuitBreakers } = require('../routing');
+const ApiError = require('../utils/ApiError');
+const renderPrompt = require('../utils/renderPrompt');
+const { providerTypes, requiredAdapterKeys } = require('../config/providers');
+
+/**
+ * Create a provider
+ * @param {Object} providerBody
+ * @returns {Promise<Provider>}
+ */
+const createProvider = async (providerBody) => {
+  if (await Provider.isSlugTaken(providerBody.slug)) {
+    throw new ApiError(httpStatus.BAD_REQUEST, 'Slug already taken');
+  }
+  return Provider.create(providerBody);
+};
+
+/**
+ * Query for providers
+ * @param {Object} filter - Mongo filter
+ * @param {Object} options - Query options
+ * @param {string} [options.sortBy] - Sort option in the format: sortField:(desc|asc)
+ * @param {number} [options.limit] - Maximum number of results per page (default = 10)
+ * @param {number} [options.page] - Current page (default = 1)
+ * @returns {Promise<QueryResult>}
+ */
+const queryProviders = async (filter, options) => {
+  const providers = await Provider.paginate(filter, options);
+  return providers;
+};
+
+/**
+ * Get provider by id
+ * @param {ObjectId} id
+ * @returns {Promise<Provider>}
+ */
+const getProviderById = async (id) => {
+  return Provider.findById(id);
+};
+
+/**
+ * Update provider by id
+ * @param {ObjectId} providerId
+ * @param {Object} updateBody
+ * @returns {Promise<Provider>}
+ */
+const updateProviderById = async (providerId, updateBody) => {
+  const provider = await getProviderById(providerId);
+  if (!provider) {
+    throw new ApiError(httpStatus.NOT_FOUND, 'Provider not found');
+  }
+  if (updateBody.slug && (await Provider.isSlugTaken(updateBody.slug, providerId))) {
+    throw new ApiError(httpStatus.BAD_REQUEST, 'Slug already taken');
+  }
+  const type = updateBody.type || provider.type;
+  const adapterConfig = updateBody.adapterConfig || provider.adapterConfig || {};
+  const missingKey = (requiredAdapterKeys[type] || []).find((key) => adapterConfig[key] === undefined);
+  if (missingKey) {
+    throw new ApiError(httpStatus.BAD_REQUEST, `The adapter config of a ${type} provider requires ${missingKey}`);
+  }
+  Object.assign(provider, updateBody);
+  await provider.save();
+  if (updateBody.adapterConfig || updateBody.type) {
+    // the processes of the pool run the previous config, whose failures say nothing of the new one
+    closeProcessPool(provider.id);
+    resetCircuitBreakers(provider.id);
+  }
+  return provider;
+};
+
+/**
+ * Delete provider by id
+ * @param {ObjectId} providerId
+ * @returns {Promise<Provider>}
+ */
+const deleteProviderById = async (providerId) => {
+  const provider = await getProviderById(providerId);
+  if (!provider) {
+    throw new ApiError(httpStatus.NOT_FOUND, 'Provider not found');
+  }
+  await provider.remove();
+  closeProcessPool(provider.id);
+  resetCircuitBreakers(provider.id);
+  return provider;
+};
+
+/**
+ * List the models exposed by the upstream of a provider, flagging the ones already mapped
+ * @param {ObjectId} providerId
+ * @returns {Promise<Object[]>} [{ id, imported }]
+ */
+const discoverProviderModels = async (providerId) => {
+  const provider = await getProviderById(providerId);
+  if (!provider) {
+    throw new ApiError(httpStatus.NOT_FOUND, 'Provider not found');
+  }
+  const adapter = await createAdapter(provider);
+  const remoteModels = await adapter.listRemoteModels();
+  return remoteModels.map((model) => ({
+    ...model,
+    imported: provider.models.some((mapping) => mapping.adapterModelId === model.id),
+  }));
+};
+
+/**
+ * Add model mappings for models exposed by the upstream of a provider
+ * Models are exposed under their upstream id; the ones already mapped are left untouched, and the ones whose id is
+ * already the gateway id of another mapping are skipped (or rejected when requested explicitly)
+ * @param {ObjectId} providerId
+ * @param {string[]} [modelIds] - upstream ids of the models to import (all of them by default)
+ * @returns {Promise<Provider>}
+ */
+const importProviderModels = async (providerId, modelIds) => {
+  const remoteModels = await discoverProviderModels(providerId);
+  const unknownModelId = (modelIds || []).find((modelId) => !remoteModels.some((model) => model.id === modelId));
+  if (unknownModelId) {
+    throw new ApiError(httpStatus.BAD_REQUEST, `The provider does not expose the model '${unknownModelId}'`);
+  }
+  const provider = await getProviderById(providerId);
+  const isTaken = (model) => !model.imported && provider.models.some((mapping) => mapping.dyadModelId === model.id);
+  const takenModel = remoteModels.find((model) => modelIds && modelIds.includes(model.id) && isTaken(model));
+  if (takenModel) {
+    throw new ApiError(httpStatus.BAD_REQUEST, `The model id '${takenModel.id}' is already mapped to another model`);
+  }
+  remoteModels
+    .filter((model) => !model.imported && !isTaken(model) && (!modelIds || modelIds.includes(model.id)))
+    .forEach((model) => {
+      provider.models.push({
+        dyadModelId: model.id,
+        adapterModelId: model.id,
+        contextWindow: model.contextWindow,
+        maxTokens: model.maxTokens,
+      });
+    });
+  await provider.save();
+  return provider;
+};
+
+/**
+ * Render the prompt a CLI provider would receive for some messages, without running the CLI
+ * @param {ObjectId} providerId
+ * @param {Object[]} messages - OpenAI messages
+ * @param {Object} [promptConfig] - tried instead of the prompt config of the provider
+ * @returns {Promise<string>}
+ */
+const previewProviderPrompt = async (providerId, messages, promptConfig) => {
+  const provider = await getProviderById(providerId);
+  if (!provider) {
+    throw new ApiError(httpStatus.NOT_FOUND, 'Provider not found');
+  }
+  if (provider.type !== providerTypes.SPAWN_CLI) {
+    throw new ApiError(httpStatus.BAD_REQUEST, `Providers of type ${provider.type} do not render prompts`);
+  }
+  return renderPrompt(messages, promptConfig || (provider.adapterConfig || {}).prompt);
+};
+
+/**
+ * Get the stats of the process pool of a CLI provider
+ * @param {ObjectId} providerId
+ * @returns {Promise<Object>}
+ */
+const getProviderPoolStats = async (providerId) => {
+  const provider = await getProviderById(providerId);
+  if (!provider) {
+    throw new ApiError(httpStatus.NOT_FOUND, 'Provider not found');
+  }
+  const adapterConfig = provider.adapterConfig || {};
+  if (provider.type !== providerTypes.SPAWN_CLI || !adapterConfig.pool) {
+    throw new ApiError(httpStatus.BAD_REQUEST, 'The provider does not run a process pool');
+  }
+  // processes are only spawned by requests, so this does not start the pool
+  return getProcessPool(provider.id, poolOptions(adapterConfig)).stats();
+};
+
+/**
+ * Get the state of the circuit breaker of a provider
+ * @param {ObjectId} providerId
+ * @returns {Promise<Object>}
+ */
+const getProviderCircuit = async (providerId) => {
+  const provider = await getProviderById(providerId);
+  if (!provider) {
+    throw new ApiError(httpStatus.NOT_FOUND, 'Provider not found');
+  }
+  return getCircuitBreaker(provider.id).getState();
+};
+
+/**
+ * Close the circuit of a provider, so that it gets requests again
+ * @param {ObjectId} providerId
+ * @returns {Promise<Object>} the state of the circuit
+ */
+const resetProviderCircuit = async (providerId) => {
+  const provider = await getProviderById(providerId);
+  if (!provider) {
+    throw new ApiError(httpStatus.NOT_FOUND, 'Provider not found');
+  }
+  resetCircuitBreakers(provider.id);
+  return getCircuitBreaker(provider.id).getState();
+};
+
+module.exports = {
+  createProvider,
+  queryProviders,
+  getProviderById,
+  updateProviderById,
+  deleteProviderById,
+  discoverProviderModels,
+  importProviderModels,
+  previewProviderPrompt,
+  getProviderPoolStats,
+  getProviderCircuit,
+  resetProviderCircuit,
+};
@@ -0,0 +1,153 @@
+const httpStatus = require('http-status');
+const { AbortController } = require('abort-controller');
+const { Provider, ProviderHealth } = require('../models');
+const { createAdapter } = require('../adapters');
+const ApiError = require('../utils/ApiError');
+const logger = require('../config/logger');
+const config = require('../config/config');
+const { healthStatuses } = require('../config/providers');
+
+// period summarized when none is given
+const DEFAULT_PERIOD_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Run the health check of a provider, giving up after the health check timeout
+ * The adapter pings the first model of the provider, unless it has a cheaper check (e.g. listing its models)
+ * @param {Provider} provider
+ * @returns {Promise<{ ok: boolean, latencyMs: number, message?: string }>}
+ */
+const runHealthCheck = async (provider) => {
+  const timeoutMs = config.gateway.healthCheck.timeoutSeconds * 1000;
+  const abortController = new AbortController();
+  let timer;
+  const timeout = new Promise((resolve) => {
+    timer = setTimeout(() => {
+      abortController.abort();
+      resolve({ ok: false, latencyMs: timeoutMs, message: `Health check timed out after ${timeoutMs / 1000} seconds` });
+    }, timeoutMs);
+  });
+  const start = Date.now();
+  try {
+    const adapter = await createAdapter(provider);
+    const [mapping] = provider.models;
+    const check = adapter.healthCheck({ model: mapping && mapping.adapterModelId, signal: abortController.signal });
+    return await Promise.race([check, timeout]);
+  } catch (error) {
+    return { ok: false, latencyMs: Date.now() - start, message: error.message };
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+/**
+ * Check the health of a provider and keep the result
+ * @param {Provider} provider
+ * @returns {Promise<ProviderHealth>}
+ */
+const checkProviderHealth = async (provider) => {
+  const result = await runHealthCheck(provider);
+  if (!result.ok) {
+    logger.warn(`Provider ${provider.slug} failed its health check: ${result.message}`);
+  }
+  return ProviderHealth.create({ provider: provider.id, ...result });
+};
+
+/**
+ * Check the health of every enabled provider, one after the other so that CLI providers do not all start at once
+ * @returns {Promise<ProviderHealth[]>}
+ */
+const checkProvidersHealth = async () => {
+  const providers = await Provider.find({ enabled: true });
+  return providers.reduce(
+    async (previous, provider) => (await previous).concat(await checkProviderHealth(provider)),
+    Promise.resolve([])
+  );
+};
+
+/**
+ * Nearest-rank percentile
+ * @param {number[]} sorted - ascending values
+ * @param {number} percentile - between 0 and 100
+ * @returns {number|null}
+ */
+const percentileOf = (sorted, percentile) =>
+  sorted.length ? sorted[Math.max(0, Math.ceil((percentile / 100) * sorted.length) - 1)] : null;
+
+/**
+ * Summarize the health checks of a provider
+ * @param {Object[]} checks - most recent first
+ * @returns {Object} status (of the last check), uptime (percentage of successful checks) and p50/p95 latency of the
+ *   successful checks
+ */
+const summarize = (checks) => {
+  const [last] = checks;
+  const latencies = checks
+    .filter((check) => check.ok)
+    .map((check) => check.latencyMs)
+    .sort((a, b) => a - b);
+  const status = last && (last.ok ? healthStatuses.UP : healthStatuses.DOWN);
+  return {
+    status: status || healthStatuses.UNKNOWN,
+    lastCheckedAt: last ? last.checkedAt : null,
+    lastError: last && !last.ok ? last.message : null,
+    checks: checks.length,
+    uptime: checks.length ? Math.round((latencies.length / checks.length) * 10000) / 100 : null,
+    latency: { p50: percentileOf(latencies, 50), p95: percentileOf(latencies, 95) },
+  };
+};
+
+/**
+ * Get the health of every provider
+ * @param {Object} [options]
+ * @param {Date} [options.since] - start of the period summarized (the last 24 hours by default)
+ * @returns {Promise<Object[]>}
+ */
+const getProvidersHealth = async ({ since = new Date(Date.now() - DEFAULT_PERIOD_MS) } = {}) => {
+  const providers = await Provider.find().sort('name');
+  const checks = await ProviderHealth.find({ checkedAt: { $gte: since } })
+    .sort({ checkedAt: -1 })
+    .lean();
+  return providers.map((provider) => ({
+    provider: provider.id,
+    name: provider.name,
+    slug: provider.slug,
+    enabled: provider.enabled,
+    ...summarize(checks.filter((check) => check.provider.equals(provider._id))),
+  }));
+};
+
+/**
+ * Get the health of a provider with the time series of its health checks
+ * @param {ObjectId} providerId
+ * @param {Object} [options]
+ * @param {Date} [options.since] - start of the period (the last 24 hours by default)
+ * @param {number} [options.limit] - keep the most recent checks only in the time series
+ * @returns {Promise<Object>}
+ */
+const getProviderHealth = async (providerId, { since = new Date(Date.now() - DEFAULT_PERIOD_MS), limit } = {}) => {
+  const provider = await Provider.findById(providerId);
+  if (!provider) {
+    throw new ApiError(httpStatus.NOT_FOUND, 'Provider not found');
+  }
+  const checks = await ProviderHealth.find({ provider: provider._id, checkedAt: { $gte: since } })
+    .sort({ checkedAt: -1 })
+    .lean();
+  return {
+    provider: provider.id,
+    name: provider.name,
+    slug: provider.slug,
+    enabled: provider.enabled,
+    ...summarize(checks),
+    series: checks
+      .slice(0, limit)
+      .reverse()
+      .map(({ checkedAt, ok, latencyMs, message }) => ({ checkedAt, ok, latencyMs, message })),
+  };
+};
+
+module.exports = {
+  checkProviderHealth,
+  checkProvidersHealth,
+  getProvidersHealth,
+  getProviderHealth,
+};
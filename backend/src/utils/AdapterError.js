@@ -0,0 +1,20 @@
+const ApiError = require('./ApiError');
+
+/**
+ * An error raised while calling an upstream provider
+ * `code` identifies the failure (e.g. cli_timeout) independently of the http status
+ * `details.upstreamError` holds the OpenAI-shaped error returned by the upstream, if any, so it can be propagated
+ */
+class AdapterError extends ApiError {
+  constructor(statusCode, code, message, details = {}) {
+    const { upstreamError } = details;
+    super(statusCode, message, true, '', {
+      code,
+      type: upstreamError && upstreamError.type,
+      param: upstreamError && upstreamError.param,
+    });
+    this.details = details;
+  }
+}
+
+module.exports = AdapterError;
@@ -1,8 +1,44 @@
+const httpStatus = require('http-status');
+
+/**
+ * Get the OpenAI error type matching an http status
+ * @param {number} statusCode
+ * @returns {string}
+ */
+const getErrorType = (statusCode) => {
+  if (statusCode === httpStatus.UNAUTHORIZED) {
+    return 'authentication_error';
+  }
+  if (statusCode === httpStatus.FORBIDDEN) {
+    return 'permission_error';
+  }
+  if (statusCode === httpStatus.TOO_MANY_REQUESTS) {
+    return 'rate_limit_error';
+  }
+  if (statusCode >= httpStatus.INTERNAL_SERVER_ERROR) {
+    return 'server_error';
+  }
+  return 'invalid_request_error';
+};
+
 class ApiError extends Error {
-  constructor(statusCode, message, isOperational = true, stack = '') {
+  /**
+   * @param {number} statusCode
+   * @param {string} message
+   * @param {boolean} [isOperational]
+   * @param {string} [stack]
+   * @param {Object} [details] - fields of OpenAI-shaped error responses
+   * @param {string} [details.type] - OpenAI error type, derived from the status by default
+   * @param {string} [details.param] - request parameter that caused the error
+   * @param {string} [details.code] - machine readable error code
+   */
+  constructor(statusCode, message, isOperational = true, stack = '', { type, param, code } = {}) {
     super(message);
     this.statusCode = statusCode;
     this.isOperational = isOperational;
+    this.type = type || getErrorType(statusCode);
+    this.param = param || null;
+    this.code = code || null;
     if (stack) {
       this.stack = stack;
     } else {
@@ -0,0 +1,16 @@
+/**
+ * Flatten OpenAI message content (a string or an array of content parts) into plain text
+ * @param {string|Object[]} content
+ * @returns {string}
+ */
+const contentToText = (content) => {
+  if (Array.isArray(content)) {
+    return content
+      .filter((part) => part.type === 'text')
+      .map((part) => part.text)
+      .join('\n');
+  }
+  return content || '';
+};
+
+module.exports = contentToText;
@@ -0,0 +1,43 @@
+const jsonPath = require('./jsonPath');
+
+/**
+ * Read the text at a path of a JSON document; texts found with a `[*]` path are concatenated
+ * @param {*} body
+ * @param {string} path
+ * @returns {string|undefined}
+ */
+const extractText = (body, path) => {
+  const value = jsonPath(body, path);
+  if (Array.isArray(value)) {
+    return value.join('');
+  }
+  return value === undefined || value === null ? undefined : String(value);
+};
+
+/**
+ * Build an OpenAI usage object from the token counters of a JSON document
+ * @param {*} body
+ * @param {Object} [paths] - { prompt_tokens, completion_tokens, total_tokens }
+ * @returns {Object|undefined} undefined when the document does not report any counter
+ */
+const extractUsage = (body, paths) => {
+  if (!paths) {
+    return undefined;
+  }
+  const promptTokens = jsonPath(body, paths.prompt_tokens);
+  const completionTokens = jsonPath(body, paths.completion_tokens);
+  const totalTokens = jsonPath(body, paths.total_tokens);
+  if (promptTokens === undefined && completionTokens === undefined && totalTokens === undefined) {
+    return undefined;
+  }
+  return {
+    prompt_tokens: promptTokens || 0,
+    completion_tokens: completionTokens || 0,
+    total_tokens: totalTokens === undefined ? (promptTokens || 0) + (completionTokens || 0) : totalTokens,
+  };
+};
+
+module.exports = {
+  extractText,
+  extractUsage,
+};
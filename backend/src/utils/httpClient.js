@@ -0,0 +1,220 @@
+const http = require('http');
+const https = require('https');
+const httpStatus = require('http-status');
+const AdapterError = require('./AdapterError');
+const { adapterErrorCodes } = require('../config/adapters');
+
+const authTypes = {
+  BEARER: 'bearer',
+  HEADER: 'header',
+  QUERY: 'query',
+  NONE: 'none',
+};
+
+/**
+ * Add an API key to a request: as a bearer token (default), in a custom header or as a query param
+ * @param {Object} params
+ * @param {string} params.url
+ * @param {Object} [params.headers]
+ * @param {Object} [auth]
+ * @param {string} [auth.type] - bearer, header, query or none
+ * @param {string} [auth.name] - name of the header (default x-api-key) or query param (default api_key)
+ * @param {string} [apiKey] - nothing is added without a key
+ * @returns {{ url: string, headers: Object }}
+ */
+const withApiKey = ({ url, headers = {} }, auth = {}, apiKey) => {
+  const type = auth.type || authTypes.BEARER;
+  if (!apiKey || type === authTypes.NONE) {
+    return { url, headers };
+  }
+  if (type === authTypes.QUERY) {
+    const target = new URL(url);
+    target.searchParams.set(auth.name || 'api_key', apiKey);
+    return { url: target.toString(), headers };
+  }
+  if (type === authTypes.HEADER) {
+    return { url, headers: { ...headers, [auth.name || 'x-api-key']: apiKey } };
+  }
+  return { url, headers: { ...headers, Authorization: `Bearer ${apiKey}` } };
+};
+
+/**
+ * Send an HTTP request and resolve with the response as soon as its headers are received
+ * Network errors are rejected as is (their code, e.g. ECONNREFUSED, is mapped to a gateway error by the error middleware)
+ * @param {Object} params
+ * @param {string} params.url
+ * @param {string} [params.method]
+ * @param {Object} [params.headers]
+ * @param {*} [params.body] - sent as JSON
+ * @param {AbortSignal} [params.signal] - destroys the request when aborted
+ * @param {number} [params.timeoutMs] - the request fails with ETIMEDOUT when the socket stays idle for this long
+ * @returns {Promise<IncomingMessage>}
+ */
+const sendRequest = ({ url, method = 'GET', headers = {}, body, signal, timeoutMs }) =>
+  new Promise((resolve, reject) => {
+    if (signal && signal.aborted) {
+      return reject(new Error('Request aborted'));
+    }
+    const target = new URL(url);
+    const transport = target.protocol === 'https:' ? https : http;
+    const payload = body === undefined ? undefined : JSON.stringify(body);
+    const requestHeaders = payload
+      ? { 'Content-Type': 'application/json', 'Content-Length': Buffer.byteLength(payload), ...headers }
+      : headers;
+
+    const req = transport.request(target, { method, headers: requestHeaders }, resolve);
+    if (signal) {
+      // also interrupts the response while it is being read; the signal may outlive the request (retries, fallbacks)
+      const onAbort = () => req.destroy(new Error('Request aborted'));
+      const stopListening = () => signal.removeEventListener('abort', onAbort);
+      signal.addEventListener('abort', onAbort);
+      req.on('response', (res) => res.on('end', stopListening));
+      req.on('close', stopListening);
+    }
+    if (timeoutMs) {
+      req.setTimeout(timeoutMs, () => {
+        const error = new Error(`No response from ${target.host} after ${timeoutMs}ms`);
+        error.code = 'ETIMEDOUT';
+        req.destroy(error);
+      });
+    }
+    req.on('error', reject);
+    req.end(payload);
+  });
+
+/**
+ * Read a whole response body
+ * @param {IncomingMessage} res
+ * @returns {Promise<string>}
+ */
+const readBody = (res) =>
+  new Promise((resolve, reject) => {
+    const chunks = [];
+    res.on('data', (chunk) => chunks.push(chunk));
+    res.on('end', () => resolve(Buffer.concat(chunks).toString()));
+    res.on('error', reject);
+    res.on('close', () => {
+      if (!res.complete) {
+        reject(new Error('Response aborted'));
+      }
+    });
+  });
+
+/**
+ * Parse a body as JSON, falling back to the raw text
+ * @param {string} text
+ * @returns {*}
+ */
+const parseBody = (text) => {
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    return text;
+  }
+};
+
+/**
+ * Build the error of an upstream response whose status is not 2xx
+ * Invalid requests (400, 422) and rate limits (429) are the client's concern, so their status and OpenAI-shaped error
+ * ({ error: { message, type, param } }) are propagated; any other failure becomes a gateway error (502 or 504)
+ * @param {number} statusCode - status of the upstream response
+ * @param {*} body - parsed upstream body
+ * @returns {AdapterError}
+ */
+const toUpstreamError = (statusCode, body) => {
+  const error = body && typeof body.error === 'object' ? body.error : undefined;
+  let message = `Upstream provider responded with status ${statusCode}`;
+  if (error && error.message) {
+    message = error.message;
+  } else if (body && typeof body.error === 'string') {
+    message = body.error;
+  }
+  const details = { upstreamStatus: statusCode };
+  if (statusCode === httpStatus.BAD_REQUEST || statusCode === httpStatus.UNPROCESSABLE_ENTITY) {
+    return new AdapterError(httpStatus.BAD_REQUEST, adapterErrorCodes.UPSTREAM_ERROR, message, {
+      ...details,
+      upstreamError: error,
+    });
+  }
+  if (statusCode === httpStatus.TOO_MANY_REQUESTS) {
+    return new AdapterError(httpStatus.TOO_MANY_REQUESTS, adapterErrorCodes.UPSTREAM_RATE_LIMITED, message, details);
+  }
+  if (statusCode === httpStatus.GATEWAY_TIMEOUT || statusCode === httpStatus.REQUEST_TIMEOUT) {
+    return new AdapterError(httpStatus.GATEWAY_TIMEOUT, adapterErrorCodes.UPSTREAM_TIMEOUT, message, details);
+  }
+  return new AdapterError(httpStatus.BAD_GATEWAY, adapterErrorCodes.UPSTREAM_ERROR, message, details);
+};
+
+/**
+ * Send a request and read its JSON response
+ * @param {Object} params - same as sendRequest
+ * @returns {Promise<*>} the parsed body
+ * @throws {AdapterError} if the upstream does not respond with a 2xx status
+ */
+const requestJson = async (params) => {
+  const res = await sendRequest(params);
+  const body = parseBody(await readBody(res));
+  if (res.statusCode >= 300) {
+    throw toUpstreamError(res.statusCode, body);
+  }
+  return body;
+};
+
+/**
+ * Send a request and call onLine with every line of its streamed response
+ * @param {Object} params - same as sendRequest, plus:
+ * @param {function(string)} params.onLine - called with every non-empty line
+ * @returns {Promise}
+ * @throws {AdapterError} if the upstream does not respond with a 2xx status
+ */
+const streamLines = async ({ onLine, ...params }) => {
+  const res = await sendRequest(params);
+  if (res.statusCode >= 300) {
+    throw toUpstreamError(res.statusCode, parseBody(await readBody(res)));
+  }
+  return new Promise((resolve, reject) => {
+    let buffer = '';
+    const flush = (final) => {
+      const lines = buffer.split('\n');
+      buffer = final ? '' : lines.pop();
+      lines.forEach((line) => {
+        if (line.trim()) {
+          onLine(line.trim());
+        }
+      });
+    };
+    res.setEncoding('utf8');
+    res.on('data', (chunk) => {
+      buffer += chunk;
+      try {
+        flush(false);
+      } catch (error) {
+        res.destroy(error);
+      }
+    });
+    res.on('end', () => {
+      try {
+        flush(true);
+        resolve();
+      } catch (error) {
+        reject(error);
+      }
+    });
+    res.on('error', reject);
+    res.on('close', () => {
+      if (!res.complete) {
+        reject(new Error('Response aborted'));
+      }
+    });
+  });
+};
+
+module.exports = {
+  authTypes,
+  withApiKey,
+  sendRequest,
+  readBody,
+  requestJson,
+  streamLines,
+  toUpstreamError,
+};
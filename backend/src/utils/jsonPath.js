@@ -0,0 +1,33 @@
+const resolvePath = (value, segments) => {
+  if (!segments.length || value === undefined || value === null) {
+    return value;
+  }
+  const [segment, ...rest] = segments;
+  if (segment === '*') {
+    return Array.isArray(value)
+      ? value.map((item) => resolvePath(item, rest)).filter((item) => item !== undefined)
+      : undefined;
+  }
+  return resolvePath(value[segment], rest);
+};
+
+/**
+ * Read a value with a JSONPath-style expression: `$.choices[0].message.content`
+ * Only member access and array indexes are supported, plus `[*]` which maps the rest of the path over an array
+ * @param {*} object
+ * @param {string} path
+ * @returns {*} undefined if the path does not exist
+ */
+const jsonPath = (object, path) => {
+  if (!path) {
+    return undefined;
+  }
+  const segments = path
+    .replace(/^\$/, '')
+    .replace(/\[(\d+|\*)\]/g, '.$1')
+    .split('.')
+    .filter(Boolean);
+  return resolvePath(object, segments);
+};
+
+module.exports = jsonPath;
@@ -0,0 +1,15 @@
+/**
+ * Send a signal to a child and all of its descendants
+ * The child must be spawned detached, so it leads its own process group
+ * @param {ChildProcess} child
+ * @param {string} signal
+ */
+const killProcessTree = (child, signal) => {
+  try {
+    process.kill(-child.pid, signal);
+  } catch (error) {
+    child.kill(signal);
+  }
+};
+
+module.exports = killProcessTree;
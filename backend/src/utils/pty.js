@@ -0,0 +1,60 @@
+const DEFAULT_COLUMNS = 120;
+const DEFAULT_ROWS = 40;
+// a terminal drops the characters of a line beyond 4095 until it is flushed
+const MAX_LINE_LENGTH = 4000;
+// ^D ends the input at the start of a line and flushes the pending characters elsewhere
+const EOF = '\u0004';
+// ^V makes the terminal take the next character literally instead of as a signal (^C) or an edit (^U, DEL)
+const LITERAL_NEXT = '\u0016';
+// eslint-disable-next-line no-control-regex
+const CONTROL_CHARACTERS = /[\u0000-\u0008\u000b-\u001f\u007f]/g;
+
+/**
+ * Quote a word for sh
+ * @param {string} word
+ * @returns {string}
+ */
+const quote = (word) => `'${String(word).replace(/'/g, `'\\''`)}'`;
+
+/**
+ * Wrap a command so it runs under a pseudo-terminal, with script(1) from util-linux (2.35 or later)
+ * The terminal does not echo the input and does not turn "\n" into "\r\n"; stderr is merged into stdout, like on a screen.
+ * script exits with the exit code of the command, and the sh it starts exits with 127 if the command does not exist.
+ * @param {string} command
+ * @param {string[]} args
+ * @param {Object} [options]
+ * @param {number} [options.columns]
+ * @param {number} [options.rows]
+ * @returns {{ command: string, args: string[] }}
+ */
+const ptyCommand = (command, args, { columns = DEFAULT_COLUMNS, rows = DEFAULT_ROWS } = {}) => {
+  const setup = `stty cols ${parseInt(columns, 10)} rows ${parseInt(rows, 10)} -onlcr`;
+  const exec = [command, ...args].map(quote).join(' ');
+  return { command: 'script', args: ['-qfe', '--echo', 'never', '-c', `${setup}; exec ${exec}`, '/dev/null'] };
+};
+
+/**
+ * Encode a prompt as the keystrokes that deliver it through a terminal, followed by the end of the input
+ * Control characters are escaped and long lines are flushed in pieces, so the command reads the prompt unchanged.
+ * @param {string} prompt
+ * @returns {string}
+ */
+const ptyInput = (prompt) => {
+  const encoded = prompt.split('\n').map((line) => {
+    const pieces = [];
+    for (let index = 0; index < line.length; index += MAX_LINE_LENGTH) {
+      pieces.push(
+        line.slice(index, index + MAX_LINE_LENGTH).replace(CONTROL_CHARACTERS, (character) => LITERAL_NEXT + character)
+      );
+    }
+    return pieces.join(EOF);
+  });
+  const input = encoded.join('\n');
+  // a ^D after characters only flushes them, so the input must end at the start of a line
+  return `${input}${input && !input.endsWith('\n') ? '\n' : ''}${EOF}`;
+};
+
+module.exports = {
+  ptyCommand,
+  ptyInput,
+};
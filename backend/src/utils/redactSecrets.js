@@ -0,0 +1,22 @@
+const SECRET_PATTERNS = [
+  // bearer tokens and credentials passed as key=value or "key": "value"
+  /(bearer\s+)[\w.~+/-]+=*/gi,
+  /((?:api[_-]?key|token|secret|password|authorization)["']?\s*[:=]\s*["']?)[^\s"',;]+/gi,
+  // well-known key formats (OpenAI, Anthropic, Google, GitHub, gateway keys)
+  /\b(?:sk|dyad)[_-][\w-]{8,}/g,
+  /\bAIza[\w-]{20,}/g,
+  /\bgh[pousr]_\w{20,}/g,
+];
+
+/**
+ * Mask the secrets that may appear in a piece of output before it is returned or logged
+ * @param {string} text
+ * @returns {string}
+ */
+const redactSecrets = (text) =>
+  SECRET_PATTERNS.reduce(
+    (result, pattern) => result.replace(pattern, (match, prefix) => `${typeof prefix === 'string' ? prefix : ''}[REDACTED]`),
+    text
+  );
+
+module.exports = redactSecrets;
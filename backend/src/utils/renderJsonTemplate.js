@@ -0,0 +1,45 @@
+const jsonPath = require('./jsonPath');
+
+const PLACEHOLDER = /\{\{\s*([\w.]+)\s*\}\}/g;
+const WHOLE_PLACEHOLDER = /^\{\{\s*([\w.]+)\s*\}\}$/;
+
+const stringify = (value) => {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+/**
+ * Render a JSON template: every string containing `{{name}}` placeholders is filled with the variables
+ * A string made of a single placeholder is replaced by the variable itself (keeping numbers, arrays and objects), and
+ * dropped from its object or array when the variable is undefined
+ * @param {*} template
+ * @param {Object} variables - placeholders may use dotted paths (e.g. `{{options.temperature}}`)
+ * @returns {*}
+ */
+const renderJsonTemplate = (template, variables) => {
+  if (typeof template === 'string') {
+    const whole = template.match(WHOLE_PLACEHOLDER);
+    if (whole) {
+      return jsonPath(variables, whole[1]);
+    }
+    return template.replace(PLACEHOLDER, (match, name) => stringify(jsonPath(variables, name)));
+  }
+  if (Array.isArray(template)) {
+    return template.map((item) => renderJsonTemplate(item, variables)).filter((item) => item !== undefined);
+  }
+  if (template && typeof template === 'object') {
+    return Object.keys(template).reduce((result, key) => {
+      const value = renderJsonTemplate(template[key], variables);
+      if (value !== undefined) {
+        // eslint-disable-next-line no-param-reassign
+        result[key] = value;
+      }
+      return result;
+    }, {});
+  }
+  return template;
+};
+
+module.exports = renderJsonTemplate;
@@ -0,0 +1,136 @@
+const contentToText = require('./contentToText');
+const renderJsonTemplate = require('./renderJsonTemplate');
+const { promptFormats, toolResultFormats } = require('../config/prompts');
+
+// blocks are rendered with {{role}}, {{name}} and {{content}}; `default` serves the roles without their own block
+const formats = {
+  [promptFormats.PLAIN]: {
+    blocks: { default: '{{role}}: {{content}}' },
+    separator: '\n\n',
+  },
+  [promptFormats.CHATML]: {
+    blocks: { default: '<|im_start|>{{role}}\n{{content}}<|im_end|>' },
+    separator: '\n',
+    suffix: '\n<|im_start|>assistant\n',
+  },
+  [promptFormats.LLAMA3]: {
+    prefix: '<|begin_of_text|>',
+    blocks: {
+      default: '<|start_header_id|>{{role}}<|end_header_id|>\n\n{{content}}<|eot_id|>',
+      tool: '<|start_header_id|>ipython<|end_header_id|>\n\n{{content}}<|eot_id|>',
+    },
+    separator: '',
+    suffix: '<|start_header_id|>assistant<|end_header_id|>\n\n',
+  },
+};
+formats[promptFormats.CUSTOM] = formats[promptFormats.PLAIN];
+
+/**
+ * Serialize the tool calls of an assistant message
+ * @param {Object[]} toolCalls
+ * @param {string} toolResults - text or json
+ * @returns {string}
+ */
+const serializeToolCalls = (toolCalls, toolResults) => {
+  if (toolResults === toolResultFormats.JSON) {
+    return JSON.stringify(toolCalls);
+  }
+  return toolCalls
+    .map((toolCall) => `Tool call ${toolCall.id}: ${toolCall.function.name}(${toolCall.function.arguments || ''})`)
+    .join('\n');
+};
+
+/**
+ * Flatten the messages to text, serializing tool calls and tool results
+ * @param {Object[]} messages - OpenAI messages
+ * @param {string} toolResults - text, json or omit
+ * @returns {Object[]} [{ role, name, content }]
+ */
+const toTextMessages = (messages, toolResults) =>
+  messages
+    .filter((message) => message.role !== 'tool' || toolResults !== toolResultFormats.OMIT)
+    .map((message) => {
+      const content = contentToText(message.content);
+      if (message.role === 'tool') {
+        const name = message.name || message.tool_call_id;
+        return {
+          role: message.role,
+          name,
+          content:
+            toolResults === toolResultFormats.JSON
+              ? JSON.stringify({ tool_call_id: message.tool_call_id, name: message.name, content })
+              : content,
+        };
+      }
+      if (message.tool_calls && message.tool_calls.length && toolResults !== toolResultFormats.OMIT) {
+        const toolCalls = serializeToolCalls(message.tool_calls, toolResults);
+        return { role: message.role, name: message.name, content: content ? `${content}\n${toolCalls}` : toolCalls };
+      }
+      return { role: message.role, name: message.name, content };
+    })
+    .filter((message) => message.content);
+
+/**
+ * Keep the system messages and the last `maxMessages` other messages
+ * @param {Object[]} messages
+ * @param {number} [maxMessages]
+ * @returns {Object[]}
+ */
+const limitHistory = (messages, maxMessages) => {
+  if (!maxMessages) {
+    return messages;
+  }
+  const history = messages.filter((message) => message.role !== 'system');
+  const kept = new Set(history.slice(-maxMessages));
+  return messages.filter((message) => message.role === 'system' || kept.has(message));
+};
+
+/**
+ * Render the chat messages into the single prompt a CLI reads
+ * @param {Object[]} messages - OpenAI messages
+ * @param {Object} [promptConfig] - the `prompt` of a provider's adapterConfig
+ * @param {string} [promptConfig.format] - plain (default), chatml, llama3, last-user or custom
+ * @param {Object} [promptConfig.blocks] - templates of the system, user, assistant and tool messages (and `default`),
+ *   overriding the ones of the format
+ * @param {string} [promptConfig.prefix] - text before the first message
+ * @param {string} [promptConfig.separator] - text between messages
+ * @param {string} [promptConfig.suffix] - text after the last message (e.g. the assistant header the model completes)
+ * @param {number} [promptConfig.maxMessages] - the older messages are dropped (system messages are always kept)
+ * @param {number} [promptConfig.maxChars] - the older messages are dropped until the prompt fits (the last one is kept)
+ * @param {string} [promptConfig.toolResults] - how tool calls and results are serialized: text (default), json or omit
+ * @returns {string}
+ */
+const renderPrompt = (messages, promptConfig = {}) => {
+  const { format = promptFormats.PLAIN, toolResults = toolResultFormats.TEXT, maxMessages, maxChars } = promptConfig;
+  let textMessages = limitHistory(toTextMessages(messages, toolResults), maxMessages);
+
+  if (format === promptFormats.LAST_USER) {
+    const userMessages = textMessages.filter((message) => message.role === 'user');
+    return userMessages.length ? userMessages[userMessages.length - 1].content : '';
+  }
+
+  const base = formats[format] || formats[promptFormats.PLAIN];
+  const blocks = { ...base.blocks, ...promptConfig.blocks };
+  const prefix = promptConfig.prefix === undefined ? base.prefix || '' : promptConfig.prefix;
+  const separator = promptConfig.separator === undefined ? base.separator : promptConfig.separator;
+  const suffix = promptConfig.suffix === undefined ? base.suffix || '' : promptConfig.suffix;
+  const render = () =>
+    prefix +
+    textMessages
+      .map((message) => renderJsonTemplate(blocks[message.role] || blocks.default, message) || '')
+      .join(separator) +
+    suffix;
+
+  let prompt = render();
+  while (maxChars && prompt.length > maxChars) {
+    const oldest = textMessages.findIndex((message) => message.role !== 'system');
+    if (oldest === -1 || oldest === textMessages.length - 1) {
+      break;
+    }
+    textMessages = textMessages.filter((message, index) => index !== oldest);
+    prompt = render();
+  }
+  return prompt;
+};
+
+module.exports = renderPrompt;
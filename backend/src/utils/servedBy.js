@@ -0,0 +1,12 @@
+/**
+ * Build the callback recording the provider which served a gateway request: the client sees it in the
+ * x-gateway-provider header, the request log in res.locals.provider
+ * @param {Object} res - express response, whose headers were not sent yet
+ * @returns {function(Provider)}
+ */
+const servedBy = (res) => (provider) => {
+  res.locals.provider = provider.slug;
+  res.set('x-gateway-provider', provider.slug);
+};
+
+module.exports = servedBy;
@@ -0,0 +1,23 @@
+// CSI sequences (colours, cursor moves), OSC sequences (titles, hyperlinks) and two-character escapes
+// eslint-disable-next-line no-control-regex
+const ANSI_SEQUENCE = /\u001b\[[0-9;?]*[ -/]*[@-~]|\u001b\][^\u0007\u001b]*(?:\u0007|\u001b\\)|\u001b[@-Z\\-_]/g;
+// eslint-disable-next-line no-control-regex
+const CONTROL_CHARACTER = /[\u0000-\u0008\u000b\u000c\u000e-\u001f\u007f]/g;
+
+/**
+ * Turn terminal output into plain text, as a terminal would display it
+ * ANSI escape sequences and control characters are removed, and the text a carriage return rewinds over (spinners,
+ * progress bars) is dropped
+ * @param {string} text
+ * @returns {string}
+ */
+const stripAnsi = (text) =>
+  text
+    .replace(ANSI_SEQUENCE, '')
+    .replace(/\r\n/g, '\n')
+    .split('\n')
+    .map((line) => line.slice(line.lastIndexOf('\r') + 1))
+    .join('\n')
+    .replace(CONTROL_CHARACTER, '');
+
+module.exports = stripAnsi;
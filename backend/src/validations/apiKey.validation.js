@@ -0,0 +1,57 @@
+const Joi = require('joi');
+const { objectId } = require('./custom.validation');
+const { apiKeyScopes } = require('../config/apiKeys');
+
+const createApiKey = {
+  body: Joi.object().keys({
+    name: Joi.string().required(),
+    user: Joi.string().custom(objectId),
+    scopes: Joi.array()
+      .items(Joi.string().valid(...Object.values(apiKeyScopes)))
+      .min(1),
+    models: Joi.array().items(Joi.string()),
+    rateLimits: Joi.object().keys({
+      requestsPerMinute: Joi.number().integer().min(0),
+      tokensPerMinute: Joi.number().integer().min(0),
+      maxConcurrent: Joi.number().integer().min(0),
+    }),
+    expiresAt: Joi.date().greater('now'),
+  }),
+};
+
+const getApiKeys = {
+  query: Joi.object().keys({
+    name: Joi.string(),
+    user: Joi.string().custom(objectId),
+    revoked: Joi.boolean(),
+    sortBy: Joi.string(),
+    limit: Joi.number().integer(),
+    page: Joi.number().integer(),
+  }),
+};
+
+const getApiKey = {
+  params: Joi.object().keys({
+    apiKeyId: Joi.string().custom(objectId),
+  }),
+};
+
+const revokeApiKey = {
+  params: Joi.object().keys({
+    apiKeyId: Joi.string().custom(objectId),
+  }),
+};
+
+const rotateApiKey = {
+  params: Joi.object().keys({
+    apiKeyId: Joi.string().custom(objectId),
+  }),
+};
+
+module.exports = {
+  createApiKey,
+  getApiKeys,
+  getApiKey,
+  revokeApiKey,
+  rotateApiKey,
+};
@@ -0,0 +1,49 @@
+const Joi = require('joi');
+
+// the OpenAI API keeps growing: unlisted parameters are let through for the adapters forwarding the whole request (the
+// others ignore them)
+const message = Joi.object()
+  .keys({
+    role: Joi.string().required().valid('system', 'developer', 'user', 'assistant', 'tool'),
+    content: Joi.alternatives()
+      .try(Joi.string().allow(''), Joi.array().items(Joi.object().keys({ type: Joi.string().required() }).unknown()))
+      .allow(null),
+    name: Joi.string(),
+    tool_calls: Joi.array().items(Joi.object()),
+    tool_call_id: Joi.string(),
+  })
+  .unknown();
+
+const createChatCompletion = {
+  body: Joi.object()
+    .keys({
+      model: Joi.string().required(),
+      messages: Joi.array().items(message).min(1).required(),
+      temperature: Joi.number().min(0).max(2),
+      top_p: Joi.number().min(0).max(1),
+      n: Joi.number().integer().min(1),
+      seed: Joi.number().integer(),
+      presence_penalty: Joi.number().min(-2).max(2),
+      frequency_penalty: Joi.number().min(-2).max(2),
+      logit_bias: Joi.object().pattern(Joi.string(), Joi.number()),
+      logprobs: Joi.boolean(),
+      top_logprobs: Joi.number().integer().min(0).max(20),
+      max_tokens: Joi.number().integer().min(1),
+      max_completion_tokens: Joi.number().integer().min(1),
+      stop: Joi.alternatives().try(Joi.string(), Joi.array().items(Joi.string()).max(4)),
+      user: Joi.string(),
+      stream: Joi.boolean(),
+      stream_options: Joi.object().keys({ include_usage: Joi.boolean() }),
+      tools: Joi.array().items(Joi.object()),
+      tool_choice: Joi.alternatives().try(Joi.string(), Joi.object()),
+      parallel_tool_calls: Joi.boolean(),
+      response_format: Joi.object()
+        .keys({ type: Joi.string().required().valid('text', 'json_object', 'json_schema') })
+        .unknown(),
+    })
+    .unknown(),
+};
+
+module.exports = {
+  createChatCompletion,
+};
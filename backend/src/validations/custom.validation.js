@@ -1,3 +1,6 @@
+const { getProviderTypes } = require('../adapters');
+const { getOutputParserTypes } = require('../outputParsers');
+
 const objectId = (value, helpers) => {
   if (!value.match(/^[0-9a-fA-F]{24}$/)) {
     return helpers.message('"{{#label}}" must be a valid mongo id');
@@ -15,7 +18,23 @@ const password = (value, helpers) => {
   return value;
 };
 
+const providerType = (value, helpers) => {
+  if (!getProviderTypes().includes(value)) {
+    return helpers.message(`"{{#label}}" must be one of [${getProviderTypes().join(', ')}]`);
+  }
+  return value;
+};
+
+const outputParserType = (value, helpers) => {
+  if (!getOutputParserTypes().includes(value)) {
+    return helpers.message(`"{{#label}}" must be one of [${getOutputParserTypes().join(', ')}]`);
+  }
+  return value;
+};
+
 module.exports = {
   objectId,
   password,
+  providerType,
+  outputParserType,
 };
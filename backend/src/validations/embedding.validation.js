@@ -0,0 +1,14 @@
+const Joi = require('joi');
+
+const createEmbeddings = {
+  body: Joi.object().keys({
+    model: Joi.string().required(),
+    input: Joi.alternatives().try(Joi.string(), Joi.array().items(Joi.string()).min(1)).required(),
+    encoding_format: Joi.string().valid('float'),
+    user: Joi.string(),
+  }),
+};
+
+module.exports = {
+  createEmbeddings,
+};
@@ -1,2 +1,8 @@
+module.exports.apiKeyValidation = require('./apiKey.validation');
 module.exports.authValidation = require('./auth.validation');
+module.exports.chatValidation = require('./chat.validation');
+module.exports.embeddingValidation = require('./embedding.validation');
+module.exports.modelValidation = require('./model.validation');
+module.exports.modelRouteValidation = require('./modelRoute.validation');
+module.exports.providerValidation = require('./provider.validation');
 module.exports.userValidation = require('./user.validation');
@@ -0,0 +1,11 @@
+const Joi = require('joi');
+
+const getModel = {
+  params: Joi.object().keys({
+    modelId: Joi.string().required(),
+  }),
+};
+
+module.exports = {
+  getModel,
+};
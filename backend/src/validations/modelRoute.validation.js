@@ -0,0 +1,61 @@
+const Joi = require('joi');
+const { objectId } = require('./custom.validation');
+const { routingStrategies } = require('../config/routing');
+
+const strategy = Joi.string().valid(...Object.values(routingStrategies));
+
+const createModelRoute = {
+  body: Joi.object().keys({
+    dyadModelId: Joi.string().required(),
+    strategy,
+  }),
+};
+
+const getModelRoutes = {
+  query: Joi.object().keys({
+    dyadModelId: Joi.string(),
+    strategy,
+    sortBy: Joi.string(),
+    limit: Joi.number().integer(),
+    page: Joi.number().integer(),
+  }),
+};
+
+const getModelRoute = {
+  params: Joi.object().keys({
+    modelRouteId: Joi.string().custom(objectId),
+  }),
+};
+
+const updateModelRoute = {
+  params: Joi.object().keys({
+    modelRouteId: Joi.required().custom(objectId),
+  }),
+  body: Joi.object()
+    .keys({
+      dyadModelId: Joi.string(),
+      strategy,
+    })
+    .min(1),
+};
+
+const deleteModelRoute = {
+  params: Joi.object().keys({
+    modelRouteId: Joi.string().custom(objectId),
+  }),
+};
+
+const getModelRouteStats = {
+  params: Joi.object().keys({
+    modelRouteId: Joi.string().custom(objectId),
+  }),
+};
+
+module.exports = {
+  createModelRoute,
+  getModelRoutes,
+  getModelRoute,
+  updateModelRoute,
+  deleteModelRoute,
+  getModelRouteStats,
+};
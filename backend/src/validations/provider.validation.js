@@ -0,0 +1,289 @@
+const Joi = require('joi');
+const { objectId, providerType, outputParserType } = require('./custom.validation');
+const { promptFormats, toolResultFormats } = require('../config/prompts');
+const { sandboxTypes, networkModes, containerEngines, pullPolicies } = require('../config/sandbox');
+const { requiredAdapterKeys } = require('../config/providers');
+
+const modelMapping = Joi.object().keys({
+  dyadModelId: Joi.string().required(),
+  adapterModelId: Joi.string().required(),
+  maxTokens: Joi.number().integer().min(1),
+  contextWindow: Joi.number().integer().min(1),
+  weight: Joi.number().min(0),
+  fallbacks: Joi.array().items(
+    Joi.object().keys({
+      provider: Joi.string().required(),
+      model: Joi.string(),
+    })
+  ),
+});
+
+const promptConfig = Joi.object().keys({
+  format: Joi.string().valid(...Object.values(promptFormats)),
+  blocks: Joi.object().keys({
+    default: Joi.string().allow(''),
+    system: Joi.string().allow(''),
+    user: Joi.string().allow(''),
+    assistant: Joi.string().allow(''),
+    tool: Joi.string().allow(''),
+  }),
+  prefix: Joi.string().allow(''),
+  separator: Joi.string().allow(''),
+  suffix: Joi.string().allow(''),
+  maxMessages: Joi.number().integer().min(1),
+  maxChars: Joi.number().integer().min(1),
+  toolResults: Joi.string().valid(...Object.values(toolResultFormats)),
+});
+
+const usagePaths = Joi.object().keys({
+  prompt_tokens: Joi.string(),
+  completion_tokens: Joi.string(),
+  total_tokens: Joi.string(),
+});
+
+// parsers may take options of their own, so unknown keys are allowed
+const outputConfig = Joi.object()
+  .keys({
+    parser: Joi.string().custom(outputParserType),
+    content: Joi.string().when('parser', { is: Joi.valid('json', 'jsonl'), then: Joi.required() }),
+    usage: usagePaths,
+    usagePatterns: usagePaths,
+    filter: Joi.object().keys({ path: Joi.string().required(), value: Joi.any() }),
+    skipLines: Joi.array().items(Joi.string()),
+    start: Joi.string(),
+    end: Joi.string(),
+    pattern: Joi.string(),
+    flags: Joi.string().pattern(/^[gimsuy]*$/),
+  })
+  .unknown();
+
+const poolConfig = Joi.object().keys({
+  size: Joi.number().integer().min(1).max(32),
+  maxRequests: Joi.number().integer().min(1),
+  requestDelimiter: Joi.string(),
+  responseDelimiter: Joi.string(),
+  readyMarker: Joi.string(),
+  startupTimeoutSeconds: Joi.number().positive(),
+});
+
+const ptyConfig = Joi.object().keys({
+  columns: Joi.number().integer().min(20).max(1000),
+  rows: Joi.number().integer().min(5).max(1000),
+  expect: Joi.array().items(
+    Joi.object().keys({
+      pattern: Joi.string().required(),
+      send: Joi.string().allow('').required(),
+    })
+  ),
+});
+
+const workspaceConfig = Joi.object().keys({
+  template: Joi.string(),
+  quotaMb: Joi.number().positive(),
+  returnContent: Joi.boolean(),
+  maxReturnedMb: Joi.number().min(0),
+});
+
+const sandboxConfig = Joi.object().keys({
+  type: Joi.string().valid(...Object.values(sandboxTypes)),
+  cpuSeconds: Joi.number().integer().min(1),
+  image: Joi.string(),
+  engine: Joi.string().valid(...Object.values(containerEngines)),
+  pullPolicy: Joi.string().valid(...Object.values(pullPolicies)),
+  cpus: Joi.number().positive(),
+  readOnly: Joi.boolean(),
+  tmpfsMb: Joi.number().integer().min(1),
+  memoryMb: Joi.number().integer().min(16),
+  fileSizeMb: Joi.number().positive(),
+  maxProcesses: Joi.number().integer().min(1),
+  uid: Joi.number().integer().min(0),
+  gid: Joi.number().integer().min(0),
+  network: Joi.string()
+    .valid(...Object.values(networkModes))
+    .when('type', { is: sandboxTypes.LOCAL, then: Joi.invalid(networkModes.BRIDGE) }),
+  env: Joi.object().keys({
+    allow: Joi.array().items(Joi.string()),
+    set: Joi.object().pattern(Joi.string(), Joi.string()),
+  }),
+});
+
+const retryPolicy = Joi.object().keys({
+  maxRetries: Joi.number().integer().min(0).max(10),
+  initialDelayMs: Joi.number().integer().min(0),
+  maxDelayMs: Joi.number().integer().min(0),
+  multiplier: Joi.number().min(1),
+  jitter: Joi.boolean(),
+  retryableExitCodes: Joi.array().items(Joi.number().integer().min(1).max(255)),
+});
+
+const adapterConfig = Joi.object()
+  .keys({
+    prompt: promptConfig,
+    output: outputConfig,
+    // pooled processes talk over pipes and outlive the requests, so they run neither under a PTY, in a workspace nor in
+    // a sandbox
+    pool: poolConfig
+      .when('usePty', { is: true, then: Joi.forbidden() })
+      .when('workspace', { is: Joi.exist(), then: Joi.forbidden() })
+      .when('sandbox', { is: Joi.exist(), then: Joi.forbidden() })
+      .when('dockerSandbox', { is: true, then: Joi.forbidden() }),
+    usePty: Joi.boolean(),
+    pty: ptyConfig,
+    workspace: workspaceConfig,
+    // with the dockerSandbox short form, sandbox only holds the limits of the container
+    sandbox: sandboxConfig.when('dockerSandbox', {
+      is: true,
+      then: Joi.object({ type: Joi.invalid(sandboxTypes.LOCAL) }),
+      otherwise: Joi.object({
+        type: Joi.required(),
+        image: Joi.when('type', { is: sandboxTypes.DOCKER, then: Joi.required() }),
+      }),
+    }),
+    dockerSandbox: Joi.boolean(),
+    sandboxImage: Joi.string().when('dockerSandbox', { is: true, then: Joi.required() }),
+  })
+  .unknown();
+
+// an update without the type is checked against the stored type by the provider service
+const adapterConfigOfType = adapterConfig.when('type', {
+  switch: Object.entries(requiredAdapterKeys).map(([type, keys]) => ({
+    is: type,
+    then: Joi.object(keys.reduce((required, key) => ({ ...required, [key]: Joi.required() }), {})).required(),
+  })),
+});
+
+const createProvider = {
+  body: Joi.object().keys({
+    name: Joi.string().required(),
+    slug: Joi.string()
+      .required()
+      .pattern(/^[a-z0-9][a-z0-9-]*$/),
+    type: Joi.string().required().custom(providerType),
+    description: Joi.string().allow(''),
+    enabled: Joi.boolean(),
+    models: Joi.array().items(modelMapping),
+    adapterConfig: adapterConfigOfType,
+    credentials: Joi.object(),
+    retryPolicy,
+  }),
+};
+
+const getProviders = {
+  query: Joi.object().keys({
+    name: Joi.string(),
+    type: Joi.string().custom(providerType),
+    enabled: Joi.boolean(),
+    sortBy: Joi.string(),
+    limit: Joi.number().integer(),
+    page: Joi.number().integer(),
+  }),
+};
+
+const getProvider = {
+  params: Joi.object().keys({
+    providerId: Joi.string().custom(objectId),
+  }),
+};
+
+const updateProvider = {
+  params: Joi.object().keys({
+    providerId: Joi.required().custom(objectId),
+  }),
+  body: Joi.object()
+    .keys({
+      name: Joi.string(),
+      slug: Joi.string().pattern(/^[a-z0-9][a-z0-9-]*$/),
+      type: Joi.string().custom(providerType),
+      description: Joi.string().allow(''),
+      enabled: Joi.boolean(),
+      models: Joi.array().items(modelMapping),
+      adapterConfig: adapterConfigOfType,
+      credentials: Joi.object(),
+      retryPolicy,
+    })
+    .min(1),
+};
+
+const deleteProvider = {
+  params: Joi.object().keys({
+    providerId: Joi.string().custom(objectId),
+  }),
+};
+
+const getRemoteModels = {
+  params: Joi.object().keys({
+    providerId: Joi.string().custom(objectId),
+  }),
+};
+
+const importModels = {
+  params: Joi.object().keys({
+    providerId: Joi.string().custom(objectId),
+  }),
+  body: Joi.object().keys({
+    models: Joi.array().items(Joi.string()).min(1),
+  }),
+};
+
+const previewPrompt = {
+  params: Joi.object().keys({
+    providerId: Joi.string().custom(objectId),
+  }),
+  body: Joi.object().keys({
+    messages: Joi.array()
+      .items(Joi.object().keys({ role: Joi.string().required() }).unknown())
+      .min(1)
+      .required(),
+    prompt: promptConfig,
+  }),
+};
+
+const getPoolStats = {
+  params: Joi.object().keys({
+    providerId: Joi.string().custom(objectId),
+  }),
+};
+
+const getCircuit = {
+  params: Joi.object().keys({
+    providerId: Joi.string().custom(objectId),
+  }),
+};
+
+const resetCircuit = {
+  params: Joi.object().keys({
+    providerId: Joi.string().custom(objectId),
+  }),
+};
+
+const getProvidersHealth = {
+  query: Joi.object().keys({
+    since: Joi.date(),
+  }),
+};
+
+const getHealth = {
+  params: Joi.object().keys({
+    providerId: Joi.string().custom(objectId),
+  }),
+  query: Joi.object().keys({
+    since: Joi.date(),
+    limit: Joi.number().integer().min(1),
+  }),
+};
+
+module.exports = {
+  createProvider,
+  getProviders,
+  getProvider,
+  updateProvider,
+  deleteProvider,
+  getRemoteModels,
+  importModels,
+  previewPrompt,
+  getPoolStats,
+  getCircuit,
+  resetCircuit,
+  getProvidersHealth,
+  getHealth,
+};
@@ -0,0 +1,33 @@
+const Workspace = require('./workspace');
+
+/**
+ * Read the files attached to the messages as OpenAI file content parts:
+ * { type: 'file', file: { filename, file_data } }, where file_data is a base64 data URL or plain base64
+ * @param {Object[]} messages
+ * @returns {{ path: string, data: Buffer }[]}
+ */
+const attachedFiles = (messages) =>
+  []
+    .concat(...messages.map((message) => (Array.isArray(message.content) ? message.content : [])))
+    .filter((part) => part.type === 'file' && part.file && part.file.filename && part.file.file_data)
+    .map(({ file }) => ({
+      path: file.filename,
+      data: Buffer.from(file.file_data.replace(/^data:[^,]*;base64,/, ''), 'base64'),
+    }));
+
+/**
+ * Create the workspace of a request to a spawn-cli provider
+ * @param {Object} workspaceConfig - the `workspace` of the provider's adapterConfig:
+ *   { template, quotaMb, returnContent, maxReturnedMb } (see Workspace)
+ * @param {Object[]} messages - their attached files are written into the workspace
+ * @param {{ uid: number, gid: number }} [owner] - the user the CLI runs as, when it is not the gateway user
+ * @returns {Promise<Workspace>}
+ */
+const createWorkspace = (workspaceConfig, messages, owner) =>
+  Workspace.create({ ...workspaceConfig, files: attachedFiles(messages), owner });
+
+module.exports = {
+  Workspace,
+  attachedFiles,
+  createWorkspace,
+};
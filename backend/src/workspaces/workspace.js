@@ -0,0 +1,296 @@
+/* eslint-disable security/detect-non-literal-fs-filename */
+// every path is resolved inside the workspace directory (see resolve)
+const crypto = require('crypto');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { AbortController } = require('abort-controller');
+const httpStatus = require('http-status');
+const ApiError = require('../utils/ApiError');
+const AdapterError = require('../utils/AdapterError');
+const config = require('../config/config');
+const { adapterErrorCodes } = require('../config/adapters');
+
+const DEFAULT_QUOTA_MB = 100;
+const DEFAULT_MAX_RETURNED_MB = 5;
+const QUOTA_CHECK_INTERVAL_MS = 500;
+
+/**
+ * A temporary directory a CLI runs in for a single request
+ * It is seeded with a template directory and the files attached to the request, watched so it stays within its disk
+ * quota, compared with its seeded state once the CLI exited, then removed.
+ */
+class Workspace {
+  /**
+   * @param {string} dir
+   * @param {Object} [options]
+   * @param {number} [options.quotaMb] - the CLI is killed when the workspace grows bigger
+   * @param {boolean} [options.returnContent] - return the content of the changed files, not only their metadata
+   * @param {number} [options.maxReturnedMb] - the content of the changed files is returned up to this size
+   */
+  constructor(dir, { quotaMb = DEFAULT_QUOTA_MB, returnContent = true, maxReturnedMb = DEFAULT_MAX_RETURNED_MB } = {}) {
+    this.dir = dir;
+    this.quotaBytes = quotaMb * 1024 * 1024;
+    this.returnContent = returnContent;
+    this.maxReturnedBytes = maxReturnedMb * 1024 * 1024;
+    this.snapshot = new Map();
+  }
+
+  /**
+   * Create a workspace in the workspaces directory and seed it
+   * @param {Object} [options] - see constructor, plus:
+   * @param {string} [options.template] - directory copied into the workspace
+   * @param {{ path: string, data: Buffer }[]} [options.files] - files written into the workspace
+   * @param {{ uid: number, gid: number }} [options.owner] - user given the workspace once seeded
+   * @returns {Promise<Workspace>}
+   */
+  static async create({ template, files = [], owner, ...options } = {}) {
+    const root = config.gateway.workspacesDir || os.tmpdir();
+    const workspace = new Workspace(await fs.promises.mkdtemp(path.join(root, 'workspace-')), options);
+    try {
+      if (template) {
+        await workspace.copyTemplate(template);
+      }
+      await Promise.all(files.map((file) => workspace.writeFile(file.path, file.data)));
+      workspace.snapshot = await workspace.hashFiles();
+      if ((await workspace.size()) > workspace.quotaBytes) {
+        throw workspace.quotaError();
+      }
+      if (owner) {
+        await workspace.chown(owner);
+      }
+    } catch (error) {
+      await workspace.remove();
+      throw error;
+    }
+    return workspace;
+  }
+
+  /**
+   * Run a task in the workspace, aborting it if the workspace outgrows its quota
+   * @param {function(AbortSignal): Promise} task - called with a signal aborted on quota overrun or when signal aborts
+   * @param {AbortSignal} [signal]
+   * @returns {Promise} what the task resolves with
+   */
+  async enforceQuota(task, signal) {
+    const abortController = new AbortController();
+    const onAbort = () => abortController.abort();
+    if (signal) {
+      signal.addEventListener('abort', onAbort);
+    }
+    let exceeded = false;
+    const checkQuota = async () => {
+      exceeded = exceeded || (await this.size()) > this.quotaBytes;
+      return exceeded;
+    };
+    const timer = setInterval(() => {
+      checkQuota()
+        .then((overrun) => overrun && abortController.abort())
+        .catch(() => {});
+    }, QUOTA_CHECK_INTERVAL_MS);
+
+    try {
+      const result = await task(abortController.signal);
+      // the files a fast CLI wrote between two checks count too
+      if (await checkQuota()) {
+        throw this.quotaError();
+      }
+      return result;
+    } catch (error) {
+      throw exceeded ? this.quotaError() : error;
+    } finally {
+      clearInterval(timer);
+      if (signal) {
+        signal.removeEventListener('abort', onAbort);
+      }
+    }
+  }
+
+  /**
+   * Describe the files created, modified and deleted since the workspace was seeded
+   * @returns {Promise<Object[]>} [{ path, status: created|modified|deleted, size?, sha256?, content?, contentOmitted? }]
+   */
+  async changes() {
+    const current = await this.hashFiles();
+    const changes = [];
+    current.forEach((file, filePath) => {
+      const seeded = this.snapshot.get(filePath);
+      if (!seeded || seeded.sha256 !== file.sha256) {
+        changes.push({ path: filePath, status: seeded ? 'modified' : 'created', size: file.size, sha256: file.sha256 });
+      }
+    });
+    this.snapshot.forEach((file, filePath) => {
+      if (!current.has(filePath)) {
+        changes.push({ path: filePath, status: 'deleted' });
+      }
+    });
+    changes.sort((a, b) => (a.path < b.path ? -1 : 1));
+
+    if (!this.returnContent) {
+      return changes;
+    }
+    let returnedBytes = 0;
+    return Promise.all(
+      changes.map(async (change) => {
+        if (change.status === 'deleted') {
+          return change;
+        }
+        returnedBytes += change.size;
+        if (returnedBytes > this.maxReturnedBytes) {
+          return { ...change, contentOmitted: true };
+        }
+        const data = await fs.promises.readFile(this.resolve(change.path));
+        return { ...change, content: data.toString('base64'), encoding: 'base64' };
+      })
+    );
+  }
+
+  /**
+   * Delete the workspace
+   * @returns {Promise}
+   */
+  async remove() {
+    // fs.promises.rm only exists since Node 14.14
+    await fs.promises.rmdir(this.dir, { recursive: true }).catch((error) => {
+      if (error.code !== 'ENOENT') {
+        throw error;
+      }
+    });
+  }
+
+  /**
+   * Total size of the files of the workspace
+   * @returns {Promise<number>} bytes
+   */
+  async size() {
+    const files = await this.listFiles();
+    return files.reduce((total, file) => total + file.size, 0);
+  }
+
+  /**
+   * Resolve a relative path inside the workspace
+   * @param {string} relativePath
+   * @returns {string}
+   */
+  resolve(relativePath) {
+    const resolved = path.resolve(this.dir, relativePath);
+    if (path.isAbsolute(relativePath) || !resolved.startsWith(`${this.dir}${path.sep}`)) {
+      throw new ApiError(httpStatus.BAD_REQUEST, `Invalid workspace file path: ${relativePath}`, true, '', {
+        param: 'messages',
+        code: 'invalid_file_path',
+      });
+    }
+    return resolved;
+  }
+
+  /**
+   * Write a file, creating its directories
+   * @param {string} relativePath
+   * @param {Buffer} data
+   * @returns {Promise}
+   */
+  async writeFile(relativePath, data) {
+    const filePath = this.resolve(relativePath);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(filePath, data);
+  }
+
+  /**
+   * Give a directory of the workspace and everything in it to a user
+   * @param {{ uid: number, gid: number }} owner
+   * @param {string} [relativeDir] - the workspace directory by default
+   * @returns {Promise}
+   */
+  async chown({ uid, gid }, relativeDir = '') {
+    const dir = path.join(this.dir, relativeDir);
+    await fs.promises.chown(dir, uid, gid);
+    const entries = await fs.promises.readdir(dir, { withFileTypes: true });
+    await Promise.all(
+      entries.map((entry) => {
+        const relativePath = path.join(relativeDir, entry.name);
+        if (entry.isDirectory()) {
+          return this.chown({ uid, gid }, relativePath);
+        }
+        return fs.promises.lchown(path.join(this.dir, relativePath), uid, gid);
+      })
+    );
+  }
+
+  /**
+   * Copy the files of a template directory into the workspace
+   * @param {string} template
+   * @returns {Promise}
+   */
+  async copyTemplate(template) {
+    let files;
+    try {
+      files = await this.listFiles(template);
+    } catch (error) {
+      throw new AdapterError(
+        httpStatus.BAD_GATEWAY,
+        adapterErrorCodes.CLI_NOT_CONFIGURED,
+        `Workspace template not readable: ${template}`
+      );
+    }
+    await Promise.all(
+      files.map(async (file) => {
+        const target = this.resolve(file.path);
+        await fs.promises.mkdir(path.dirname(target), { recursive: true });
+        await fs.promises.copyFile(path.join(template, file.path), target);
+      })
+    );
+  }
+
+  /**
+   * List the regular files of a directory tree; symbolic links are never followed, so nothing outside is read
+   * @param {string} [root] - the workspace directory by default
+   * @param {string} [relativeDir]
+   * @returns {Promise<{ path: string, size: number }[]>} paths relative to root, with / separators
+   */
+  async listFiles(root = this.dir, relativeDir = '') {
+    const entries = await fs.promises.readdir(path.join(root, relativeDir), { withFileTypes: true });
+    const lists = await Promise.all(
+      entries.map(async (entry) => {
+        const relativePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+        if (entry.isDirectory()) {
+          return this.listFiles(root, relativePath);
+        }
+        if (!entry.isFile()) {
+          return [];
+        }
+        const stats = await fs.promises.lstat(path.join(root, relativePath));
+        return [{ path: relativePath, size: stats.size }];
+      })
+    );
+    return [].concat(...lists);
+  }
+
+  /**
+   * Hash the files of the workspace
+   * @returns {Promise<Map<string, { size: number, sha256: string }>>} by relative path
+   */
+  async hashFiles() {
+    const files = await this.listFiles();
+    const hashes = await Promise.all(
+      files.map(async (file) => {
+        const data = await fs.promises.readFile(path.join(this.dir, file.path));
+        return [file.path, { size: file.size, sha256: crypto.createHash('sha256').update(data).digest('hex') }];
+      })
+    );
+    return new Map(hashes);
+  }
+
+  /**
+   * Build the error of a workspace which outgrew its quota
+   * @returns {AdapterError}
+   */
+  quotaError() {
+    return new AdapterError(
+      httpStatus.INSUFFICIENT_STORAGE,
+      adapterErrorCodes.WORKSPACE_QUOTA_EXCEEDED,
+      `The workspace exceeded its quota of ${this.quotaBytes / 1024 / 1024} MB`
+    );
+  }
+}
+
+module.exports = Workspace;
@@ -0,0 +1,22 @@
+const BaseAdapter = require('../../../src/adapters/base.adapter');
+
+/**
+ * A custom adapter answering with the last message reversed
+ */
+class ReverseAdapter extends BaseAdapter {
+  static get type() {
+    return 'reverse';
+  }
+
+  static get capabilities() {
+    return { ...super.capabilities, tools: true };
+  }
+
+  // eslint-disable-next-line class-methods-use-this
+  async handleChat({ messages }) {
+    const content = messages[messages.length - 1].content.split('').reverse().join('');
+    return { content, finishReason: 'stop' };
+  }
+}
+
+module.exports = ReverseAdapter;
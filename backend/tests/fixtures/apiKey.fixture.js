@@ -0,0 +1,55 @@
+const mongoose = require('mongoose');
+const ApiKey = require('../../src/models/apiKey.model');
+const { userOne } = require('./user.fixture');
+
+const buildApiKey = (key, apiKey) => ({
+  _id: mongoose.Types.ObjectId(),
+  name: 'Test key',
+  user: userOne._id,
+  prefix: key.slice(0, 11),
+  hashedKey: ApiKey.hashKey(key),
+  ...apiKey,
+});
+
+const chatApiKeyRaw = 'dyad_chatkey0000000000000000000000';
+const chatApiKey = buildApiKey(chatApiKeyRaw, { scopes: ['chat', 'models:read'] });
+
+const embeddingApiKeyRaw = 'dyad_embeddingkey00000000000000000';
+const embeddingApiKey = buildApiKey(embeddingApiKeyRaw, { scopes: ['embeddings'] });
+
+const modelsOnlyApiKeyRaw = 'dyad_modelskey00000000000000000000';
+const modelsOnlyApiKey = buildApiKey(modelsOnlyApiKeyRaw, { scopes: ['models:read'] });
+
+const llamaOnlyApiKeyRaw = 'dyad_llamakey000000000000000000000';
+const llamaOnlyApiKey = buildApiKey(llamaOnlyApiKeyRaw, { scopes: ['chat', 'models:read'], models: ['llama3'] });
+
+const revokedApiKeyRaw = 'dyad_revokedkey0000000000000000000';
+const revokedApiKey = buildApiKey(revokedApiKeyRaw, { revoked: true });
+
+const expiredApiKeyRaw = 'dyad_expiredkey0000000000000000000';
+const expiredApiKey = buildApiKey(expiredApiKeyRaw, { expiresAt: new Date(Date.now() - 60 * 1000) });
+
+const limitedApiKeyRaw = 'dyad_limitedkey0000000000000000000';
+const limitedApiKey = buildApiKey(limitedApiKeyRaw, { rateLimits: { requestsPerMinute: 1 } });
+
+const insertApiKeys = async (apiKeys) => {
+  await ApiKey.insertMany(apiKeys);
+};
+
+module.exports = {
+  chatApiKey,
+  chatApiKeyRaw,
+  embeddingApiKey,
+  embeddingApiKeyRaw,
+  modelsOnlyApiKey,
+  modelsOnlyApiKeyRaw,
+  llamaOnlyApiKey,
+  llamaOnlyApiKeyRaw,
+  revokedApiKey,
+  revokedApiKeyRaw,
+  expiredApiKey,
+  expiredApiKeyRaw,
+  limitedApiKey,
+  limitedApiKeyRaw,
+  insertApiKeys,
+};
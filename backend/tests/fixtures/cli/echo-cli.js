@@ -0,0 +1,82 @@
+#!/usr/bin/env node
+/* eslint-disable no-console */
+
+/**
+ * A fake CLI agent used to exercise the spawn-cli adapter
+ * It echoes its stdin back on stdout; flags change its behaviour:
+ *  --exit <code>     exit with this code after echoing
+ *  --fail-first <path> exit with the --exit code only if this file does not exist yet, and create it (to test retries)
+ *  --stderr <text>   write this text to stderr
+ *  --sleep <ms>      wait before answering
+ *  --spawn-child     start a long-lived child process (to test process tree kills)
+ *  --pid-file <path> write the pids of this process and its child to this file
+ *  --cat <path>      print the content of this file before echoing
+ *  --write <path>    write stdin to this file too
+ *  --delete <path>   delete this file
+ *  --fill <bytes>    write a file of this size, then wait (to test workspace quotas)
+ */
+
+// eslint-disable-next-line security/detect-child-process
+const childProcess = require('child_process');
+const fs = require('fs');
+
+const args = process.argv.slice(2);
+const getFlag = (name) => {
+  const index = args.indexOf(name);
+  return index === -1 ? undefined : args[index + 1] || true;
+};
+
+const failFirst = getFlag('--fail-first');
+// eslint-disable-next-line security/detect-non-literal-fs-filename
+const exitCode = failFirst && fs.existsSync(failFirst) ? 0 : parseInt(getFlag('--exit') || '0', 10);
+const sleepMs = parseInt(getFlag('--sleep') || '0', 10);
+const stderr = getFlag('--stderr');
+const pidFile = getFlag('--pid-file');
+const catFile = getFlag('--cat');
+const writeFile = getFlag('--write');
+const deleteFile = getFlag('--delete');
+const fillBytes = parseInt(getFlag('--fill') || '0', 10);
+
+const pids = [process.pid];
+if (getFlag('--spawn-child')) {
+  const child = childProcess.spawn(process.execPath, ['-e', 'setInterval(() => {}, 1000)'], { stdio: 'ignore' });
+  child.unref();
+  pids.push(child.pid);
+}
+if (failFirst) {
+  // eslint-disable-next-line security/detect-non-literal-fs-filename
+  fs.writeFileSync(failFirst, '');
+}
+if (pidFile) {
+  // eslint-disable-next-line security/detect-non-literal-fs-filename
+  fs.writeFileSync(pidFile, pids.join('\n'));
+}
+
+if (fillBytes) {
+  fs.writeFileSync('fill.bin', Buffer.alloc(fillBytes));
+  setInterval(() => {}, 1000);
+}
+if (deleteFile) {
+  // eslint-disable-next-line security/detect-non-literal-fs-filename
+  fs.unlinkSync(deleteFile);
+}
+
+const chunks = [];
+process.stdin.on('data', (chunk) => chunks.push(chunk));
+process.stdin.on('end', () => {
+  setTimeout(() => {
+    if (stderr) {
+      console.error(stderr);
+    }
+    if (catFile) {
+      // eslint-disable-next-line security/detect-non-literal-fs-filename
+      process.stdout.write(fs.readFileSync(catFile));
+    }
+    if (writeFile) {
+      // eslint-disable-next-line security/detect-non-literal-fs-filename
+      fs.writeFileSync(writeFile, Buffer.concat(chunks));
+    }
+    process.stdout.write(Buffer.concat(chunks));
+    process.exitCode = exitCode;
+  }, sleepMs);
+});
@@ -0,0 +1,59 @@
+#!/usr/bin/env node
+
+/**
+ * A fake interactive CLI agent used to exercise the process pool
+ * It reads prompts from stdin separated by the delimiter, and answers each one with "<pid>: <prompt>" followed by the
+ * delimiter, in two pieces; flags change its behaviour:
+ *  --delimiter <text>  delimiter of the prompts and answers (defaults to the pool's)
+ *  --banner <text>     print this text on start (the ready marker), after a slow start
+ *  --crash-on <text>   exit with code 1 when a prompt contains this text
+ *  --hang-on <text>    never answer a prompt containing this text
+ */
+
+const args = process.argv.slice(2);
+const getFlag = (name) => {
+  const index = args.indexOf(name);
+  return index === -1 ? undefined : args[index + 1];
+};
+
+const delimiter = getFlag('--delimiter') || '\n<<<END>>>\n';
+const banner = getFlag('--banner');
+const crashOn = getFlag('--crash-on');
+const hangOn = getFlag('--hang-on');
+
+const answer = (prompt) => {
+  if (crashOn && prompt.includes(crashOn)) {
+    process.stderr.write('fatal: crashed on purpose\n');
+    process.exit(1);
+  }
+  if (hangOn && prompt.includes(hangOn)) {
+    return;
+  }
+  const text = `${process.pid}: ${prompt}`;
+  process.stdout.write(text.slice(0, 3));
+  setTimeout(() => process.stdout.write(`${text.slice(3)}${delimiter}`), 10);
+};
+
+const start = () => {
+  let buffer = '';
+  process.stdin.setEncoding('utf8');
+  process.stdin.on('data', (chunk) => {
+    buffer += chunk;
+    let index = buffer.indexOf(delimiter);
+    while (index !== -1) {
+      answer(buffer.slice(0, index));
+      buffer = buffer.slice(index + delimiter.length);
+      index = buffer.indexOf(delimiter);
+    }
+  });
+};
+
+if (banner) {
+  process.stdout.write('Loading model...\n');
+  setTimeout(() => {
+    process.stdout.write(`${banner}\n`);
+    start();
+  }, 100);
+} else {
+  start();
+}
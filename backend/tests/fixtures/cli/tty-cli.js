@@ -0,0 +1,40 @@
+#!/usr/bin/env node
+
+/**
+ * A fake CLI agent which refuses to run without a terminal, used to exercise the spawn-cli adapter under a PTY
+ * It prints the size of its terminal, asks "Continue? [y/N]", then shows a "> " prompt and echoes what it reads until
+ * the end of the input; flags change its behaviour:
+ *  --exit <code>  exit with this code after echoing
+ */
+
+const args = process.argv.slice(2);
+const exitIndex = args.indexOf('--exit');
+const exitCode = exitIndex === -1 ? 0 : parseInt(args[exitIndex + 1], 10);
+
+if (!process.stdin.isTTY || !process.stdout.isTTY) {
+  process.stderr.write('Error: stdin is not a terminal\n');
+  process.exit(1);
+}
+
+process.stdout.write(`\u001b[1mterminal ${process.stdout.columns}x${process.stdout.rows}\u001b[0m\n`);
+process.stdout.write('Continue? [y/N] ');
+
+let confirmed = false;
+const chunks = [];
+process.stdin.setEncoding('utf8');
+process.stdin.on('data', (chunk) => {
+  if (confirmed) {
+    chunks.push(chunk);
+    return;
+  }
+  if (chunk.trim() !== 'y') {
+    process.stdout.write('Aborted\n');
+    process.exit(2);
+  }
+  confirmed = true;
+  process.stdout.write('> ');
+});
+process.stdin.on('end', () => {
+  process.stdout.write(`\n${chunks.join('')}`);
+  process.exitCode = exitCode;
+});
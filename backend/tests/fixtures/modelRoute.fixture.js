@@ -0,0 +1,24 @@
+const mongoose = require('mongoose');
+const ModelRoute = require('../../src/models/modelRoute.model');
+
+const echoRoute = {
+  _id: mongoose.Types.ObjectId(),
+  dyadModelId: 'cli-echo',
+  strategy: 'round-robin',
+};
+
+const llamaRoute = {
+  _id: mongoose.Types.ObjectId(),
+  dyadModelId: 'llama3',
+  strategy: 'lowest-latency',
+};
+
+const insertModelRoutes = async (modelRoutes) => {
+  await ModelRoute.insertMany(modelRoutes);
+};
+
+module.exports = {
+  echoRoute,
+  llamaRoute,
+  insertModelRoutes,
+};
@@ -0,0 +1,144 @@
+const path = require('path');
+const mongoose = require('mongoose');
+const Provider = require('../../src/models/provider.model');
+
+const echoCliPath = path.join(__dirname, 'cli', 'echo-cli.js');
+const replCliPath = path.join(__dirname, 'cli', 'repl-cli.js');
+const ttyCliPath = path.join(__dirname, 'cli', 'tty-cli.js');
+
+const echoProvider = {
+  _id: mongoose.Types.ObjectId(),
+  name: 'Echo CLI',
+  slug: 'echo-cli',
+  type: 'spawn-cli',
+  enabled: true,
+  models: [{ dyadModelId: 'cli-echo', adapterModelId: 'echo' }],
+  adapterConfig: {
+    command: process.execPath,
+    args: [echoCliPath],
+  },
+};
+
+// serves the same model as the echo provider, to share its requests
+const twinEchoProvider = {
+  _id: mongoose.Types.ObjectId(),
+  name: 'Twin echo CLI',
+  slug: 'twin-echo-cli',
+  type: 'spawn-cli',
+  enabled: true,
+  models: [{ dyadModelId: 'cli-echo', adapterModelId: 'echo' }],
+  adapterConfig: {
+    command: process.execPath,
+    args: [echoCliPath],
+  },
+};
+
+const disabledProvider = {
+  _id: mongoose.Types.ObjectId(),
+  name: 'Disabled CLI',
+  slug: 'disabled-cli',
+  type: 'spawn-cli',
+  enabled: false,
+  models: [{ dyadModelId: 'cli-disabled', adapterModelId: 'disabled' }],
+  adapterConfig: {
+    command: process.execPath,
+    args: [echoCliPath],
+  },
+};
+
+const ollamaProvider = {
+  _id: mongoose.Types.ObjectId(),
+  name: 'Ollama',
+  slug: 'ollama',
+  type: 'local',
+  enabled: true,
+  models: [{ dyadModelId: 'llama3', adapterModelId: 'llama3:8b', contextWindow: 8192 }],
+  adapterConfig: {
+    baseUrl: 'http://127.0.0.1:11434',
+  },
+  credentials: { apiKey: 'ollama-secret' },
+};
+
+const proxyProvider = {
+  _id: mongoose.Types.ObjectId(),
+  name: 'Internal proxy',
+  slug: 'internal-proxy',
+  type: 'proxy',
+  enabled: true,
+  models: [{ dyadModelId: 'proxied', adapterModelId: 'upstream-model' }],
+  adapterConfig: {
+    baseUrl: 'http://127.0.0.1:8080/v1',
+  },
+  credentials: { apiKey: 'proxy-secret' },
+};
+
+const pooledProvider = {
+  _id: mongoose.Types.ObjectId(),
+  name: 'Pooled REPL',
+  slug: 'pooled-repl',
+  type: 'spawn-cli',
+  enabled: true,
+  models: [{ dyadModelId: 'cli-repl', adapterModelId: 'repl' }],
+  adapterConfig: {
+    command: process.execPath,
+    args: [replCliPath, '--banner', 'READY'],
+    prompt: { format: 'last-user' },
+    pool: { size: 1, maxRequests: 10, readyMarker: 'READY' },
+  },
+};
+
+const workspaceProvider = {
+  _id: mongoose.Types.ObjectId(),
+  name: 'Workspace CLI',
+  slug: 'workspace-cli',
+  type: 'spawn-cli',
+  enabled: true,
+  models: [{ dyadModelId: 'cli-workspace', adapterModelId: 'workspace' }],
+  adapterConfig: {
+    command: process.execPath,
+    args: [echoCliPath, '--cat', 'notes.txt', '--write', 'answer.txt'],
+    prompt: { format: 'last-user' },
+    workspace: { quotaMb: 1 },
+  },
+};
+
+// fails without output, then falls back to the disabled provider (skipped) and to the echo provider
+const failingProvider = {
+  _id: mongoose.Types.ObjectId(),
+  name: 'Failing CLI',
+  slug: 'failing-cli',
+  type: 'spawn-cli',
+  enabled: true,
+  models: [
+    {
+      dyadModelId: 'cli-failing',
+      adapterModelId: 'failing',
+      fallbacks: [
+        { provider: 'disabled-cli', model: 'cli-disabled' },
+        { provider: 'echo-cli', model: 'cli-echo' },
+      ],
+    },
+  ],
+  adapterConfig: {
+    command: '/nonexistent/failing-cli',
+  },
+};
+
+const insertProviders = async (providers) => {
+  await Provider.insertMany(providers);
+};
+
+module.exports = {
+  echoCliPath,
+  replCliPath,
+  ttyCliPath,
+  echoProvider,
+  twinEchoProvider,
+  disabledProvider,
+  ollamaProvider,
+  proxyProvider,
+  pooledProvider,
+  workspaceProvider,
+  failingProvider,
+  insertProviders,
+};
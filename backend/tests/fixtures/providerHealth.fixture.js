@@ -0,0 +1,35 @@
+const mongoose = require('mongoose');
+const ProviderHealth = require('../../src/models/providerHealth.model');
+const { echoProvider } = require('./provider.fixture');
+
+const minutesAgo = (minutes) => new Date(Date.now() - minutes * 60 * 1000);
+
+const buildCheck = (minutes, check) => ({
+  _id: mongoose.Types.ObjectId(),
+  provider: echoProvider._id,
+  ok: true,
+  latencyMs: 100,
+  checkedAt: minutesAgo(minutes),
+  ...check,
+});
+
+// three successful checks, then a failed one
+const echoChecks = [
+  buildCheck(4, { latencyMs: 300 }),
+  buildCheck(3, { latencyMs: 100 }),
+  buildCheck(2, { latencyMs: 200 }),
+  buildCheck(1, { ok: false, latencyMs: 30000, message: 'Health check timed out after 30 seconds' }),
+];
+
+// older than the default period of 24 hours
+const staleEchoCheck = buildCheck(2 * 24 * 60, { latencyMs: 5000 });
+
+const insertProviderChecks = async (checks) => {
+  await ProviderHealth.insertMany(checks);
+};
+
+module.exports = {
+  echoChecks,
+  staleEchoCheck,
+  insertProviderChecks,
+};
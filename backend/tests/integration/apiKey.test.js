@@ -0,0 +1,269 @@
+const request = require('supertest');
+const httpStatus = require('http-status');
+const app = require('../../src/app');
+const setupTestDB = require('../utils/setupTestDB');
+const { ApiKey } = require('../../src/models');
+const { userOne, admin, insertUsers } = require('../fixtures/user.fixture');
+const { userOneAccessToken, adminAccessToken } = require('../fixtures/token.fixture');
+const { chatApiKey, chatApiKeyRaw, revokedApiKey, insertApiKeys } = require('../fixtures/apiKey.fixture');
+
+setupTestDB();
+
+describe('API key routes', () => {
+  describe('POST /v1/admin/api-keys', () => {
+    let newApiKey;
+
+    beforeEach(() => {
+      newApiKey = {
+        name: 'Dyad desktop',
+        scopes: ['chat', 'models:read'],
+        models: ['cli-echo'],
+      };
+    });
+
+    test('should return 201 and the raw key once if data is ok', async () => {
+      await insertUsers([admin]);
+
+      const res = await request(app)
+        .post('/v1/admin/api-keys')
+        .set('Authorization', `Bearer ${adminAccessToken}`)
+        .send(newApiKey)
+        .expect(httpStatus.CREATED);
+
+      expect(res.body).not.toHaveProperty('hashedKey');
+      expect(res.body).toEqual({
+        id: expect.anything(),
+        name: newApiKey.name,
+        prefix: expect.any(String),
+        user: admin._id.toHexString(),
+        scopes: newApiKey.scopes,
+        models: newApiKey.models,
+        revoked: false,
+        key: expect.stringMatching(/^dyad_/),
+      });
+      expect(res.body.key.startsWith(res.body.prefix)).toBe(true);
+
+      const dbApiKey = await ApiKey.findById(res.body.id);
+      expect(dbApiKey).toBeDefined();
+      expect(dbApiKey.hashedKey).not.toBe(res.body.key);
+      expect(dbApiKey.hashedKey).toBe(ApiKey.hashKey(res.body.key));
+
+      const getRes = await request(app)
+        .get(`/v1/admin/api-keys/${res.body.id}`)
+        .set('Authorization', `Bearer ${adminAccessToken}`)
+        .send()
+        .expect(httpStatus.OK);
+      expect(getRes.body).not.toHaveProperty('key');
+    });
+
+    test('should create the key for another user if user is specified', async () => {
+      await insertUsers([admin, userOne]);
+      newApiKey.user = userOne._id.toHexString();
+
+      const res = await request(app)
+        .post('/v1/admin/api-keys')
+        .set('Authorization', `Bearer ${adminAccessToken}`)
+        .send(newApiKey)
+        .expect(httpStatus.CREATED);
+
+      expect(res.body.user).toBe(userOne._id.toHexString());
+    });
+
+    test('should grant every scope if scopes are not specified', async () => {
+      await insertUsers([admin]);
+      delete newApiKey.scopes;
+
+      const res = await request(app)
+        .post('/v1/admin/api-keys')
+        .set('Authorization', `Bearer ${adminAccessToken}`)
+        .send(newApiKey)
+        .expect(httpStatus.CREATED);
+
+      expect(res.body.scopes).toEqual(['chat', 'embeddings', 'models:read']);
+    });
+
+    test('should return 401 error if access token is missing', async () => {
+      await request(app).post('/v1/admin/api-keys').send(newApiKey).expect(httpStatus.UNAUTHORIZED);
+    });
+
+    test('should return 403 error if logged in user is not admin', async () => {
+      await insertUsers([userOne]);
+
+      await request(app)
+        .post('/v1/admin/api-keys')
+        .set('Authorization', `Bearer ${userOneAccessToken}`)
+        .send(newApiKey)
+        .expect(httpStatus.FORBIDDEN);
+    });
+
+    test('should return 400 error if a scope is unknown', async () => {
+      await insertUsers([admin]);
+      newApiKey.scopes = ['admin'];
+
+      await request(app)
+        .post('/v1/admin/api-keys')
+        .set('Authorization', `Bearer ${adminAccessToken}`)
+        .send(newApiKey)
+        .expect(httpStatus.BAD_REQUEST);
+    });
+
+    test('should return 400 error if expiresAt is in the past', async () => {
+      await insertUsers([admin]);
+      newApiKey.expiresAt = new Date(Date.now() - 60 * 1000).toISOString();
+
+      await request(app)
+        .post('/v1/admin/api-keys')
+        .set('Authorization', `Bearer ${adminAccessToken}`)
+        .send(newApiKey)
+        .expect(httpStatus.BAD_REQUEST);
+    });
+  });
+
+  describe('GET /v1/admin/api-keys', () => {
+    test('should return 200 and the API keys without their hash', async () => {
+      await insertUsers([admin, userOne]);
+      await insertApiKeys([chatApiKey, revokedApiKey]);
+
+      const res = await request(app)
+        .get('/v1/admin/api-keys')
+        .set('Authorization', `Bearer ${adminAccessToken}`)
+        .send()
+        .expect(httpStatus.OK);
+
+      expect(res.body).toEqual({
+        results: expect.any(Array),
+        page: 1,
+        limit: 10,
+        totalPages: 1,
+        totalResults: 2,
+      });
+      expect(res.body.results[0]).not.toHaveProperty('hashedKey');
+      expect(res.body.results[0]).not.toHaveProperty('key');
+    });
+
+    test('should correctly apply filter on revoked field', async () => {
+      await insertUsers([admin, userOne]);
+      await insertApiKeys([chatApiKey, revokedApiKey]);
+
+      const res = await request(app)
+        .get('/v1/admin/api-keys')
+        .set('Authorization', `Bearer ${adminAccessToken}`)
+        .query({ revoked: true })
+        .send()
+        .expect(httpStatus.OK);
+
+      expect(res.body.results).toHaveLength(1);
+      expect(res.body.results[0].id).toBe(revokedApiKey._id.toHexString());
+    });
+
+    test('should return 403 if a non-admin is trying to access all API keys', async () => {
+      await insertUsers([userOne]);
+
+      await request(app)
+        .get('/v1/admin/api-keys')
+        .set('Authorization', `Bearer ${userOneAccessToken}`)
+        .send()
+        .expect(httpStatus.FORBIDDEN);
+    });
+  });
+
+  describe('GET /v1/admin/api-keys/:apiKeyId', () => {
+    test('should return 404 error if API key is not found', async () => {
+      await insertUsers([admin]);
+
+      await request(app)
+        .get(`/v1/admin/api-keys/${chatApiKey._id}`)
+        .set('Authorization', `Bearer ${adminAccessToken}`)
+        .send()
+        .expect(httpStatus.NOT_FOUND);
+    });
+
+    test('should return 400 error if apiKeyId is not a valid mongo id', async () => {
+      await insertUsers([admin]);
+
+      await request(app)
+        .get('/v1/admin/api-keys/invalidId')
+        .set('Authorization', `Bearer ${adminAccessToken}`)
+        .send()
+        .expect(httpStatus.BAD_REQUEST);
+    });
+  });
+
+  describe('POST /v1/admin/api-keys/:apiKeyId/revoke', () => {
+    test('should return 200 and revoke the API key', async () => {
+      await insertUsers([admin, userOne]);
+      await insertApiKeys([chatApiKey]);
+
+      const res = await request(app)
+        .post(`/v1/admin/api-keys/${chatApiKey._id}/revoke`)
+        .set('Authorization', `Bearer ${adminAccessToken}`)
+        .send()
+        .expect(httpStatus.OK);
+
+      expect(res.body.revoked).toBe(true);
+
+      await request(app).get('/v1/models').set('Authorization', `Bearer ${chatApiKeyRaw}`).expect(httpStatus.UNAUTHORIZED);
+    });
+
+    test('should return 403 error if user is not admin', async () => {
+      await insertUsers([userOne]);
+      await insertApiKeys([chatApiKey]);
+
+      await request(app)
+        .post(`/v1/admin/api-keys/${chatApiKey._id}/revoke`)
+        .set('Authorization', `Bearer ${userOneAccessToken}`)
+        .send()
+        .expect(httpStatus.FORBIDDEN);
+    });
+
+    test('should return 404 error if API key is not found', async () => {
+      await insertUsers([admin]);
+
+      await request(app)
+        .post(`/v1/admin/api-keys/${chatApiKey._id}/revoke`)
+        .set('Authorization', `Bearer ${adminAccessToken}`)
+        .send()
+        .expect(httpStatus.NOT_FOUND);
+    });
+  });
+
+  describe('POST /v1/admin/api-keys/:apiKeyId/rotate', () => {
+    test('should return 200 and a new raw key that replaces the previous one', async () => {
+      await insertUsers([admin, userOne]);
+      await insertApiKeys([chatApiKey]);
+
+      const res = await request(app)
+        .post(`/v1/admin/api-keys/${chatApiKey._id}/rotate`)
+        .set('Authorization', `Bearer ${adminAccessToken}`)
+        .send()
+        .expect(httpStatus.OK);
+
+      expect(res.body.key).toMatch(/^dyad_/);
+      expect(res.body.key).not.toBe(chatApiKeyRaw);
+
+      await request(app).get('/v1/models').set('Authorization', `Bearer ${chatApiKeyRaw}`).expect(httpStatus.UNAUTHORIZED);
+      await request(app).get('/v1/models').set('Authorization', `Bearer ${res.body.key}`).expect(httpStatus.OK);
+    });
+
+    test('should return 400 error if API key is revoked', async () => {
+      await insertUsers([admin, userOne]);
+      await insertApiKeys([revokedApiKey]);
+
+      await request(app)
+        .post(`/v1/admin/api-keys/${revokedApiKey._id}/rotate`)
+        .set('Authorization', `Bearer ${adminAccessToken}`)
+        .send()
+        .expect(httpStatus.BAD_REQUEST);
+    });
+
+    test('should return 404 error if API key is not found', async () => {
+      await insertUsers([admin]);
+
+      await request(app)
+        .post(`/v1/admin/api-keys/${chatApiKey._id}/rotate`)
+        .set('Authorization', `Bearer ${adminAccessToken}`)
+        .send()
+        .expect(httpStatus.NOT_FOUND);
+    });
+  });
+});
@@ -0,0 +1,99 @@
+const request = require('supertest');
+const httpStatus = require('http-status');
+const app = require('../../src/app');
+const setupTestDB = require('../utils/setupTestDB');
+const { startFakeOllama } = require('../utils/fakeOllama');
+const { userOne, insertUsers } = require('../fixtures/user.fixture');
+const {
+  chatApiKey,
+  chatApiKeyRaw,
+  embeddingApiKey,
+  embeddingApiKeyRaw,
+  insertApiKeys,
+} = require('../fixtures/apiKey.fixture');
+const { echoProvider, ollamaProvider, insertProviders } = require('../fixtures/provider.fixture');
+
+setupTestDB();
+
+describe('Embedding routes', () => {
+  describe('POST /v1/embeddings', () => {
+    let ollama;
+    let localProvider;
+
+    beforeAll(async () => {
+      ollama = await startFakeOllama();
+    });
+
+    afterAll(async () => {
+      await ollama.close();
+    });
+
+    beforeEach(() => {
+      localProvider = {
+        ...ollamaProvider,
+        models: [{ dyadModelId: 'embed', adapterModelId: 'nomic-embed-text' }],
+        adapterConfig: { baseUrl: ollama.url },
+      };
+    });
+
+    test('should return 200 and a list of embedding objects if request is ok', async () => {
+      await insertUsers([userOne]);
+      await insertApiKeys([embeddingApiKey]);
+      await insertProviders([localProvider]);
+
+      const res = await request(app)
+        .post('/v1/embeddings')
+        .set('Authorization', `Bearer ${embeddingApiKeyRaw}`)
+        .send({ model: 'embed', input: ['ab', 'abc'] })
+        .expect(httpStatus.OK);
+
+      expect(res.body).toEqual({
+        object: 'list',
+        data: [
+          { object: 'embedding', index: 0, embedding: [2, 0.5] },
+          { object: 'embedding', index: 1, embedding: [3, 0.5] },
+        ],
+        model: 'embed',
+        usage: { prompt_tokens: 4, total_tokens: 4 },
+      });
+      expect(ollama.requests[ollama.requests.length - 1].body.model).toBe('nomic-embed-text');
+    });
+
+    test('should return 403 error if the API key does not have the embeddings scope', async () => {
+      await insertUsers([userOne]);
+      await insertApiKeys([chatApiKey]);
+      await insertProviders([localProvider]);
+
+      await request(app)
+        .post('/v1/embeddings')
+        .set('Authorization', `Bearer ${chatApiKeyRaw}`)
+        .send({ model: 'embed', input: 'ab' })
+        .expect(httpStatus.FORBIDDEN);
+    });
+
+    test('should return 400 error if the adapter serving the model does not support embeddings', async () => {
+      await insertUsers([userOne]);
+      await insertApiKeys([embeddingApiKey]);
+      await insertProviders([echoProvider]);
+
+      const res = await request(app)
+        .post('/v1/embeddings')
+        .set('Authorization', `Bearer ${embeddingApiKeyRaw}`)
+        .send({ model: 'cli-echo', input: 'ab' })
+        .expect(httpStatus.BAD_REQUEST);
+
+      expect(res.body.error).toMatchObject({ param: 'model', code: 'unsupported_model' });
+    });
+
+    test('should return 400 error if input is missing', async () => {
+      await insertUsers([userOne]);
+      await insertApiKeys([embeddingApiKey]);
+
+      await request(app)
+        .post('/v1/embeddings')
+        .set('Authorization', `Bearer ${embeddingApiKeyRaw}`)
+        .send({ model: 'embed' })
+        .expect(httpStatus.BAD_REQUEST);
+    });
+  });
+});
@@ -0,0 +1,130 @@
+const request = require('supertest');
+const httpStatus = require('http-status');
+const app = require('../../src/app');
+const setupTestDB = require('../utils/setupTestDB');
+const { userOne, admin, insertUsers } = require('../fixtures/user.fixture');
+const { userOneAccessToken, adminAccessToken } = require('../fixtures/token.fixture');
+const {
+  chatApiKey,
+  chatApiKeyRaw,
+  llamaOnlyApiKey,
+  llamaOnlyApiKeyRaw,
+  insertApiKeys,
+} = require('../fixtures/apiKey.fixture');
+const { echoProvider, disabledProvider, ollamaProvider, insertProviders } = require('../fixtures/provider.fixture');
+
+setupTestDB();
+
+describe('Model routes', () => {
+  describe('GET /v1/models', () => {
+    test('should return 200 and the models of all enabled providers', async () => {
+      await insertUsers([userOne]);
+      await insertApiKeys([chatApiKey]);
+      await insertProviders([echoProvider, disabledProvider, ollamaProvider]);
+
+      const res = await request(app)
+        .get('/v1/models')
+        .set('Authorization', `Bearer ${chatApiKeyRaw}`)
+        .send()
+        .expect(httpStatus.OK);
+
+      expect(res.body.object).toBe('list');
+      expect(res.body.data).toHaveLength(2);
+      expect(res.body.data).toEqual(
+        expect.arrayContaining([
+          {
+            id: 'cli-echo',
+            object: 'model',
+            created: expect.any(Number),
+            owned_by: echoProvider.slug,
+            context_window: null,
+            max_tokens: null,
+          },
+          {
+            id: 'llama3',
+            object: 'model',
+            created: expect.any(Number),
+            owned_by: ollamaProvider.slug,
+            context_window: 8192,
+            max_tokens: null,
+          },
+        ])
+      );
+    });
+
+    test('should return only the models allowed for the API key', async () => {
+      await insertUsers([userOne]);
+      await insertApiKeys([llamaOnlyApiKey]);
+      await insertProviders([echoProvider, ollamaProvider]);
+
+      const res = await request(app)
+        .get('/v1/models')
+        .set('Authorization', `Bearer ${llamaOnlyApiKeyRaw}`)
+        .send()
+        .expect(httpStatus.OK);
+
+      expect(res.body.data.map((model) => model.id)).toEqual(['llama3']);
+    });
+
+    test('should return 200 if the request is authenticated with an admin access token', async () => {
+      await insertUsers([admin]);
+      await insertProviders([echoProvider]);
+
+      await request(app).get('/v1/models').set('Authorization', `Bearer ${adminAccessToken}`).send().expect(httpStatus.OK);
+    });
+
+    test('should return 403 error if the request is authenticated with a non-admin access token', async () => {
+      await insertUsers([userOne]);
+
+      await request(app)
+        .get('/v1/models')
+        .set('Authorization', `Bearer ${userOneAccessToken}`)
+        .send()
+        .expect(httpStatus.FORBIDDEN);
+    });
+
+    test('should return 401 error if access token is missing', async () => {
+      await request(app).get('/v1/models').send().expect(httpStatus.UNAUTHORIZED);
+    });
+  });
+
+  describe('GET /v1/models/:modelId', () => {
+    test('should return 200 and the model object if the model exists', async () => {
+      await insertUsers([userOne]);
+      await insertApiKeys([chatApiKey]);
+      await insertProviders([ollamaProvider]);
+
+      const res = await request(app)
+        .get('/v1/models/llama3')
+        .set('Authorization', `Bearer ${chatApiKeyRaw}`)
+        .send()
+        .expect(httpStatus.OK);
+
+      expect(res.body).toMatchObject({ id: 'llama3', object: 'model', owned_by: ollamaProvider.slug });
+    });
+
+    test('should return 403 error if the model is not in the API key allowlist', async () => {
+      await insertUsers([userOne]);
+      await insertApiKeys([llamaOnlyApiKey]);
+      await insertProviders([echoProvider]);
+
+      await request(app)
+        .get('/v1/models/cli-echo')
+        .set('Authorization', `Bearer ${llamaOnlyApiKeyRaw}`)
+        .send()
+        .expect(httpStatus.FORBIDDEN);
+    });
+
+    test('should return 404 error if the model is only served by a disabled provider', async () => {
+      await insertUsers([userOne]);
+      await insertApiKeys([chatApiKey]);
+      await insertProviders([disabledProvider]);
+
+      await request(app)
+        .get('/v1/models/cli-disabled')
+        .set('Authorization', `Bearer ${chatApiKeyRaw}`)
+        .send()
+        .expect(httpStatus.NOT_FOUND);
+    });
+  });
+});
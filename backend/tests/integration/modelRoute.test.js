@@ -0,0 +1,278 @@
+const request = require('supertest');
+const httpStatus = require('http-status');
+const app = require('../../src/app');
+const setupTestDB = require('../utils/setupTestDB');
+const { ModelRoute } = require('../../src/models');
+const { resetBalancers } = require('../../src/routing');
+const { userOne, admin, insertUsers } = require('../fixtures/user.fixture');
+const { userOneAccessToken, adminAccessToken } = require('../fixtures/token.fixture');
+const { echoProvider, twinEchoProvider, insertProviders } = require('../fixtures/provider.fixture');
+const { echoRoute, llamaRoute, insertModelRoutes } = require('../fixtures/modelRoute.fixture');
+
+setupTestDB();
+
+describe('Model route routes', () => {
+  beforeEach(() => {
+    resetBalancers();
+  });
+
+  describe('POST /v1/admin/model-routes', () => {
+    test('should return 201 and successfully create new model route if data is ok', async () => {
+      await insertUsers([admin]);
+      const newModelRoute = { dyadModelId: 'cli-echo', strategy: 'least-in-flight' };
+
+      const res = await request(app)
+        .post('/v1/admin/model-routes')
+        .set('Authorization', `Bearer ${adminAccessToken}`)
+        .send(newModelRoute)
+        .expect(httpStatus.CREATED);
+
+      expect(res.body).toEqual({
+        id: expect.anything(),
+        dyadModelId: newModelRoute.dyadModelId,
+        strategy: newModelRoute.strategy,
+        createdBy: admin._id.toHexString(),
+      });
+
+      const dbModelRoute = await ModelRoute.findById(res.body.id);
+      expect(dbModelRoute).toMatchObject(newModelRoute);
+    });
+
+    test('should default to the round-robin strategy', async () => {
+      await insertUsers([admin]);
+
+      const res = await request(app)
+        .post('/v1/admin/model-routes')
+        .set('Authorization', `Bearer ${adminAccessToken}`)
+        .send({ dyadModelId: 'cli-echo' })
+        .expect(httpStatus.CREATED);
+
+      expect(res.body.strategy).toBe('round-robin');
+    });
+
+    test('should return 400 error if the model already has a route', async () => {
+      await insertUsers([admin]);
+      await insertModelRoutes([echoRoute]);
+
+      await request(app)
+        .post('/v1/admin/model-routes')
+        .set('Authorization', `Bearer ${adminAccessToken}`)
+        .send({ dyadModelId: echoRoute.dyadModelId })
+        .expect(httpStatus.BAD_REQUEST);
+    });
+
+    test('should return 400 error if the strategy is unknown', async () => {
+      await insertUsers([admin]);
+
+      await request(app)
+        .post('/v1/admin/model-routes')
+        .set('Authorization', `Bearer ${adminAccessToken}`)
+        .send({ dyadModelId: 'cli-echo', strategy: 'random' })
+        .expect(httpStatus.BAD_REQUEST);
+    });
+
+    test('should return 403 error if logged in user is not admin', async () => {
+      await insertUsers([userOne]);
+
+      await request(app)
+        .post('/v1/admin/model-routes')
+        .set('Authorization', `Bearer ${userOneAccessToken}`)
+        .send({ dyadModelId: 'cli-echo' })
+        .expect(httpStatus.FORBIDDEN);
+    });
+  });
+
+  describe('GET /v1/admin/model-routes', () => {
+    test('should return 200 and apply the strategy filter', async () => {
+      await insertUsers([admin]);
+      await insertModelRoutes([echoRoute, llamaRoute]);
+
+      const res = await request(app)
+        .get('/v1/admin/model-routes')
+        .set('Authorization', `Bearer ${adminAccessToken}`)
+        .query({ strategy: 'lowest-latency' })
+        .send()
+        .expect(httpStatus.OK);
+
+      expect(res.body).toEqual({
+        results: [{ id: llamaRoute._id.toHexString(), dyadModelId: 'llama3', strategy: 'lowest-latency' }],
+        page: 1,
+        limit: 10,
+        totalPages: 1,
+        totalResults: 1,
+      });
+    });
+
+    test('should return 403 error if logged in user is not admin', async () => {
+      await insertUsers([userOne]);
+
+      await request(app)
+        .get('/v1/admin/model-routes')
+        .set('Authorization', `Bearer ${userOneAccessToken}`)
+        .send()
+        .expect(httpStatus.FORBIDDEN);
+    });
+  });
+
+  describe('GET /v1/admin/model-routes/:modelRouteId', () => {
+    test('should return 200 and the model route object if data is ok', async () => {
+      await insertUsers([admin]);
+      await insertModelRoutes([echoRoute]);
+
+      const res = await request(app)
+        .get(`/v1/admin/model-routes/${echoRoute._id}`)
+        .set('Authorization', `Bearer ${adminAccessToken}`)
+        .send()
+        .expect(httpStatus.OK);
+
+      expect(res.body).toEqual({ id: echoRoute._id.toHexString(), dyadModelId: 'cli-echo', strategy: 'round-robin' });
+    });
+
+    test('should return 404 error if model route is not found', async () => {
+      await insertUsers([admin]);
+
+      await request(app)
+        .get(`/v1/admin/model-routes/${echoRoute._id}`)
+        .set('Authorization', `Bearer ${adminAccessToken}`)
+        .send()
+        .expect(httpStatus.NOT_FOUND);
+    });
+  });
+
+  describe('PATCH /v1/admin/model-routes/:modelRouteId', () => {
+    test('should return 200 and successfully update model route if data is ok', async () => {
+      await insertUsers([admin]);
+      await insertModelRoutes([echoRoute]);
+
+      const res = await request(app)
+        .patch(`/v1/admin/model-routes/${echoRoute._id}`)
+        .set('Authorization', `Bearer ${adminAccessToken}`)
+        .send({ strategy: 'weighted-random' })
+        .expect(httpStatus.OK);
+
+      expect(res.body).toMatchObject({ id: echoRoute._id.toHexString(), strategy: 'weighted-random' });
+      const dbModelRoute = await ModelRoute.findById(echoRoute._id);
+      expect(dbModelRoute.strategy).toBe('weighted-random');
+    });
+
+    test('should return 400 error if the model already has another route', async () => {
+      await insertUsers([admin]);
+      await insertModelRoutes([echoRoute, llamaRoute]);
+
+      await request(app)
+        .patch(`/v1/admin/model-routes/${echoRoute._id}`)
+        .set('Authorization', `Bearer ${adminAccessToken}`)
+        .send({ dyadModelId: llamaRoute.dyadModelId })
+        .expect(httpStatus.BAD_REQUEST);
+    });
+
+    test('should return 400 error if update body is empty', async () => {
+      await insertUsers([admin]);
+      await insertModelRoutes([echoRoute]);
+
+      await request(app)
+        .patch(`/v1/admin/model-routes/${echoRoute._id}`)
+        .set('Authorization', `Bearer ${adminAccessToken}`)
+        .send({})
+        .expect(httpStatus.BAD_REQUEST);
+    });
+  });
+
+  describe('DELETE /v1/admin/model-routes/:modelRouteId', () => {
+    test('should return 204 if data is ok', async () => {
+      await insertUsers([admin]);
+      await insertModelRoutes([echoRoute]);
+
+      await request(app)
+        .delete(`/v1/admin/model-routes/${echoRoute._id}`)
+        .set('Authorization', `Bearer ${adminAccessToken}`)
+        .send()
+        .expect(httpStatus.NO_CONTENT);
+
+      const dbModelRoute = await ModelRoute.findById(echoRoute._id);
+      expect(dbModelRoute).toBeNull();
+    });
+
+    test('should return 403 error if user is not admin', async () => {
+      await insertUsers([userOne]);
+      await insertModelRoutes([echoRoute]);
+
+      await request(app)
+        .delete(`/v1/admin/model-routes/${echoRoute._id}`)
+        .set('Authorization', `Bearer ${userOneAccessToken}`)
+        .send()
+        .expect(httpStatus.FORBIDDEN);
+    });
+  });
+
+  describe('GET /v1/admin/model-routes/:modelRouteId/stats', () => {
+    const chat = () =>
+      request(app)
+        .post('/v1/chat/completions')
+        .set('Authorization', `Bearer ${adminAccessToken}`)
+        .send({ model: 'cli-echo', messages: [{ role: 'user', content: 'hello gateway' }] })
+        .expect(httpStatus.OK);
+
+    test('should return 200 and the requests each provider served', async () => {
+      await insertUsers([admin]);
+      await insertProviders([echoProvider, twinEchoProvider]);
+      await insertModelRoutes([echoRoute]);
+
+      const servedBy = [];
+      for (let i = 0; i < 4; i += 1) {
+        // eslint-disable-next-line no-await-in-loop
+        const res = await chat();
+        servedBy.push(res.headers['x-gateway-provider']);
+      }
+
+      const res = await request(app)
+        .get(`/v1/admin/model-routes/${echoRoute._id}/stats`)
+        .set('Authorization', `Bearer ${adminAccessToken}`)
+        .send()
+        .expect(httpStatus.OK);
+
+      expect(servedBy.filter((slug) => slug === 'echo-cli')).toHaveLength(2);
+      expect(res.body).toEqual({
+        model: 'cli-echo',
+        strategy: 'round-robin',
+        decisions: 4,
+        providers: expect.arrayContaining(
+          ['echo-cli', 'twin-echo-cli'].map((provider) => ({
+            provider,
+            selected: 2,
+            inFlight: 0,
+            completed: 2,
+            failed: 0,
+            latencyMs: expect.any(Number),
+          }))
+        ),
+      });
+    });
+
+    test('should send every request to the least busy provider with least-in-flight', async () => {
+      await insertUsers([admin]);
+      await insertProviders([echoProvider, twinEchoProvider]);
+      await insertModelRoutes([{ ...echoRoute, strategy: 'least-in-flight' }]);
+
+      await Promise.all([chat(), chat()]);
+
+      const res = await request(app)
+        .get(`/v1/admin/model-routes/${echoRoute._id}/stats`)
+        .set('Authorization', `Bearer ${adminAccessToken}`)
+        .send()
+        .expect(httpStatus.OK);
+
+      expect(res.body.providers.map((provider) => provider.selected)).toEqual([1, 1]);
+    });
+
+    test('should return 404 error if model route is not found', async () => {
+      await insertUsers([admin]);
+
+      await request(app)
+        .get(`/v1/admin/model-routes/${echoRoute._id}/stats`)
+        .set('Authorization', `Bearer ${adminAccessToken}`)
+        .send()
+        .expect(httpStatus.NOT_FOUND);
+    });
+  });
+});
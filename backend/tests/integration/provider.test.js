@@ -0,0 +1,1008 @@
+const request = require('supertest');
+const httpStatus = require('http-status');
+const app = require('../../src/app');
+const setupTestDB = require('../utils/setupTestDB');
+const { startFakeOllama } = require('../utils/fakeOllama');
+const { Provider, ProviderHealth } = require('../../src/models');
+const { providerHealthService } = require('../../src/services');
+const { userOne, admin, insertUsers } = require('../fixtures/user.fixture');
+const { userOneAccessToken, adminAccessToken } = require('../fixtures/token.fixture');
+const { closeProcessPools } = require('../../src/pools');
+const { getCircuitBreaker, resetCircuitBreakers } = require('../../src/routing');
+const {
+  echoProvider,
+  disabledProvider,
+  ollamaProvider,
+  pooledProvider,
+  insertProviders,
+} = require('../fixtures/provider.fixture');
+const { echoChecks, staleEchoCheck, insertProviderChecks } = require('../fixtures/providerHealth.fixture');
+
+setupTestDB();
+
+describe('Provider routes', () => {
+  describe('POST /v1/admin/providers', () => {
+    let newProvider;
+
+    beforeEach(() => {
+      newProvider = {
+        name: 'Gemini CLI',
+        slug: 'gemini-cli',
+        type: 'spawn-cli',
+        models: [{ dyadModelId: 'gemini-2.5-pro', adapterModelId: 'gemini-2.5-pro', maxTokens: 4096 }],
+        adapterConfig: { command: '/usr/local/bin/gemini', args: ['--json'] },
+        credentials: { apiKey: 'secret' },
+      };
+    });
+
+    test('should return 201 and successfully create new provider if data is ok', async () => {
+      await insertUsers([admin]);
+
+      const res = await request(app)
+        .post('/v1/admin/providers')
+        .set('Authorization', `Bearer ${adminAccessToken}`)
+        .send(newProvider)
+        .expect(httpStatus.CREATED);
+
+      expect(res.body).not.toHaveProperty('credentials');
+      expect(res.body).toEqual({
+        id: expect.anything(),
+        name: newProvider.name,
+        slug: newProvider.slug,
+        type: newProvider.type,
+        enabled: true,
+        models: newProvider.models,
+        adapterConfig: newProvider.adapterConfig,
+        createdBy: admin._id.toHexString(),
+      });
+
+      const dbProvider = await Provider.findById(res.body.id);
+      expect(dbProvider).toBeDefined();
+      expect(dbProvider.credentials).toEqual(newProvider.credentials);
+    });
+
+    test('should return 401 error if access token is missing', async () => {
+      await request(app).post('/v1/admin/providers').send(newProvider).expect(httpStatus.UNAUTHORIZED);
+    });
+
+    test('should return 403 error if logged in user is not admin', async () => {
+      await insertUsers([userOne]);
+
+      await request(app)
+        .post('/v1/admin/providers')
+        .set('Authorization', `Bearer ${userOneAccessToken}`)
+        .send(newProvider)
+        .expect(httpStatus.FORBIDDEN);
+    });
+
+    test('should return 400 error if slug is already used', async () => {
+      await insertUsers([admin]);
+      await insertProviders([echoProvider]);
+      newProvider.slug = echoProvider.slug;
+
+      await request(app)
+        .post('/v1/admin/providers')
+        .set('Authorization', `Bearer ${adminAccessToken}`)
+        .send(newProvider)
+        .expect(httpStatus.BAD_REQUEST);
+    });
+
+    test('should return 400 error if slug is invalid', async () => {
+      await insertUsers([admin]);
+      newProvider.slug = 'Gemini CLI';
+
+      await request(app)
+        .post('/v1/admin/providers')
+        .set('Authorization', `Bearer ${adminAccessToken}`)
+        .send(newProvider)
+        .expect(httpStatus.BAD_REQUEST);
+    });
+
+    test('should return 400 error if type is unknown', async () => {
+      await insertUsers([admin]);
+      newProvider.type = 'invalid';
+
+      await request(app)
+        .post('/v1/admin/providers')
+        .set('Authorization', `Bearer ${adminAccessToken}`)
+        .send(newProvider)
+        .expect(httpStatus.BAD_REQUEST);
+    });
+
+    test('should return 400 error if the adapter config lacks a key required by the type', async () => {
+      await insertUsers([admin]);
+      delete newProvider.adapterConfig.command;
+
+      await request(app)
+        .post('/v1/admin/providers')
+        .set('Authorization', `Bearer ${adminAccessToken}`)
+        .send(newProvider)
+        .expect(httpStatus.BAD_REQUEST);
+
+      newProvider.type = 'proxy';
+      newProvider.adapterConfig = { auth: { type: 'bearer' } };
+
+      await request(app)
+        .post('/v1/admin/providers')
+        .set('Authorization', `Bearer ${adminAccessToken}`)
+        .send(newProvider)
+        .expect(httpStatus.BAD_REQUEST);
+    });
+
+    test('should return 400 error if a model mapping is incomplete', async () => {
+      await insertUsers([admin]);
+      newProvider.models = [{ dyadModelId: 'gemini-2.5-pro' }];
+
+      await request(app)
+        .post('/v1/admin/providers')
+        .set('Authorization', `Bearer ${adminAccessToken}`)
+        .send(newProvider)
+        .expect(httpStatus.BAD_REQUEST);
+    });
+
+    test('should return 400 error if the prompt format is unknown', async () => {
+      await insertUsers([admin]);
+      newProvider.adapterConfig.prompt = { format: 'alpaca' };
+
+      await request(app)
+        .post('/v1/admin/providers')
+        .set('Authorization', `Bearer ${adminAccessToken}`)
+        .send(newProvider)
+        .expect(httpStatus.BAD_REQUEST);
+    });
+
+    test('should return 400 error if a pooled provider runs under a PTY', async () => {
+      await insertUsers([admin]);
+      newProvider.adapterConfig.usePty = true;
+      newProvider.adapterConfig.pool = { size: 1 };
+
+      await request(app)
+        .post('/v1/admin/providers')
+        .set('Authorization', `Bearer ${adminAccessToken}`)
+        .send(newProvider)
+        .expect(httpStatus.BAD_REQUEST);
+    });
+
+    test('should return 400 error if a docker sandbox has no image', async () => {
+      await insertUsers([admin]);
+      newProvider.adapterConfig.dockerSandbox = true;
+
+      await request(app)
+        .post('/v1/admin/providers')
+        .set('Authorization', `Bearer ${adminAccessToken}`)
+        .send(newProvider)
+        .expect(httpStatus.BAD_REQUEST);
+    });
+
+    test('should return 400 error if the container engine is unknown', async () => {
+      await insertUsers([admin]);
+      newProvider.adapterConfig.sandbox = { type: 'docker', image: 'cli-runner', engine: 'fake' };
+
+      await request(app)
+        .post('/v1/admin/providers')
+        .set('Authorization', `Bearer ${adminAccessToken}`)
+        .send(newProvider)
+        .expect(httpStatus.BAD_REQUEST);
+    });
+
+    test('should return 400 error if the sandbox is invalid or the provider is pooled', async () => {
+      await insertUsers([admin]);
+      newProvider.adapterConfig.sandbox = { type: 'local', network: 'bridge' };
+
+      await request(app)
+        .post('/v1/admin/providers')
+        .set('Authorization', `Bearer ${adminAccessToken}`)
+        .send(newProvider)
+        .expect(httpStatus.BAD_REQUEST);
+
+      newProvider.adapterConfig.sandbox = { type: 'local' };
+      newProvider.adapterConfig.pool = { size: 1 };
+
+      await request(app)
+        .post('/v1/admin/providers')
+        .set('Authorization', `Bearer ${adminAccessToken}`)
+        .send(newProvider)
+        .expect(httpStatus.BAD_REQUEST);
+    });
+  });
+
+  describe('GET /v1/admin/providers', () => {
+    test('should return 200 and apply the default query options', async () => {
+      await insertUsers([admin]);
+      await insertProviders([echoProvider, disabledProvider, ollamaProvider]);
+
+      const res = await request(app)
+        .get('/v1/admin/providers')
+        .set('Authorization', `Bearer ${adminAccessToken}`)
+        .send()
+        .expect(httpStatus.OK);
+
+      expect(res.body).toEqual({
+        results: expect.any(Array),
+        page: 1,
+        limit: 10,
+        totalPages: 1,
+        totalResults: 3,
+      });
+      expect(res.body.results).toHaveLength(3);
+      expect(res.body.results[0]).toEqual({
+        id: echoProvider._id.toHexString(),
+        name: echoProvider.name,
+        slug: echoProvider.slug,
+        type: echoProvider.type,
+        enabled: echoProvider.enabled,
+        models: echoProvider.models,
+        adapterConfig: echoProvider.adapterConfig,
+      });
+    });
+
+    test('should return 401 if access token is missing', async () => {
+      await insertProviders([echoProvider]);
+
+      await request(app).get('/v1/admin/providers').send().expect(httpStatus.UNAUTHORIZED);
+    });
+
+    test('should return 403 if a non-admin is trying to access all providers', async () => {
+      await insertUsers([userOne]);
+      await insertProviders([echoProvider]);
+
+      await request(app)
+        .get('/v1/admin/providers')
+        .set('Authorization', `Bearer ${userOneAccessToken}`)
+        .send()
+        .expect(httpStatus.FORBIDDEN);
+    });
+
+    test('should correctly apply filter on type field', async () => {
+      await insertUsers([admin]);
+      await insertProviders([echoProvider, disabledProvider, ollamaProvider]);
+
+      const res = await request(app)
+        .get('/v1/admin/providers')
+        .set('Authorization', `Bearer ${adminAccessToken}`)
+        .query({ type: 'local' })
+        .send()
+        .expect(httpStatus.OK);
+
+      expect(res.body.totalResults).toBe(1);
+      expect(res.body.results[0].id).toBe(ollamaProvider._id.toHexString());
+    });
+
+    test('should correctly apply filter on enabled field', async () => {
+      await insertUsers([admin]);
+      await insertProviders([echoProvider, disabledProvider, ollamaProvider]);
+
+      const res = await request(app)
+        .get('/v1/admin/providers')
+        .set('Authorization', `Bearer ${adminAccessToken}`)
+        .query({ enabled: false })
+        .send()
+        .expect(httpStatus.OK);
+
+      expect(res.body.totalResults).toBe(1);
+      expect(res.body.results[0].id).toBe(disabledProvider._id.toHexString());
+    });
+
+    test('should correctly apply filter on name field', async () => {
+      await insertUsers([admin]);
+      await insertProviders([echoProvider, disabledProvider, ollamaProvider]);
+
+      const res = await request(app)
+        .get('/v1/admin/providers')
+        .set('Authorization', `Bearer ${adminAccessToken}`)
+        .query({ name: echoProvider.name })
+        .send()
+        .expect(httpStatus.OK);
+
+      expect(res.body.totalResults).toBe(1);
+      expect(res.body.results[0].id).toBe(echoProvider._id.toHexString());
+    });
+
+    test('should return the correct page if page and limit params are specified', async () => {
+      await insertUsers([admin]);
+      await insertProviders([echoProvider, disabledProvider, ollamaProvider]);
+
+      const res = await request(app)
+        .get('/v1/admin/providers')
+        .set('Authorization', `Bearer ${adminAccessToken}`)
+        .query({ page: 2, limit: 2 })
+        .send()
+        .expect(httpStatus.OK);
+
+      expect(res.body).toEqual({
+        results: expect.any(Array),
+        page: 2,
+        limit: 2,
+        totalPages: 2,
+        totalResults: 3,
+      });
+      expect(res.body.results).toHaveLength(1);
+      expect(res.body.results[0].id).toBe(ollamaProvider._id.toHexString());
+    });
+  });
+
+  describe('GET /v1/admin/providers/:providerId', () => {
+    test('should return 200 and the provider object without credentials if data is ok', async () => {
+      await insertUsers([admin]);
+      await insertProviders([ollamaProvider]);
+
+      const res = await request(app)
+        .get(`/v1/admin/providers/${ollamaProvider._id}`)
+        .set('Authorization', `Bearer ${adminAccessToken}`)
+        .send()
+        .expect(httpStatus.OK);
+
+      expect(res.body).not.toHaveProperty('credentials');
+      expect(res.body).toMatchObject({ id: ollamaProvider._id.toHexString(), slug: ollamaProvider.slug });
+    });
+
+    test('should return 403 error if user is not admin', async () => {
+      await insertUsers([userOne]);
+      await insertProviders([ollamaProvider]);
+
+      await request(app)
+        .get(`/v1/admin/providers/${ollamaProvider._id}`)
+        .set('Authorization', `Bearer ${userOneAccessToken}`)
+        .send()
+        .expect(httpStatus.FORBIDDEN);
+    });
+
+    test('should return 400 error if providerId is not a valid mongo id', async () => {
+      await insertUsers([admin]);
+
+      await request(app)
+        .get('/v1/admin/providers/invalidId')
+        .set('Authorization', `Bearer ${adminAccessToken}`)
+        .send()
+        .expect(httpStatus.BAD_REQUEST);
+    });
+
+    test('should return 404 error if provider is not found', async () => {
+      await insertUsers([admin]);
+
+      await request(app)
+        .get(`/v1/admin/providers/${ollamaProvider._id}`)
+        .set('Authorization', `Bearer ${adminAccessToken}`)
+        .send()
+        .expect(httpStatus.NOT_FOUND);
+    });
+  });
+
+  describe('PATCH /v1/admin/providers/:providerId', () => {
+    test('should return 200 and successfully update provider if data is ok', async () => {
+      await insertUsers([admin]);
+      await insertProviders([echoProvider]);
+      const updateBody = {
+        name: 'Renamed CLI',
+        enabled: false,
+        models: [{ dyadModelId: 'cli-echo-2', adapterModelId: 'echo-2' }],
+      };
+
+      const res = await request(app)
+        .patch(`/v1/admin/providers/${echoProvider._id}`)
+        .set('Authorization', `Bearer ${adminAccessToken}`)
+        .send(updateBody)
+        .expect(httpStatus.OK);
+
+      expect(res.body).toMatchObject({ id: echoProvider._id.toHexString(), ...updateBody });
+
+      const dbProvider = await Provider.findById(echoProvider._id);
+      expect(dbProvider).toMatchObject({ name: updateBody.name, enabled: false });
+    });
+
+    test('should return 400 error if slug is already taken', async () => {
+      await insertUsers([admin]);
+      await insertProviders([echoProvider, ollamaProvider]);
+
+      await request(app)
+        .patch(`/v1/admin/providers/${echoProvider._id}`)
+        .set('Authorization', `Bearer ${adminAccessToken}`)
+        .send({ slug: ollamaProvider.slug })
+        .expect(httpStatus.BAD_REQUEST);
+    });
+
+    test('should not return 400 if slug is my slug', async () => {
+      await insertUsers([admin]);
+      await insertProviders([echoProvider]);
+
+      await request(app)
+        .patch(`/v1/admin/providers/${echoProvider._id}`)
+        .set('Authorization', `Bearer ${adminAccessToken}`)
+        .send({ slug: echoProvider.slug })
+        .expect(httpStatus.OK);
+    });
+
+    test('should return 400 error if the adapter config lacks a key required by the stored type', async () => {
+      await insertUsers([admin]);
+      await insertProviders([echoProvider]);
+
+      await request(app)
+        .patch(`/v1/admin/providers/${echoProvider._id}`)
+        .set('Authorization', `Bearer ${adminAccessToken}`)
+        .send({ adapterConfig: {} })
+        .expect(httpStatus.BAD_REQUEST);
+
+      const dbProvider = await Provider.findById(echoProvider._id);
+      expect(dbProvider.adapterConfig).toEqual(echoProvider.adapterConfig);
+    });
+
+    test('should return 400 error if update body is empty', async () => {
+      await insertUsers([admin]);
+      await insertProviders([echoProvider]);
+
+      await request(app)
+        .patch(`/v1/admin/providers/${echoProvider._id}`)
+        .set('Authorization', `Bearer ${adminAccessToken}`)
+        .send({})
+        .expect(httpStatus.BAD_REQUEST);
+    });
+
+    test('should return 403 error if user is not admin', async () => {
+      await insertUsers([userOne]);
+      await insertProviders([echoProvider]);
+
+      await request(app)
+        .patch(`/v1/admin/providers/${echoProvider._id}`)
+        .set('Authorization', `Bearer ${userOneAccessToken}`)
+        .send({ enabled: false })
+        .expect(httpStatus.FORBIDDEN);
+    });
+
+    test('should return 404 if provider is not found', async () => {
+      await insertUsers([admin]);
+
+      await request(app)
+        .patch(`/v1/admin/providers/${echoProvider._id}`)
+        .set('Authorization', `Bearer ${adminAccessToken}`)
+        .send({ enabled: false })
+        .expect(httpStatus.NOT_FOUND);
+    });
+  });
+
+  describe('DELETE /v1/admin/providers/:providerId', () => {
+    test('should return 204 if data is ok', async () => {
+      await insertUsers([admin]);
+      await insertProviders([echoProvider]);
+
+      await request(app)
+        .delete(`/v1/admin/providers/${echoProvider._id}`)
+        .set('Authorization', `Bearer ${adminAccessToken}`)
+        .send()
+        .expect(httpStatus.NO_CONTENT);
+
+      const dbProvider = await Provider.findById(echoProvider._id);
+      expect(dbProvider).toBeNull();
+    });
+
+    test('should return 403 error if user is not admin', async () => {
+      await insertUsers([userOne]);
+      await insertProviders([echoProvider]);
+
+      await request(app)
+        .delete(`/v1/admin/providers/${echoProvider._id}`)
+        .set('Authorization', `Bearer ${userOneAccessToken}`)
+        .send()
+        .expect(httpStatus.FORBIDDEN);
+    });
+
+    test('should return 404 error if provider is not found', async () => {
+      await insertUsers([admin]);
+
+      await request(app)
+        .delete(`/v1/admin/providers/${echoProvider._id}`)
+        .set('Authorization', `Bearer ${adminAccessToken}`)
+        .send()
+        .expect(httpStatus.NOT_FOUND);
+    });
+  });
+
+  describe('Remote models', () => {
+    let ollama;
+    let localProvider;
+
+    beforeAll(async () => {
+      ollama = await startFakeOllama();
+    });
+
+    afterAll(async () => {
+      await ollama.close();
+    });
+
+    beforeEach(() => {
+      localProvider = { ...ollamaProvider, adapterConfig: { baseUrl: ollama.url } };
+    });
+
+    describe('GET /v1/admin/providers/:providerId/remote-models', () => {
+      test('should return 200 and the models of the upstream, flagging the mapped ones', async () => {
+        await insertUsers([admin]);
+        await insertProviders([localProvider]);
+
+        const res = await request(app)
+          .get(`/v1/admin/providers/${localProvider._id}/remote-models`)
+          .set('Authorization', `Bearer ${adminAccessToken}`)
+          .send()
+          .expect(httpStatus.OK);
+
+        expect(res.body.results).toEqual([
+          { id: 'llama3:8b', imported: true },
+          { id: 'nomic-embed-text:latest', imported: false },
+        ]);
+      });
+
+      test('should return 502 error if the upstream cannot be reached', async () => {
+        await insertUsers([admin]);
+        await insertProviders([{ ...localProvider, adapterConfig: { baseUrl: 'http://127.0.0.1:1' } }]);
+
+        await request(app)
+          .get(`/v1/admin/providers/${localProvider._id}/remote-models`)
+          .set('Authorization', `Bearer ${adminAccessToken}`)
+          .send()
+          .expect(httpStatus.BAD_GATEWAY);
+      });
+
+      test('should return 403 error if user is not admin', async () => {
+        await insertUsers([userOne]);
+        await insertProviders([localProvider]);
+
+        await request(app)
+          .get(`/v1/admin/providers/${localProvider._id}/remote-models`)
+          .set('Authorization', `Bearer ${userOneAccessToken}`)
+          .send()
+          .expect(httpStatus.FORBIDDEN);
+      });
+    });
+
+    describe('POST /v1/admin/providers/:providerId/import-models', () => {
+      test('should return 200 and map every upstream model which is not mapped yet', async () => {
+        await insertUsers([admin]);
+        await insertProviders([localProvider]);
+
+        const res = await request(app)
+          .post(`/v1/admin/providers/${localProvider._id}/import-models`)
+          .set('Authorization', `Bearer ${adminAccessToken}`)
+          .send()
+          .expect(httpStatus.OK);
+
+        expect(res.body.models).toEqual([
+          ...localProvider.models,
+          { dyadModelId: 'nomic-embed-text:latest', adapterModelId: 'nomic-embed-text:latest' },
+        ]);
+        const dbProvider = await Provider.findById(localProvider._id);
+        expect(dbProvider.models).toHaveLength(2);
+      });
+
+      test('should only import the requested models', async () => {
+        await insertUsers([admin]);
+        await insertProviders([{ ...localProvider, models: [] }]);
+
+        const res = await request(app)
+          .post(`/v1/admin/providers/${localProvider._id}/import-models`)
+          .set('Authorization', `Bearer ${adminAccessToken}`)
+          .send({ models: ['llama3:8b'] })
+          .expect(httpStatus.OK);
+
+        expect(res.body.models).toEqual([{ dyadModelId: 'llama3:8b', adapterModelId: 'llama3:8b' }]);
+      });
+
+      test('should skip the upstream models whose id is already mapped to another model', async () => {
+        await insertUsers([admin]);
+        const models = [{ dyadModelId: 'nomic-embed-text:latest', adapterModelId: 'llama3:8b' }];
+        await insertProviders([{ ...localProvider, models }]);
+
+        const res = await request(app)
+          .post(`/v1/admin/providers/${localProvider._id}/import-models`)
+          .set('Authorization', `Bearer ${adminAccessToken}`)
+          .send()
+          .expect(httpStatus.OK);
+
+        expect(res.body.models).toEqual(models);
+      });
+
+      test('should return 400 error if a requested model id is already mapped to another model', async () => {
+        await insertUsers([admin]);
+        await insertProviders([
+          { ...localProvider, models: [{ dyadModelId: 'nomic-embed-text:latest', adapterModelId: 'llama3:8b' }] },
+        ]);
+
+        await request(app)
+          .post(`/v1/admin/providers/${localProvider._id}/import-models`)
+          .set('Authorization', `Bearer ${adminAccessToken}`)
+          .send({ models: ['nomic-embed-text:latest'] })
+          .expect(httpStatus.BAD_REQUEST);
+      });
+
+      test('should return 400 error if the upstream does not expose a requested model', async () => {
+        await insertUsers([admin]);
+        await insertProviders([localProvider]);
+
+        await request(app)
+          .post(`/v1/admin/providers/${localProvider._id}/import-models`)
+          .set('Authorization', `Bearer ${adminAccessToken}`)
+          .send({ models: ['mistral'] })
+          .expect(httpStatus.BAD_REQUEST);
+      });
+
+      test('should return 404 error if provider is not found', async () => {
+        await insertUsers([admin]);
+
+        await request(app)
+          .post(`/v1/admin/providers/${localProvider._id}/import-models`)
+          .set('Authorization', `Bearer ${adminAccessToken}`)
+          .send()
+          .expect(httpStatus.NOT_FOUND);
+      });
+    });
+  });
+
+  describe('POST /v1/admin/providers/:providerId/prompt-preview', () => {
+    const messages = [
+      { role: 'system', content: 'Be brief' },
+      { role: 'user', content: 'Hello' },
+    ];
+
+    test('should return 200 and the prompt rendered with the prompt config of the provider', async () => {
+      await insertUsers([admin]);
+      await insertProviders([
+        { ...echoProvider, adapterConfig: { ...echoProvider.adapterConfig, prompt: { format: 'chatml' } } },
+      ]);
+
+      const res = await request(app)
+        .post(`/v1/admin/providers/${echoProvider._id}/prompt-preview`)
+        .set('Authorization', `Bearer ${adminAccessToken}`)
+        .send({ messages })
+        .expect(httpStatus.OK);
+
+      expect(res.body).toEqual({
+        prompt: '<|im_start|>system\nBe brief<|im_end|>\n<|im_start|>user\nHello<|im_end|>\n<|im_start|>assistant\n',
+      });
+    });
+
+    test('should keep the template tokens of a prompt config saved through the API', async () => {
+      await insertUsers([admin]);
+      const prompt = {
+        format: 'custom',
+        blocks: { default: '<|im_start|>{{role}}\n{{content}}<|im_end|>' },
+        separator: '\n',
+        suffix: '\n<|im_start|>assistant\n',
+      };
+      const { adapterConfig } = echoProvider;
+      const created = await request(app)
+        .post('/v1/admin/providers')
+        .set('Authorization', `Bearer ${adminAccessToken}`)
+        .send({ name: 'ChatML CLI', slug: 'chatml-cli', type: 'spawn-cli', adapterConfig: { ...adapterConfig, prompt } })
+        .expect(httpStatus.CREATED);
+
+      expect(created.body.adapterConfig.prompt).toEqual(prompt);
+
+      const res = await request(app)
+        .post(`/v1/admin/providers/${created.body.id}/prompt-preview`)
+        .set('Authorization', `Bearer ${adminAccessToken}`)
+        .send({ messages: [{ role: 'user', content: 'a<b' }] })
+        .expect(httpStatus.OK);
+
+      expect(res.body).toEqual({ prompt: '<|im_start|>user\na<b<|im_end|>\n<|im_start|>assistant\n' });
+    });
+
+    test('should render the prompt with the prompt config of the request if any', async () => {
+      await insertUsers([admin]);
+      await insertProviders([echoProvider]);
+
+      const res = await request(app)
+        .post(`/v1/admin/providers/${echoProvider._id}/prompt-preview`)
+        .set('Authorization', `Bearer ${adminAccessToken}`)
+        .send({ messages, prompt: { format: 'last-user' } })
+        .expect(httpStatus.OK);
+
+      expect(res.body).toEqual({ prompt: 'Hello' });
+    });
+
+    test('should return 400 error if the provider is not a CLI provider', async () => {
+      await insertUsers([admin]);
+      await insertProviders([ollamaProvider]);
+
+      await request(app)
+        .post(`/v1/admin/providers/${ollamaProvider._id}/prompt-preview`)
+        .set('Authorization', `Bearer ${adminAccessToken}`)
+        .send({ messages })
+        .expect(httpStatus.BAD_REQUEST);
+    });
+
+    test('should return 400 error if messages are missing', async () => {
+      await insertUsers([admin]);
+      await insertProviders([echoProvider]);
+
+      await request(app)
+        .post(`/v1/admin/providers/${echoProvider._id}/prompt-preview`)
+        .set('Authorization', `Bearer ${adminAccessToken}`)
+        .send({})
+        .expect(httpStatus.BAD_REQUEST);
+    });
+
+    test('should return 403 error if user is not an admin', async () => {
+      await insertUsers([userOne]);
+      await insertProviders([echoProvider]);
+
+      await request(app)
+        .post(`/v1/admin/providers/${echoProvider._id}/prompt-preview`)
+        .set('Authorization', `Bearer ${userOneAccessToken}`)
+        .send({ messages })
+        .expect(httpStatus.FORBIDDEN);
+    });
+
+    test('should return 404 error if provider is not found', async () => {
+      await insertUsers([admin]);
+
+      await request(app)
+        .post(`/v1/admin/providers/${echoProvider._id}/prompt-preview`)
+        .set('Authorization', `Bearer ${adminAccessToken}`)
+        .send({ messages })
+        .expect(httpStatus.NOT_FOUND);
+    });
+  });
+
+  describe('GET /v1/admin/providers/:providerId/pool', () => {
+    afterAll(() => {
+      closeProcessPools();
+    });
+
+    test('should return 200 and the stats of the process pool', async () => {
+      await insertUsers([admin]);
+      await insertProviders([pooledProvider]);
+
+      const res = await request(app)
+        .get(`/v1/admin/providers/${pooledProvider._id}/pool`)
+        .set('Authorization', `Bearer ${adminAccessToken}`)
+        .send()
+        .expect(httpStatus.OK);
+
+      expect(res.body).toEqual({
+        size: 1,
+        maxRequests: 10,
+        processes: [],
+        queued: 0,
+        spawned: 0,
+        recycled: 0,
+        crashed: 0,
+        requests: 0,
+      });
+    });
+
+    test('should return 400 error if the provider does not run a process pool', async () => {
+      await insertUsers([admin]);
+      await insertProviders([echoProvider]);
+
+      await request(app)
+        .get(`/v1/admin/providers/${echoProvider._id}/pool`)
+        .set('Authorization', `Bearer ${adminAccessToken}`)
+        .send()
+        .expect(httpStatus.BAD_REQUEST);
+    });
+
+    test('should return 403 error if user is not an admin', async () => {
+      await insertUsers([userOne]);
+      await insertProviders([pooledProvider]);
+
+      await request(app)
+        .get(`/v1/admin/providers/${pooledProvider._id}/pool`)
+        .set('Authorization', `Bearer ${userOneAccessToken}`)
+        .send()
+        .expect(httpStatus.FORBIDDEN);
+    });
+
+    test('should return 404 error if provider is not found', async () => {
+      await insertUsers([admin]);
+
+      await request(app)
+        .get(`/v1/admin/providers/${pooledProvider._id}/pool`)
+        .set('Authorization', `Bearer ${adminAccessToken}`)
+        .send()
+        .expect(httpStatus.NOT_FOUND);
+    });
+  });
+
+  describe('Circuit breaker', () => {
+    const openCircuit = () => {
+      const circuitBreaker = getCircuitBreaker(echoProvider._id.toHexString());
+      Array.from({ length: circuitBreaker.failureThreshold }).forEach(() => circuitBreaker.recordFailure());
+    };
+
+    beforeEach(() => {
+      resetCircuitBreakers();
+    });
+
+    describe('GET /v1/admin/providers/:providerId/circuit', () => {
+      test('should return 200 and the state of the circuit', async () => {
+        await insertUsers([admin]);
+        await insertProviders([echoProvider]);
+        openCircuit();
+
+        const res = await request(app)
+          .get(`/v1/admin/providers/${echoProvider._id}/circuit`)
+          .set('Authorization', `Bearer ${adminAccessToken}`)
+          .send()
+          .expect(httpStatus.OK);
+
+        expect(res.body).toEqual({
+          state: 'open',
+          failures: expect.any(Number),
+          failureThreshold: expect.any(Number),
+          openedAt: expect.any(String),
+          retryAt: expect.any(String),
+        });
+      });
+
+      test('should return a closed circuit for a provider which never failed', async () => {
+        await insertUsers([admin]);
+        await insertProviders([echoProvider]);
+
+        const res = await request(app)
+          .get(`/v1/admin/providers/${echoProvider._id}/circuit`)
+          .set('Authorization', `Bearer ${adminAccessToken}`)
+          .send()
+          .expect(httpStatus.OK);
+
+        expect(res.body).toMatchObject({ state: 'closed', failures: 0, openedAt: null, retryAt: null });
+      });
+
+      test('should return 404 error if provider is not found', async () => {
+        await insertUsers([admin]);
+
+        await request(app)
+          .get(`/v1/admin/providers/${echoProvider._id}/circuit`)
+          .set('Authorization', `Bearer ${adminAccessToken}`)
+          .send()
+          .expect(httpStatus.NOT_FOUND);
+      });
+    });
+
+    describe('POST /v1/admin/providers/:providerId/circuit/reset', () => {
+      test('should return 200 and close the circuit', async () => {
+        await insertUsers([admin]);
+        await insertProviders([echoProvider]);
+        openCircuit();
+
+        const res = await request(app)
+          .post(`/v1/admin/providers/${echoProvider._id}/circuit/reset`)
+          .set('Authorization', `Bearer ${adminAccessToken}`)
+          .send()
+          .expect(httpStatus.OK);
+
+        expect(res.body).toMatchObject({ state: 'closed', failures: 0 });
+        expect(getCircuitBreaker(echoProvider._id.toHexString()).tryAcquire()).toBe(true);
+      });
+
+      test('should return 403 error if user is not an admin', async () => {
+        await insertUsers([userOne]);
+        await insertProviders([echoProvider]);
+
+        await request(app)
+          .post(`/v1/admin/providers/${echoProvider._id}/circuit/reset`)
+          .set('Authorization', `Bearer ${userOneAccessToken}`)
+          .send()
+          .expect(httpStatus.FORBIDDEN);
+      });
+    });
+  });
+
+  describe('Health checks', () => {
+    test('should keep the result of the health check of every enabled provider', async () => {
+      await insertProviders([echoProvider, disabledProvider]);
+
+      await providerHealthService.checkProvidersHealth();
+
+      const checks = await ProviderHealth.find();
+      expect(checks).toHaveLength(1);
+      expect(checks[0]).toMatchObject({ provider: echoProvider._id, ok: true, latencyMs: expect.any(Number) });
+    });
+
+    test('should keep a failed health check for a provider which cannot run', async () => {
+      await insertProviders([{ ...echoProvider, adapterConfig: { command: '/nonexistent/echo-cli' } }]);
+
+      const check = await providerHealthService.checkProviderHealth(await Provider.findById(echoProvider._id));
+
+      expect(check).toMatchObject({ ok: false, message: expect.stringContaining('/nonexistent/echo-cli') });
+    });
+
+    describe('GET /v1/admin/providers/health', () => {
+      test('should return 200 and the status, uptime and latency of every provider', async () => {
+        await insertUsers([admin]);
+        await insertProviders([echoProvider, disabledProvider]);
+        await insertProviderChecks([...echoChecks, staleEchoCheck]);
+
+        const res = await request(app)
+          .get('/v1/admin/providers/health')
+          .set('Authorization', `Bearer ${adminAccessToken}`)
+          .send()
+          .expect(httpStatus.OK);
+
+        expect(res.body.results).toEqual([
+          {
+            provider: disabledProvider._id.toHexString(),
+            name: disabledProvider.name,
+            slug: disabledProvider.slug,
+            enabled: false,
+            status: 'unknown',
+            lastCheckedAt: null,
+            lastError: null,
+            checks: 0,
+            uptime: null,
+            latency: { p50: null, p95: null },
+          },
+          {
+            provider: echoProvider._id.toHexString(),
+            name: echoProvider.name,
+            slug: echoProvider.slug,
+            enabled: true,
+            status: 'down',
+            lastCheckedAt: echoChecks[3].checkedAt.toISOString(),
+            lastError: echoChecks[3].message,
+            checks: 4,
+            uptime: 75,
+            latency: { p50: 200, p95: 300 },
+          },
+        ]);
+      });
+
+      test('should return 403 error if user is not an admin', async () => {
+        await insertUsers([userOne]);
+
+        await request(app)
+          .get('/v1/admin/providers/health')
+          .set('Authorization', `Bearer ${userOneAccessToken}`)
+          .send()
+          .expect(httpStatus.FORBIDDEN);
+      });
+    });
+
+    describe('GET /v1/admin/providers/:providerId/health', () => {
+      test('should return 200 and the time series of the health checks', async () => {
+        await insertUsers([admin]);
+        await insertProviders([echoProvider]);
+        await insertProviderChecks([...echoChecks, staleEchoCheck]);
+
+        const res = await request(app)
+          .get(`/v1/admin/providers/${echoProvider._id}/health`)
+          .set('Authorization', `Bearer ${adminAccessToken}`)
+          .send()
+          .expect(httpStatus.OK);
+
+        expect(res.body).toMatchObject({ provider: echoProvider._id.toHexString(), status: 'down', checks: 4 });
+        expect(res.body.series).toEqual(
+          echoChecks.map(({ checkedAt, ok, latencyMs, message }) => ({
+            checkedAt: checkedAt.toISOString(),
+            ok,
+            latencyMs,
+            ...(message && { message }),
+          }))
+        );
+      });
+
+      test('should only return the checks of the period, up to the limit', async () => {
+        await insertUsers([admin]);
+        await insertProviders([echoProvider]);
+        await insertProviderChecks([...echoChecks, staleEchoCheck]);
+
+        const res = await request(app)
+          .get(`/v1/admin/providers/${echoProvider._id}/health`)
+          .set('Authorization', `Bearer ${adminAccessToken}`)
+          .query({ since: staleEchoCheck.checkedAt.toISOString(), limit: 2 })
+          .send()
+          .expect(httpStatus.OK);
+
+        expect(res.body.series.map((check) => check.checkedAt)).toEqual(
+          echoChecks.slice(2).map((check) => check.checkedAt.toISOString())
+        );
+      });
+
+      test('should return 404 error if provider is not found', async () => {
+        await insertUsers([admin]);
+
+        await request(app)
+          .get(`/v1/admin/providers/${echoProvider._id}/health`)
+          .set('Authorization', `Bearer ${adminAccessToken}`)
+          .send()
+          .expect(httpStatus.NOT_FOUND);
+      });
+    });
+  });
+});
@@ -0,0 +1,160 @@
+const httpStatus = require('http-status');
+const HttpSdkAdapter = require('../../../src/adapters/httpSdk.adapter');
+const AdapterError = require('../../../src/utils/AdapterError');
+const { adapterErrorCodes } = require('../../../src/config/adapters');
+const { startFakeOllama } = require('../../utils/fakeOllama');
+
+describe('HttpSdkAdapter', () => {
+  const messages = [
+    { role: 'system', content: 'Be brief' },
+    { role: 'user', content: 'hello' },
+  ];
+  let upstream;
+
+  // describes the native Ollama API, with its NDJSON stream
+  const ollamaConfig = () => ({
+    endpoint: `${upstream.url}/api/chat`,
+    requestTemplate: {
+      model: '{{model}}',
+      messages: '{{messages}}',
+      stream: '{{stream}}',
+      options: { num_predict: '{{max_tokens}}', temperature: '{{temperature}}', stop: '{{stop}}' },
+    },
+    response: {
+      content: '$.message.content',
+      finishReason: '$.done_reason',
+      usage: { prompt_tokens: '$.prompt_eval_count', completion_tokens: '$.eval_count' },
+    },
+    stream: { framing: 'ndjson', content: '$.message.content', finishReason: '$.done_reason' },
+  });
+
+  // describes an OpenAI-compatible API, with its SSE stream
+  const openaiConfig = () => ({
+    endpoint: `${upstream.url}/v1/chat/completions`,
+    auth: { type: 'header', name: 'x-vendor-key' },
+    requestTemplate: { model: 'vendor-{{model}}', messages: '{{conversation}}', stream: '{{stream}}' },
+    roleMap: { user: 'human' },
+    messageTemplate: { role: '{{role}}', content: 'Q: {{content}}' },
+    response: { content: '$.choices[*].message.content', finishReason: '$.choices[0].finish_reason', usage: {} },
+    finishReasons: { stop: 'end_turn' },
+    stream: { framing: 'sse', content: '$.choices[0].delta.content', finishReason: '$.choices[0].finish_reason' },
+  });
+
+  beforeAll(async () => {
+    upstream = await startFakeOllama();
+  });
+
+  afterAll(async () => {
+    await upstream.close();
+  });
+
+  beforeEach(() => {
+    upstream.requests.length = 0;
+  });
+
+  test('should throw an AdapterError if the endpoint, request template or content path is missing', () => {
+    expect(() => new HttpSdkAdapter({})).toThrow(AdapterError);
+    expect(() => new HttpSdkAdapter({ ...ollamaConfig(), response: {} })).toThrow(AdapterError);
+  });
+
+  describe('handleChat', () => {
+    test('should render the request body from the template and drop the undefined variables', async () => {
+      const adapter = new HttpSdkAdapter(ollamaConfig());
+
+      await adapter.handleChat({ messages, model: 'llama3:8b', options: { max_tokens: 64, stop: 'END' } });
+
+      expect(upstream.requests[0]).toMatchObject({ method: 'POST', url: '/api/chat' });
+      expect(upstream.requests[0].body).toEqual({
+        model: 'llama3:8b',
+        messages,
+        stream: false,
+        options: { num_predict: 64, stop: ['END'] },
+      });
+    });
+
+    test('should read the content, finish reason and usage from the response', async () => {
+      const adapter = new HttpSdkAdapter(ollamaConfig());
+
+      const result = await adapter.handleChat({ messages, model: 'llama3:8b' });
+
+      expect(result).toEqual({
+        content: 'echo: hello',
+        finishReason: 'stop',
+        usage: { prompt_tokens: 5, completion_tokens: 3, total_tokens: 8 },
+      });
+    });
+
+    test('should map the roles, render every message and map the finish reasons', async () => {
+      const adapter = new HttpSdkAdapter(openaiConfig());
+
+      const result = await adapter.handleChat({ messages, model: 'small' });
+
+      expect(upstream.requests[0].body).toEqual({
+        model: 'vendor-small',
+        messages: [{ role: 'human', content: 'Q: hello' }],
+        stream: false,
+      });
+      expect(result).toMatchObject({ content: 'echo: Q: hello', finishReason: 'end_turn' });
+      expect(result.usage).toBeUndefined();
+    });
+
+    test('should inject the credentials as configured', async () => {
+      const adapter = new HttpSdkAdapter(openaiConfig(), { apiKey: 'secret' });
+
+      await adapter.handleChat({ messages, model: 'small' });
+
+      expect(upstream.requests[0].headers['x-vendor-key']).toBe('secret');
+    });
+
+    test('should throw an upstream error if the response has no content at the configured path', async () => {
+      const adapter = new HttpSdkAdapter({ ...ollamaConfig(), response: { content: '$.output.text' } });
+
+      await expect(adapter.handleChat({ messages, model: 'llama3:8b' })).rejects.toMatchObject({
+        statusCode: httpStatus.BAD_GATEWAY,
+        code: adapterErrorCodes.UPSTREAM_ERROR,
+      });
+    });
+
+    test('should translate the error responses of the vendor', async () => {
+      const adapter = new HttpSdkAdapter(ollamaConfig());
+
+      await expect(adapter.handleChat({ messages, model: 'busy' })).rejects.toMatchObject({
+        statusCode: httpStatus.TOO_MANY_REQUESTS,
+        code: adapterErrorCodes.UPSTREAM_RATE_LIMITED,
+      });
+    });
+  });
+
+  describe('handleChatStream', () => {
+    test('should read every NDJSON line of the stream', async () => {
+      const adapter = new HttpSdkAdapter(ollamaConfig());
+      const onChunk = jest.fn();
+
+      const result = await adapter.handleChatStream({ messages, model: 'llama3:8b', onChunk });
+
+      expect(upstream.requests[0].body.stream).toBe(true);
+      expect(onChunk.mock.calls.map(([chunk]) => chunk)).toEqual(['echo: ', 'hello']);
+      expect(result.finishReason).toBe('stop');
+    });
+
+    test('should read every SSE event of the stream up to the done marker', async () => {
+      const adapter = new HttpSdkAdapter(openaiConfig());
+      const onChunk = jest.fn();
+
+      const result = await adapter.handleChatStream({ messages, model: 'small', onChunk });
+
+      expect(onChunk.mock.calls.map(([chunk]) => chunk)).toEqual(['echo: ', 'Q: hello']);
+      expect(result.finishReason).toBe('end_turn');
+    });
+
+    test('should send the whole answer as a single chunk if no stream is configured', async () => {
+      const adapter = new HttpSdkAdapter({ ...ollamaConfig(), stream: undefined });
+      const onChunk = jest.fn();
+
+      await adapter.handleChatStream({ messages, model: 'llama3:8b', onChunk });
+
+      expect(upstream.requests[0].body.stream).toBe(false);
+      expect(onChunk).toHaveBeenCalledWith('echo: hello');
+    });
+  });
+});
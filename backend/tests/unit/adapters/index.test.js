@@ -0,0 +1,83 @@
+const path = require('path');
+const httpStatus = require('http-status');
+const {
+  BaseAdapter,
+  registerAdapter,
+  getAdapter,
+  getProviderTypes,
+  loadAdapters,
+  createAdapter,
+} = require('../../../src/adapters');
+const SpawnCliAdapter = require('../../../src/adapters/spawnCli.adapter');
+const ReverseAdapter = require('../../fixtures/adapters/reverse.adapter');
+
+describe('Adapter registry', () => {
+  test('should register the built-in spawn-cli adapter', () => {
+    expect(getAdapter('spawn-cli')).toBe(SpawnCliAdapter);
+  });
+
+  test('should list the built-in provider types', () => {
+    expect(getProviderTypes()).toEqual(expect.arrayContaining(['spawn-cli', 'http-sdk', 'proxy', 'local']));
+  });
+
+  test('should refuse an adapter that does not extend BaseAdapter', () => {
+    expect(() => registerAdapter('invalid', class {})).toThrow();
+  });
+
+  test('should register every adapter module of a directory under its declared type', () => {
+    const types = loadAdapters(path.join(__dirname, '../../fixtures/adapters'));
+
+    expect(types).toEqual(['reverse']);
+    expect(getAdapter('reverse')).toBe(ReverseAdapter);
+    expect(getProviderTypes()).toContain('reverse');
+  });
+
+  test('should create an initialized adapter with the provider config and credentials', async () => {
+    registerAdapter('reverse', ReverseAdapter);
+    const initSpy = jest.spyOn(ReverseAdapter.prototype, 'init');
+
+    const adapter = await createAdapter({ type: 'reverse', adapterConfig: { a: 1 }, credentials: { apiKey: 'secret' } });
+
+    expect(adapter).toBeInstanceOf(ReverseAdapter);
+    expect(adapter.adapterConfig).toEqual({ a: 1 });
+    expect(adapter.credentials).toEqual({ apiKey: 'secret' });
+    expect(initSpy).toHaveBeenCalled();
+  });
+
+  test('should throw a 501 error if no adapter serves the provider type', async () => {
+    await expect(createAdapter({ type: 'unknown' })).rejects.toMatchObject({ statusCode: httpStatus.NOT_IMPLEMENTED });
+  });
+});
+
+describe('BaseAdapter', () => {
+  test('should declare no capabilities', () => {
+    expect(Object.values(BaseAdapter.capabilities).every((supported) => supported === false)).toBe(true);
+  });
+
+  test('should emulate streaming by sending the handleChat answer as a single chunk', async () => {
+    const onChunk = jest.fn();
+
+    const result = await new ReverseAdapter().handleChatStream({ messages: [{ role: 'user', content: 'abc' }], onChunk });
+
+    expect(onChunk).toHaveBeenCalledTimes(1);
+    expect(onChunk).toHaveBeenCalledWith('cba');
+    expect(result.finishReason).toBe('stop');
+  });
+
+  test('should report a healthy upstream if the ping prompt is answered', async () => {
+    await expect(new ReverseAdapter().healthCheck()).resolves.toEqual({ ok: true, latencyMs: expect.any(Number) });
+  });
+
+  test('should report an unhealthy upstream if the ping prompt fails', async () => {
+    await expect(new BaseAdapter().healthCheck()).resolves.toEqual({
+      ok: false,
+      latencyMs: expect.any(Number),
+      message: expect.any(String),
+    });
+  });
+
+  test('should throw a 501 error for unimplemented methods', async () => {
+    await expect(new BaseAdapter().handleChat({})).rejects.toMatchObject({ statusCode: httpStatus.NOT_IMPLEMENTED });
+    await expect(new BaseAdapter().handleEmbeddings({})).rejects.toMatchObject({ statusCode: httpStatus.NOT_IMPLEMENTED });
+  });
+});
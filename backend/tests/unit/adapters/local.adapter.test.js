@@ -0,0 +1,182 @@
+const http = require('http');
+const httpStatus = require('http-status');
+const LocalAdapter = require('../../../src/adapters/local.adapter');
+const AdapterError = require('../../../src/utils/AdapterError');
+const { adapterErrorCodes } = require('../../../src/config/adapters');
+const { startFakeOllama } = require('../../utils/fakeOllama');
+
+describe('LocalAdapter', () => {
+  const messages = [
+    { role: 'system', content: 'Be brief' },
+    { role: 'user', content: [{ type: 'text', text: 'hello' }] },
+  ];
+  let ollama;
+
+  beforeAll(async () => {
+    ollama = await startFakeOllama();
+  });
+
+  afterAll(async () => {
+    await ollama.close();
+  });
+
+  beforeEach(() => {
+    ollama.requests.length = 0;
+  });
+
+  describe('native Ollama API', () => {
+    let adapter;
+
+    beforeEach(() => {
+      adapter = new LocalAdapter({ baseUrl: ollama.url }, { apiKey: 'secret' });
+    });
+
+    test('should answer a chat with the content and usage of the server response', async () => {
+      const result = await adapter.handleChat({
+        messages,
+        model: 'llama3:8b',
+        options: { temperature: 0.2, max_tokens: 16, stop: 'END' },
+      });
+
+      expect(result).toEqual({
+        content: 'echo: hello',
+        finishReason: 'stop',
+        usage: { prompt_tokens: 5, completion_tokens: 3, total_tokens: 8 },
+      });
+      const [request] = ollama.requests;
+      expect(request.url).toBe('/api/chat');
+      expect(request.headers.authorization).toBe('Bearer secret');
+      expect(request.body).toEqual({
+        model: 'llama3:8b',
+        messages: [
+          { role: 'system', content: 'Be brief' },
+          { role: 'user', content: 'hello' },
+        ],
+        stream: false,
+        options: { temperature: 0.2, num_predict: 16, stop: ['END'] },
+      });
+    });
+
+    test('should ask for json output if response_format is json_object', async () => {
+      await adapter.handleChat({ messages, model: 'llama3:8b', options: { response_format: { type: 'json_object' } } });
+
+      expect(ollama.requests[0].body.format).toBe('json');
+    });
+
+    test('should stream the chunks of the server response', async () => {
+      const onChunk = jest.fn();
+
+      const result = await adapter.handleChatStream({ messages, model: 'llama3:8b', onChunk });
+
+      expect(onChunk.mock.calls.map(([chunk]) => chunk)).toEqual(['echo: ', 'hello']);
+      expect(result).toEqual({ finishReason: 'stop', usage: { prompt_tokens: 5, completion_tokens: 3, total_tokens: 8 } });
+    });
+
+    test('should create embeddings', async () => {
+      const result = await adapter.handleEmbeddings({ input: ['ab', 'abc'], model: 'nomic-embed-text' });
+
+      expect(result.data).toEqual([
+        [2, 0.5],
+        [3, 0.5],
+      ]);
+      expect(ollama.requests[0].url).toBe('/api/embed');
+    });
+
+    test('should list the models pulled on the server', async () => {
+      await expect(adapter.listRemoteModels()).resolves.toEqual([{ id: 'llama3:8b' }, { id: 'nomic-embed-text:latest' }]);
+    });
+
+    test('should throw an upstream error carrying the server message if the server fails', async () => {
+      const error = await adapter.handleChat({ messages, model: 'missing' }).catch((err) => err);
+
+      expect(error).toBeInstanceOf(AdapterError);
+      expect(error).toMatchObject({
+        statusCode: httpStatus.BAD_GATEWAY,
+        code: adapterErrorCodes.UPSTREAM_ERROR,
+        message: "model 'missing' not found, try pulling it first",
+      });
+      expect(error.details.upstreamStatus).toBe(httpStatus.NOT_FOUND);
+    });
+
+    test('should report a healthy server', async () => {
+      await expect(adapter.healthCheck()).resolves.toEqual({ ok: true, latencyMs: expect.any(Number) });
+    });
+  });
+
+  describe('OpenAI-compatible API', () => {
+    let adapter;
+
+    beforeEach(() => {
+      adapter = new LocalAdapter({ baseUrl: `${ollama.url}/`, api: 'openai' });
+    });
+
+    test('should forward the chat as an OpenAI request', async () => {
+      const result = await adapter.handleChat({ messages, model: 'llama3:8b', options: { temperature: 0.2 } });
+
+      expect(result).toEqual({
+        content: 'echo: hello',
+        finishReason: 'stop',
+        usage: { prompt_tokens: 5, completion_tokens: 3, total_tokens: 8 },
+      });
+      expect(ollama.requests[0]).toMatchObject({
+        url: '/v1/chat/completions',
+        body: { model: 'llama3:8b', messages, temperature: 0.2, stream: false },
+      });
+      expect(ollama.requests[0].headers.authorization).toBeUndefined();
+    });
+
+    test('should stream the chunks of the server events', async () => {
+      const onChunk = jest.fn();
+
+      const result = await adapter.handleChatStream({
+        messages: [{ role: 'user', content: 'hi' }],
+        model: 'llama3:8b',
+        onChunk,
+      });
+
+      expect(onChunk.mock.calls.map(([chunk]) => chunk)).toEqual(['echo: ', 'hi']);
+      expect(result.finishReason).toBe('stop');
+    });
+
+    test('should create embeddings', async () => {
+      const result = await adapter.handleEmbeddings({ input: 'abcd', model: 'nomic-embed-text' });
+
+      expect(result).toEqual({ data: [[4, 0.5]], usage: { prompt_tokens: 4, total_tokens: 4 } });
+    });
+
+    test('should list the models of the server', async () => {
+      await expect(adapter.listRemoteModels()).resolves.toEqual([{ id: 'llama3:8b' }, { id: 'nomic-embed-text:latest' }]);
+    });
+  });
+
+  describe('unreachable server', () => {
+    test('should reject with the network error if the server is down', async () => {
+      const server = http.createServer();
+      await new Promise((resolve) => server.listen(0, '127.0.0.1', resolve));
+      const { port } = server.address();
+      await new Promise((resolve) => server.close(resolve));
+      const adapter = new LocalAdapter({ baseUrl: `http://127.0.0.1:${port}` });
+
+      await expect(adapter.handleChat({ messages, model: 'llama3:8b' })).rejects.toMatchObject({ code: 'ECONNREFUSED' });
+    });
+
+    test('should reject with ETIMEDOUT if the server stays silent', async () => {
+      const sockets = [];
+      const server = http.createServer(() => {});
+      server.on('connection', (socket) => sockets.push(socket));
+      await new Promise((resolve) => server.listen(0, '127.0.0.1', resolve));
+      const adapter = new LocalAdapter({ baseUrl: `http://127.0.0.1:${server.address().port}`, timeoutSeconds: 0.2 });
+
+      await expect(adapter.handleChat({ messages, model: 'llama3:8b' })).rejects.toMatchObject({ code: 'ETIMEDOUT' });
+
+      sockets.forEach((socket) => socket.destroy());
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    test('should report an unhealthy server', async () => {
+      const adapter = new LocalAdapter({ baseUrl: 'http://127.0.0.1:1' });
+
+      await expect(adapter.healthCheck()).resolves.toMatchObject({ ok: false, message: expect.any(String) });
+    });
+  });
+});
@@ -0,0 +1,143 @@
+const httpStatus = require('http-status');
+const ProxyAdapter = require('../../../src/adapters/proxy.adapter');
+const AdapterError = require('../../../src/utils/AdapterError');
+const { adapterErrorCodes } = require('../../../src/config/adapters');
+const { startFakeOllama } = require('../../utils/fakeOllama');
+
+describe('ProxyAdapter', () => {
+  const messages = [{ role: 'user', content: 'hello' }];
+  let upstream;
+  let adapter;
+
+  beforeAll(async () => {
+    upstream = await startFakeOllama();
+  });
+
+  afterAll(async () => {
+    await upstream.close();
+  });
+
+  beforeEach(() => {
+    upstream.requests.length = 0;
+    adapter = new ProxyAdapter({ baseUrl: `${upstream.url}/v1/`, headers: { 'x-team': 'dyad' } }, { apiKey: 'secret' });
+  });
+
+  test('should throw an AdapterError if no base url is configured', () => {
+    expect(() => new ProxyAdapter({})).toThrow(AdapterError);
+  });
+
+  test('should forward the whole request body with the adapter model id', async () => {
+    const tools = [{ type: 'function', function: { name: 'lookup', parameters: {} } }];
+
+    await adapter.handleChat({ messages, model: 'upstream-model', options: { temperature: 0.3, tools, user: 'u1' } });
+
+    expect(upstream.requests[0]).toMatchObject({
+      method: 'POST',
+      url: '/v1/chat/completions',
+      body: { model: 'upstream-model', messages, temperature: 0.3, tools, user: 'u1' },
+    });
+  });
+
+  test('should resolve with the upstream completion', async () => {
+    const result = await adapter.handleChat({ messages, model: 'upstream-model' });
+
+    expect(result).toMatchObject({
+      content: 'echo: hello',
+      finishReason: 'stop',
+      usage: { prompt_tokens: 5, completion_tokens: 3, total_tokens: 8 },
+      completion: { id: 'chatcmpl-fake', system_fingerprint: 'fp_fake' },
+    });
+  });
+
+  test('should inject the credentials as a bearer token and add the configured headers', async () => {
+    await adapter.handleChat({ messages, model: 'upstream-model' });
+
+    expect(upstream.requests[0].headers).toMatchObject({ authorization: 'Bearer secret', 'x-team': 'dyad' });
+  });
+
+  test('should inject the credentials in a custom header', async () => {
+    adapter = new ProxyAdapter(
+      { baseUrl: `${upstream.url}/v1`, auth: { type: 'header', name: 'api-key' } },
+      { apiKey: 'secret' }
+    );
+
+    await adapter.handleChat({ messages, model: 'upstream-model' });
+
+    expect(upstream.requests[0].headers['api-key']).toBe('secret');
+    expect(upstream.requests[0].headers.authorization).toBeUndefined();
+  });
+
+  test('should inject the credentials as a query param', async () => {
+    adapter = new ProxyAdapter(
+      { baseUrl: `${upstream.url}/v1`, auth: { type: 'query', name: 'key' } },
+      { apiKey: 'secret' }
+    );
+
+    await adapter.handleChat({ messages, model: 'upstream-model' });
+
+    expect(upstream.requests[0].url).toBe('/v1/chat/completions?key=secret');
+  });
+
+  test('should call onChunk with the upstream chunks unchanged', async () => {
+    const onChunk = jest.fn();
+
+    await adapter.handleChatStream({ messages, model: 'upstream-model', onChunk });
+
+    expect(upstream.requests[0].body.stream).toBe(true);
+    expect(onChunk.mock.calls.map(([chunk]) => chunk)).toEqual([
+      {
+        id: 'chatcmpl-fake',
+        model: 'upstream-model',
+        choices: [{ index: 0, delta: { content: 'echo: ' }, finish_reason: null }],
+      },
+      {
+        id: 'chatcmpl-fake',
+        model: 'upstream-model',
+        choices: [{ index: 0, delta: { content: 'hello' }, finish_reason: null }],
+      },
+      { id: 'chatcmpl-fake', model: 'upstream-model', choices: [{ index: 0, delta: {}, finish_reason: 'stop' }] },
+    ]);
+  });
+
+  test('should propagate upstream invalid request errors as 400 errors', async () => {
+    const error = await adapter.handleChat({ messages, model: 'invalid' }).catch((err) => err);
+
+    expect(error).toBeInstanceOf(AdapterError);
+    expect(error).toMatchObject({
+      statusCode: httpStatus.BAD_REQUEST,
+      message: 'Context too long',
+      type: 'invalid_request_error',
+      param: 'messages',
+      code: adapterErrorCodes.UPSTREAM_ERROR,
+    });
+  });
+
+  test('should propagate upstream rate limits as 429 errors', async () => {
+    await expect(adapter.handleChat({ messages, model: 'busy' })).rejects.toMatchObject({
+      statusCode: httpStatus.TOO_MANY_REQUESTS,
+      type: 'rate_limit_error',
+      code: adapterErrorCodes.UPSTREAM_RATE_LIMITED,
+    });
+  });
+
+  test('should translate upstream server errors into 502 errors', async () => {
+    const error = await adapter.handleChatStream({ messages, model: 'broken', onChunk: jest.fn() }).catch((err) => err);
+
+    expect(error).toMatchObject({
+      statusCode: httpStatus.BAD_GATEWAY,
+      type: 'server_error',
+      code: adapterErrorCodes.UPSTREAM_ERROR,
+      details: { upstreamStatus: httpStatus.INTERNAL_SERVER_ERROR },
+    });
+  });
+
+  test('should forward embeddings', async () => {
+    const result = await adapter.handleEmbeddings({ input: 'abc', model: 'upstream-embed' });
+
+    expect(result).toEqual({ data: [[3, 0.5]], usage: { prompt_tokens: 4, total_tokens: 4 } });
+  });
+
+  test('should list the models of the upstream', async () => {
+    await expect(adapter.listRemoteModels()).resolves.toEqual([{ id: 'llama3:8b' }, { id: 'nomic-embed-text:latest' }]);
+  });
+});
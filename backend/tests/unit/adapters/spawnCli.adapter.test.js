@@ -0,0 +1,389 @@
+/* eslint-disable security/detect-non-literal-fs-filename */
+const fs = require('fs');
+const { AbortController } = require('abort-controller');
+const os = require('os');
+const path = require('path');
+const httpStatus = require('http-status');
+const SpawnCliAdapter = require('../../../src/adapters/spawnCli.adapter');
+const AdapterError = require('../../../src/utils/AdapterError');
+const { adapterErrorCodes } = require('../../../src/config/adapters');
+const { closeProcessPools } = require('../../../src/pools');
+const { registerContainerDriver } = require('../../../src/sandbox/drivers');
+const FakeDriver = require('../../utils/fakeContainerDriver');
+const { echoCliPath, replCliPath, ttyCliPath } = require('../../fixtures/provider.fixture');
+
+registerContainerDriver(FakeDriver.engine, FakeDriver);
+
+const isAlive = (pid) => {
+  try {
+    process.kill(pid, 0);
+  } catch (error) {
+    return false;
+  }
+  // a killed process that has not been reaped yet is a zombie
+  try {
+    return fs.readFileSync(`/proc/${pid}/stat`, 'utf8').split(' ')[2] !== 'Z';
+  } catch (error) {
+    return true;
+  }
+};
+
+// signals are delivered asynchronously, so give killed processes a moment to go away
+const waitForExit = async (pids, timeoutMs = 2000) => {
+  const deadline = Date.now() + timeoutMs;
+  while (pids.some(isAlive) && Date.now() < deadline) {
+    // eslint-disable-next-line no-await-in-loop
+    await new Promise((resolve) => setTimeout(resolve, 50));
+  }
+};
+
+describe('SpawnCliAdapter', () => {
+  const messages = [
+    { role: 'system', content: 'Be brief' },
+    { role: 'user', content: [{ type: 'text', text: 'hello' }] },
+  ];
+
+  const createAdapter = (args = [], adapterConfig = {}) =>
+    new SpawnCliAdapter({ command: process.execPath, args: [echoCliPath, ...args], ...adapterConfig });
+
+  describe('handleChat', () => {
+    test('should write the rendered prompt to stdin and return stdout as content', async () => {
+      const result = await createAdapter().handleChat({ messages });
+
+      expect(result).toEqual({ content: 'system: Be brief\n\nuser: hello', finishReason: 'stop' });
+    });
+
+    test('should render the prompt with the prompt config of the provider', async () => {
+      const result = await createAdapter([], { prompt: { format: 'last-user' } }).handleChat({ messages });
+
+      expect(result.content).toBe('hello');
+    });
+
+    test('should parse stdout with the output parser of the provider', async () => {
+      const adapter = createAdapter([], {
+        prompt: { format: 'last-user' },
+        output: { parser: 'json', content: '$.response', usage: { total_tokens: '$.tokens' } },
+      });
+
+      const result = await adapter.handleChat({ messages: [{ role: 'user', content: '{"response":"hi","tokens":3}' }] });
+
+      expect(result).toEqual({
+        content: 'hi',
+        finishReason: 'stop',
+        usage: { prompt_tokens: 0, completion_tokens: 0, total_tokens: 3 },
+      });
+    });
+
+    test('should throw a cli_output_invalid error if stdout cannot be parsed', async () => {
+      const adapter = createAdapter([], { output: { parser: 'json', content: '$.response' } });
+
+      await expect(adapter.handleChat({ messages })).rejects.toMatchObject({
+        statusCode: httpStatus.BAD_GATEWAY,
+        code: adapterErrorCodes.CLI_OUTPUT_INVALID,
+      });
+    });
+
+    test('should not interpret the arguments through a shell', async () => {
+      const result = await new SpawnCliAdapter({
+        command: process.execPath,
+        args: ['-e', 'process.stdout.write(process.argv[1])', '$(echo injected); echo'],
+      }).handleChat({ messages });
+
+      expect(result.content).toBe('$(echo injected); echo');
+    });
+
+    test('should throw a cli_exit_error including stderr if the CLI exits with a non-zero code', async () => {
+      const promise = createAdapter(['--exit', '3', '--stderr', 'quota exceeded']).handleChat({ messages });
+
+      await expect(promise).rejects.toThrow(AdapterError);
+      await expect(promise).rejects.toMatchObject({
+        statusCode: httpStatus.BAD_GATEWAY,
+        code: adapterErrorCodes.CLI_EXIT_ERROR,
+        message: expect.stringContaining('quota exceeded'),
+        details: { exitCode: 3, stderr: 'quota exceeded' },
+      });
+    });
+
+    test('should throw a cli_not_found error if the command does not exist', async () => {
+      const adapter = new SpawnCliAdapter({ command: path.join(os.tmpdir(), 'missing-cli-binary') });
+
+      await expect(adapter.handleChat({ messages })).rejects.toMatchObject({
+        statusCode: httpStatus.BAD_GATEWAY,
+        code: adapterErrorCodes.CLI_NOT_FOUND,
+      });
+    });
+
+    test('should throw a cli_timeout error and kill the whole process tree if the CLI runs too long', async () => {
+      const pidFile = path.join(os.tmpdir(), `echo-cli-${process.pid}-${Date.now()}.pid`);
+      const adapter = createAdapter(['--sleep', '30000', '--spawn-child', '--pid-file', pidFile], { timeoutSeconds: 0.5 });
+
+      await expect(adapter.handleChat({ messages })).rejects.toMatchObject({
+        statusCode: httpStatus.GATEWAY_TIMEOUT,
+        code: adapterErrorCodes.CLI_TIMEOUT,
+      });
+
+      const pids = fs.readFileSync(pidFile, 'utf8').split('\n').map(Number);
+      fs.unlinkSync(pidFile);
+      expect(pids).toHaveLength(2);
+      await waitForExit(pids);
+      pids.forEach((pid) => expect(isAlive(pid)).toBe(false));
+    });
+
+    test('should kill the CLI if the request is aborted', async () => {
+      const abortController = new AbortController();
+      const promise = createAdapter(['--sleep', '30000']).handleChat({ messages, signal: abortController.signal });
+      setTimeout(() => abortController.abort(), 100);
+
+      await expect(promise).rejects.toThrow('Request aborted');
+    });
+
+    test('should throw a cli_not_configured error if no command is configured', () => {
+      expect(() => new SpawnCliAdapter({})).toThrow(expect.objectContaining({ code: adapterErrorCodes.CLI_NOT_CONFIGURED }));
+    });
+  });
+
+  describe('handleChatStream', () => {
+    test('should forward stdout chunks as they are produced', async () => {
+      const onChunk = jest.fn();
+
+      const result = await createAdapter().handleChatStream({ messages, onChunk });
+
+      expect(result).toEqual({ finishReason: 'stop' });
+      expect(onChunk.mock.calls.map(([chunk]) => chunk).join('')).toBe('system: Be brief\n\nuser: hello');
+    });
+
+    test('should forward the content parsed from stdout', async () => {
+      const onChunk = jest.fn();
+      const adapter = createAdapter([], { output: { parser: 'regex', start: 'user: ' } });
+
+      await adapter.handleChatStream({ messages, onChunk });
+
+      expect(onChunk.mock.calls.map(([chunk]) => chunk).join('')).toBe('hello');
+    });
+  });
+
+  describe('workspace', () => {
+    const attach = (filename, text) => ({
+      type: 'file',
+      file: { filename, file_data: Buffer.from(text).toString('base64') },
+    });
+
+    test('should run the CLI in a fresh workspace and return the files it wrote', async () => {
+      const adapter = createAdapter(['--cat', 'notes.txt', '--write', 'answer.txt'], {
+        prompt: { format: 'last-user' },
+        workspace: {},
+      });
+
+      const result = await adapter.handleChat({
+        messages: [{ role: 'user', content: [{ type: 'text', text: 'hello' }, attach('notes.txt', 'seeded\n')] }],
+      });
+
+      expect(result.content).toBe('seeded\nhello');
+      expect(result.files).toEqual([
+        expect.objectContaining({
+          path: 'answer.txt',
+          status: 'created',
+          content: Buffer.from('hello').toString('base64'),
+        }),
+      ]);
+    });
+
+    test('should report the files the CLI deleted', async () => {
+      const adapter = createAdapter(['--delete', 'notes.txt'], { workspace: { returnContent: false } });
+
+      const result = await adapter.handleChatStream({
+        messages: [{ role: 'user', content: [attach('notes.txt', 'seeded')] }],
+        onChunk: jest.fn(),
+      });
+
+      expect(result.files).toEqual([{ path: 'notes.txt', status: 'deleted' }]);
+    });
+
+    test('should kill the CLI and throw a workspace_quota_exceeded error if the workspace outgrows its quota', async () => {
+      const adapter = createAdapter(['--fill', '4096'], { workspace: { quotaMb: 0.001 } });
+
+      await expect(adapter.handleChat({ messages })).rejects.toMatchObject({
+        statusCode: httpStatus.INSUFFICIENT_STORAGE,
+        code: adapterErrorCodes.WORKSPACE_QUOTA_EXCEEDED,
+      });
+    });
+  });
+
+  describe('pty', () => {
+    const questions = [
+      { pattern: 'Continue\\? \\[y/N\\]', send: 'y\n' },
+      { pattern: '> $', send: '{{prompt}}' },
+    ];
+    const createPtyAdapter = (args = [], adapterConfig = {}) =>
+      new SpawnCliAdapter({
+        command: process.execPath,
+        args: [ttyCliPath, ...args],
+        prompt: { format: 'last-user' },
+        usePty: true,
+        ...adapterConfig,
+      });
+
+    test('should run the CLI under a terminal of the configured size and answer its questions', async () => {
+      const adapter = createPtyAdapter([], { pty: { columns: 90, rows: 20, expect: questions } });
+
+      const result = await adapter.handleChat({ messages });
+
+      expect(result.content).toBe('\u001b[1mterminal 90x20\u001b[0m\nContinue? [y/N] > \nhello');
+    });
+
+    test('should type long prompts and control characters unchanged', async () => {
+      const content = `a\u0003b\u0004c\n${'x'.repeat(10000)}`;
+      const adapter = createPtyAdapter([], { pty: { expect: questions } });
+
+      const result = await adapter.handleChat({ messages: [{ role: 'user', content }] });
+
+      expect(result.content.split('> \n')[1]).toBe(content);
+    });
+
+    test('should throw a cli_exit_error with the screen output if the CLI fails', async () => {
+      const adapter = createPtyAdapter([], { pty: { expect: [{ pattern: 'y/N', send: 'n\n' }] } });
+
+      await expect(adapter.handleChat({ messages })).rejects.toMatchObject({
+        code: adapterErrorCodes.CLI_EXIT_ERROR,
+        message: expect.stringContaining('Aborted'),
+      });
+    });
+
+    test('should throw a cli_not_found error if the command does not exist', async () => {
+      const adapter = new SpawnCliAdapter({ command: '/nonexistent/cli', usePty: true });
+
+      await expect(adapter.handleChat({ messages })).rejects.toMatchObject({ code: adapterErrorCodes.CLI_NOT_FOUND });
+    });
+
+    test('should stream the screen output through the output parser', async () => {
+      const onChunk = jest.fn();
+      const adapter = createPtyAdapter([], {
+        pty: { expect: questions },
+        output: { parser: 'strip-ansi', skipLines: ['^terminal'] },
+      });
+
+      await adapter.handleChatStream({ messages, onChunk });
+
+      expect(onChunk.mock.calls.map(([chunk]) => chunk).join('')).toBe('Continue? [y/N] > \nhello\n');
+    });
+  });
+
+  describe('sandbox', () => {
+    const createScriptAdapter = (script, adapterConfig = {}) =>
+      new SpawnCliAdapter({ command: process.execPath, args: ['-e', script], ...adapterConfig });
+
+    test('should not pass the gateway secrets to the CLI', async () => {
+      process.env.GATEWAY_TEST_SECRET = 'secret';
+      const adapter = createScriptAdapter('process.stdout.write(JSON.stringify(process.env))', {
+        sandbox: { type: 'local', env: { set: { GREETING: 'hi' } } },
+      });
+
+      try {
+        const env = JSON.parse((await adapter.handleChat({ messages })).content);
+
+        expect(env.GATEWAY_TEST_SECRET).toBeUndefined();
+        expect(env).toMatchObject({ GREETING: 'hi', PATH: process.env.PATH });
+      } finally {
+        delete process.env.GATEWAY_TEST_SECRET;
+      }
+    });
+
+    test('should throw a sandbox_cpu_limit error if the CLI exceeds its CPU time', async () => {
+      const adapter = createScriptAdapter('for (;;) {}', { sandbox: { type: 'local', cpuSeconds: 1 } });
+
+      await expect(adapter.handleChat({ messages })).rejects.toMatchObject({
+        statusCode: httpStatus.BAD_GATEWAY,
+        code: adapterErrorCodes.SANDBOX_CPU_LIMIT,
+      });
+    });
+
+    test('should throw a sandbox_file_size_limit error if the CLI writes a file bigger than allowed', async () => {
+      const adapter = createAdapter(['--fill', String(2 * 1024 * 1024)], {
+        workspace: {},
+        sandbox: { type: 'local', fileSizeMb: 1 },
+      });
+
+      await expect(adapter.handleChat({ messages })).rejects.toMatchObject({
+        code: adapterErrorCodes.SANDBOX_FILE_SIZE_LIMIT,
+      });
+    });
+
+    test('should run the CLI without network if asked', async () => {
+      // the interfaces of the network namespace of the CLI
+      const script =
+        "process.stdout.write(require('fs').readFileSync('/proc/self/net/dev', 'utf8').match(/^ *\\w+(?=:)/gm).join())";
+      const adapter = createScriptAdapter(script, { sandbox: { type: 'local', network: 'none' } });
+
+      await expect(adapter.handleChat({ messages })).resolves.toMatchObject({ content: 'lo' });
+    });
+  });
+
+  describe('docker sandbox', () => {
+    test('should run the CLI in a container of the sandbox image, with the workspace mounted', async () => {
+      const adapter = createAdapter(['--cat', 'notes.txt'], {
+        prompt: { format: 'last-user' },
+        workspace: {},
+        dockerSandbox: true,
+        sandboxImage: 'cli-runner:latest',
+        sandbox: { engine: 'fake', cpus: 0.5 },
+      });
+
+      const result = await adapter.handleChat({
+        messages: [
+          {
+            role: 'user',
+            content: [
+              { type: 'text', text: 'hello' },
+              { type: 'file', file: { filename: 'notes.txt', file_data: Buffer.from('seeded\n').toString('base64') } },
+            ],
+          },
+        ],
+      });
+
+      expect(result.content).toBe('seeded\nhello');
+      expect(FakeDriver.containers[FakeDriver.containers.length - 1]).toMatchObject({
+        image: 'cli-runner:latest',
+        command: process.execPath,
+        cpus: 0.5,
+        network: 'none',
+        workspace: { source: expect.any(String), target: '/workspace' },
+      });
+    });
+  });
+
+  describe('pool', () => {
+    const createPooledAdapter = (providerId) =>
+      new SpawnCliAdapter(
+        { command: process.execPath, args: [replCliPath], prompt: { format: 'last-user' }, pool: { size: 1 } },
+        {},
+        { providerId }
+      );
+
+    afterAll(() => {
+      closeProcessPools();
+    });
+
+    test('should send the prompts of every adapter of a provider to the same process', async () => {
+      const first = await createPooledAdapter('provider-1').handleChat({ messages });
+      const second = await createPooledAdapter('provider-1').handleChat({ messages });
+
+      expect(first.content).toMatch(/^\d+: hello$/);
+      expect(second.content).toBe(first.content);
+    });
+
+    test('should give every provider its own pool', async () => {
+      const first = await createPooledAdapter('provider-1').handleChat({ messages });
+      const second = await createPooledAdapter('provider-2').handleChat({ messages });
+
+      expect(second.content).not.toBe(first.content);
+    });
+
+    test('should stream the answers of the pooled process', async () => {
+      const onChunk = jest.fn();
+
+      await createPooledAdapter('provider-1').handleChatStream({ messages, onChunk });
+
+      expect(onChunk.mock.calls.map(([chunk]) => chunk).join('')).toMatch(/^\d+: hello$/);
+    });
+  });
+});
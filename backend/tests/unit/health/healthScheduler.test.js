@@ -0,0 +1,75 @@
+const { HealthScheduler } = require('../../../src/health');
+
+describe('HealthScheduler', () => {
+  let scheduler;
+
+  // let the pending round settle
+  const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+  beforeEach(() => {
+    jest.useFakeTimers({ doNotFake: ['setImmediate'] });
+  });
+
+  afterEach(() => {
+    scheduler.stop();
+    jest.useRealTimers();
+  });
+
+  test('should run a round on start, then every interval', async () => {
+    const task = jest.fn().mockResolvedValue();
+    scheduler = new HealthScheduler({ intervalSeconds: 60, task });
+
+    scheduler.start();
+    await flush();
+    expect(task).toHaveBeenCalledTimes(1);
+
+    jest.advanceTimersByTime(60 * 1000);
+    await flush();
+    expect(task).toHaveBeenCalledTimes(2);
+    expect(scheduler.rounds).toBe(2);
+  });
+
+  test('should wait for a round to end before scheduling the next one', async () => {
+    let endRound;
+    const task = jest.fn(
+      () =>
+        new Promise((resolve) => {
+          endRound = resolve;
+        })
+    );
+    scheduler = new HealthScheduler({ intervalSeconds: 1, task });
+
+    scheduler.start();
+    jest.advanceTimersByTime(5 * 1000);
+    expect(task).toHaveBeenCalledTimes(1);
+
+    endRound();
+    await flush();
+    jest.advanceTimersByTime(1000);
+    expect(task).toHaveBeenCalledTimes(2);
+  });
+
+  test('should keep scheduling rounds after a round failed', async () => {
+    const task = jest.fn().mockRejectedValueOnce(new Error('mongo is down')).mockResolvedValue();
+    scheduler = new HealthScheduler({ intervalSeconds: 1, task });
+
+    scheduler.start();
+    await flush();
+    jest.advanceTimersByTime(1000);
+    await flush();
+
+    expect(task).toHaveBeenCalledTimes(2);
+  });
+
+  test('should not run rounds once stopped', async () => {
+    const task = jest.fn().mockResolvedValue();
+    scheduler = new HealthScheduler({ intervalSeconds: 1, task });
+
+    scheduler.start();
+    await flush();
+    scheduler.stop();
+    jest.advanceTimersByTime(5 * 1000);
+
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+});
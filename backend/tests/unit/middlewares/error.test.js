@@ -3,6 +3,7 @@ const httpStatus = require('http-status');
 const httpMocks = require('node-mocks-http');
 const { errorConverter, errorHandler } = require('../../../src/middlewares/error');
 const ApiError = require('../../../src/utils/ApiError');
+const AdapterError = require('../../../src/utils/AdapterError');
 const config = require('../../../src/config/config');
 const logger = require('../../../src/config/logger');
 
@@ -83,6 +84,57 @@ describe('Error middlewares', () => {
       );
     });
 
+    test('should convert an upstream timeout to an operational ApiError with status 504', () => {
+      const error = new Error('connect ETIMEDOUT 10.0.0.1:443');
+      error.code = 'ETIMEDOUT';
+      const next = jest.fn();
+
+      errorConverter(error, httpMocks.createRequest(), httpMocks.createResponse(), next);
+
+      expect(next).toHaveBeenCalledWith(expect.any(AdapterError));
+      expect(next).toHaveBeenCalledWith(
+        expect.objectContaining({
+          statusCode: httpStatus.GATEWAY_TIMEOUT,
+          type: 'server_error',
+          code: 'upstream_timeout',
+          isOperational: true,
+        })
+      );
+    });
+
+    test('should convert an upstream connection error to an operational ApiError with status 502', () => {
+      const error = new Error('read ECONNRESET');
+      error.code = 'ECONNRESET';
+      const next = jest.fn();
+
+      errorConverter(error, httpMocks.createRequest(), httpMocks.createResponse(), next);
+
+      expect(next).toHaveBeenCalledWith(
+        expect.objectContaining({
+          statusCode: httpStatus.BAD_GATEWAY,
+          code: 'upstream_unavailable',
+          isOperational: true,
+        })
+      );
+    });
+
+    test('should convert a body parser error to an operational ApiError with its status', () => {
+      const error = new Error('request entity too large');
+      Object.assign(error, { statusCode: httpStatus.REQUEST_ENTITY_TOO_LARGE, expose: true, type: 'entity.too.large' });
+      const next = jest.fn();
+
+      errorConverter(error, httpMocks.createRequest(), httpMocks.createResponse(), next);
+
+      expect(next).toHaveBeenCalledWith(
+        expect.objectContaining({
+          statusCode: httpStatus.REQUEST_ENTITY_TOO_LARGE,
+          message: error.message,
+          type: 'invalid_request_error',
+          isOperational: true,
+        })
+      );
+    });
+
     test('should convert any other object to ApiError with status 500 and its message', () => {
       const error = {};
       const next = jest.fn();
@@ -148,6 +200,64 @@ describe('Error middlewares', () => {
       config.env = process.env.NODE_ENV;
     });
 
+    test('should send an OpenAI error body if the route uses the OpenAI error format', () => {
+      const error = new ApiError(httpStatus.BAD_REQUEST, 'Any error', true, '', { param: 'model', code: 'any_code' });
+      const res = httpMocks.createResponse({ locals: { errorFormat: 'openai' } });
+      const sendSpy = jest.spyOn(res, 'send');
+
+      errorHandler(error, httpMocks.createRequest(), res);
+
+      expect(res.statusCode).toBe(httpStatus.BAD_REQUEST);
+      expect(sendSpy).toHaveBeenCalledWith({
+        error: { message: 'Any error', type: 'invalid_request_error', param: 'model', code: 'any_code' },
+      });
+    });
+
+    test('should derive the OpenAI error type from the status', () => {
+      const types = [
+        [httpStatus.UNAUTHORIZED, 'authentication_error'],
+        [httpStatus.TOO_MANY_REQUESTS, 'rate_limit_error'],
+        [httpStatus.BAD_GATEWAY, 'server_error'],
+        [httpStatus.NOT_FOUND, 'invalid_request_error'],
+      ];
+      types.forEach(([statusCode, type]) => {
+        const res = httpMocks.createResponse({ locals: { errorFormat: 'openai' } });
+        const sendSpy = jest.spyOn(res, 'send');
+
+        errorHandler(new ApiError(statusCode, 'Any error'), httpMocks.createRequest(), res);
+
+        expect(sendSpy).toHaveBeenCalledWith({ error: expect.objectContaining({ type }) });
+      });
+    });
+
+    test('should propagate the error returned by the upstream provider', () => {
+      const upstreamError = { message: 'Context too long', type: 'invalid_request_error', param: 'messages', code: null };
+      const error = new AdapterError(httpStatus.BAD_REQUEST, 'upstream_error', upstreamError.message, { upstreamError });
+      const res = httpMocks.createResponse({ locals: { errorFormat: 'openai' } });
+      const sendSpy = jest.spyOn(res, 'send');
+
+      errorHandler(error, httpMocks.createRequest(), res);
+
+      expect(sendSpy).toHaveBeenCalledWith({
+        error: { message: 'Context too long', type: 'invalid_request_error', param: 'messages', code: 'upstream_error' },
+      });
+    });
+
+    test('should mask non operational errors in the OpenAI error body if in production mode', () => {
+      config.env = 'production';
+      const error = new ApiError(httpStatus.BAD_REQUEST, 'Any error', false);
+      const res = httpMocks.createResponse({ locals: { errorFormat: 'openai' } });
+      const sendSpy = jest.spyOn(res, 'send');
+
+      errorHandler(error, httpMocks.createRequest(), res);
+
+      expect(res.statusCode).toBe(httpStatus.INTERNAL_SERVER_ERROR);
+      expect(sendSpy).toHaveBeenCalledWith({
+        error: { message: httpStatus[httpStatus.INTERNAL_SERVER_ERROR], type: 'server_error', param: null, code: null },
+      });
+      config.env = process.env.NODE_ENV;
+    });
+
     test('should preserve original error status and message if in production mode and error is operational', () => {
       config.env = 'production';
       const error = new ApiError(httpStatus.BAD_REQUEST, 'Any error');
@@ -0,0 +1,139 @@
+const { EventEmitter } = require('events');
+const httpStatus = require('http-status');
+const httpMocks = require('node-mocks-http');
+const { createIdempotency } = require('../../../src/middlewares/idempotency');
+const ApiError = require('../../../src/utils/ApiError');
+
+describe('Idempotency middleware', () => {
+  let idempotency;
+
+  const callIdempotency = (key, body = { model: 'cli-echo' }) => {
+    const req = httpMocks.createRequest({
+      method: 'POST',
+      url: '/v1/chat/completions',
+      headers: key ? { 'idempotency-key': key } : {},
+      body,
+    });
+    req.apiKey = { id: 'key' };
+    const res = httpMocks.createResponse({ eventEmitter: EventEmitter });
+    const next = jest.fn();
+    const done = idempotency(req, res, next);
+    return { res, next, done };
+  };
+
+  const answer = (res, statusCode = httpStatus.OK) => {
+    res.status(statusCode).set('content-type', 'application/json');
+    res.end(JSON.stringify({ id: 'chatcmpl-1' }));
+  };
+
+  beforeEach(() => {
+    idempotency = createIdempotency({ windowSeconds: 60 });
+  });
+
+  test('should let the requests without an Idempotency-Key header through', async () => {
+    const first = callIdempotency();
+    answer(first.res);
+    const second = callIdempotency();
+    await second.done;
+
+    expect(second.next).toHaveBeenCalledWith();
+  });
+
+  test('should replay the response of a successful request with the same key', async () => {
+    const first = callIdempotency('abc');
+    expect(first.next).toHaveBeenCalledWith();
+    answer(first.res);
+
+    const second = callIdempotency('abc');
+    await second.done;
+
+    expect(second.next).not.toHaveBeenCalled();
+    expect(second.res.statusCode).toBe(httpStatus.OK);
+    expect(second.res.getHeader('idempotent-replayed')).toBe('true');
+    expect(second.res._getBuffer().toString()).toBe(JSON.stringify({ id: 'chatcmpl-1' }));
+  });
+
+  test('should make a duplicate of a request in flight wait for its response', async () => {
+    const first = callIdempotency('abc');
+    const second = callIdempotency('abc');
+    answer(first.res);
+    await second.done;
+
+    expect(second.next).not.toHaveBeenCalled();
+    expect(second.res.getHeader('idempotent-replayed')).toBe('true');
+  });
+
+  test('should run the request again if the original request failed', async () => {
+    const first = callIdempotency('abc');
+    answer(first.res, httpStatus.BAD_GATEWAY);
+    const second = callIdempotency('abc');
+    await second.done;
+
+    expect(second.next).toHaveBeenCalledWith();
+  });
+
+  test('should run a duplicate waiting for a request in flight if that request failed', async () => {
+    const first = callIdempotency('abc');
+    const second = callIdempotency('abc');
+    answer(first.res, httpStatus.BAD_GATEWAY);
+    await second.done;
+
+    expect(second.next).toHaveBeenCalledWith();
+    expect(second.res.getHeader('idempotent-replayed')).toBeUndefined();
+  });
+
+  test('should run the request again if the original stream failed after its first chunk', async () => {
+    const first = callIdempotency('abc');
+    first.res.locals.streamFailed = true;
+    answer(first.res);
+    const second = callIdempotency('abc');
+    await second.done;
+
+    expect(second.next).toHaveBeenCalledWith();
+  });
+
+  test('should forget the oldest keys beyond maxEntries', async () => {
+    idempotency = createIdempotency({ windowSeconds: 60, maxEntries: 1 });
+    answer(callIdempotency('abc').res);
+    answer(callIdempotency('def').res);
+    const kept = callIdempotency('def');
+    await kept.done;
+    const forgotten = callIdempotency('abc');
+    await forgotten.done;
+
+    expect(kept.next).not.toHaveBeenCalled();
+    expect(forgotten.next).toHaveBeenCalledWith();
+  });
+
+  test('should not record the responses bigger than maxBodyKb', async () => {
+    idempotency = createIdempotency({ windowSeconds: 60, maxBodyKb: 1 });
+    const first = callIdempotency('abc');
+    first.res.status(httpStatus.OK).end('x'.repeat(2048));
+    const second = callIdempotency('abc');
+    await second.done;
+
+    expect(second.next).toHaveBeenCalledWith();
+  });
+
+  test('should call next with a 422 error if the key is reused with another body', async () => {
+    callIdempotency('abc');
+    const second = callIdempotency('abc', { model: 'other' });
+    await second.done;
+
+    expect(second.next).toHaveBeenCalledWith(expect.any(ApiError));
+    expect(second.next.mock.calls[0][0]).toMatchObject({
+      statusCode: httpStatus.UNPROCESSABLE_ENTITY,
+      code: 'idempotency_key_reused',
+    });
+  });
+
+  test('should not deduplicate when the window is 0', async () => {
+    idempotency = createIdempotency({ windowSeconds: 0 });
+    const first = callIdempotency('abc');
+    answer(first.res);
+    const second = callIdempotency('abc');
+    await second.done;
+
+    expect(second.next).toHaveBeenCalledWith();
+  });
+});
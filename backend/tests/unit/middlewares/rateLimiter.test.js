@@ -0,0 +1,105 @@
+const { EventEmitter } = require('events');
+const httpStatus = require('http-status');
+const httpMocks = require('node-mocks-http');
+const { createGatewayLimiter } = require('../../../src/middlewares/rateLimiter');
+const { MemoryStore } = require('../../../src/rateLimitStores');
+const ApiError = require('../../../src/utils/ApiError');
+
+describe('Gateway rate limiter', () => {
+  let store;
+  let defaults;
+
+  const createResponse = () => httpMocks.createResponse({ eventEmitter: EventEmitter });
+
+  const callLimiter = async (apiKey, res = createResponse()) => {
+    const req = httpMocks.createRequest();
+    req.apiKey = apiKey;
+    const next = jest.fn();
+    await createGatewayLimiter({ store, defaults })(req, res, next);
+    return { res, next };
+  };
+
+  beforeEach(() => {
+    store = new MemoryStore();
+    defaults = { requestsPerMinute: 2, tokensPerMinute: 100, maxConcurrent: 0 };
+  });
+
+  test('should not limit requests which are not authenticated with an API key', async () => {
+    defaults.requestsPerMinute = 1;
+    await callLimiter(undefined);
+    const { next } = await callLimiter(undefined);
+
+    expect(next).toHaveBeenCalledWith();
+  });
+
+  test('should set the x-ratelimit headers', async () => {
+    const { res, next } = await callLimiter({ id: 'key' });
+
+    expect(next).toHaveBeenCalledWith();
+    expect(res.getHeader('x-ratelimit-limit-requests')).toBe(2);
+    expect(res.getHeader('x-ratelimit-remaining-requests')).toBe(1);
+    expect(res.getHeader('x-ratelimit-reset-requests')).toMatch(/^\d+s$/);
+    expect(res.getHeader('x-ratelimit-limit-tokens')).toBe(100);
+    expect(res.getHeader('x-ratelimit-remaining-tokens')).toBe(100);
+  });
+
+  test('should call next with a 429 error and set retry-after once the requests per minute are used', async () => {
+    await callLimiter({ id: 'key' });
+    await callLimiter({ id: 'key' });
+    const { res, next } = await callLimiter({ id: 'key' });
+
+    expect(next).toHaveBeenCalledWith(expect.any(ApiError));
+    expect(next).toHaveBeenCalledWith(
+      expect.objectContaining({
+        statusCode: httpStatus.TOO_MANY_REQUESTS,
+        type: 'rate_limit_error',
+        code: 'rate_limit_exceeded',
+      })
+    );
+    expect(Number(res.getHeader('retry-after'))).toBeGreaterThan(0);
+  });
+
+  test('should count the requests of each API key separately', async () => {
+    await callLimiter({ id: 'key' });
+    await callLimiter({ id: 'key' });
+    const { next } = await callLimiter({ id: 'other-key' });
+
+    expect(next).toHaveBeenCalledWith();
+  });
+
+  test('should use the limits of the API key over the defaults', async () => {
+    const apiKey = { id: 'key', rateLimits: { requestsPerMinute: 0 } };
+    await callLimiter(apiKey);
+    await callLimiter(apiKey);
+    const { next } = await callLimiter(apiKey);
+
+    expect(next).toHaveBeenCalledWith();
+  });
+
+  test('should reject requests once the tokens per minute are used', async () => {
+    const { res } = await callLimiter({ id: 'key' });
+    res.locals.usage = { prompt_tokens: 60, completion_tokens: 40, total_tokens: 100 };
+    res.emit('finish');
+    await new Promise(setImmediate);
+
+    const { next } = await callLimiter({ id: 'key' });
+
+    expect(next).toHaveBeenCalledWith(expect.objectContaining({ statusCode: httpStatus.TOO_MANY_REQUESTS }));
+  });
+
+  test('should reject requests over the concurrency cap until a request finishes', async () => {
+    defaults.maxConcurrent = 1;
+    defaults.requestsPerMinute = 0;
+    const { res } = await callLimiter({ id: 'key' });
+
+    const { next: rejectedNext } = await callLimiter({ id: 'key' });
+    expect(rejectedNext).toHaveBeenCalledWith(expect.objectContaining({ statusCode: httpStatus.TOO_MANY_REQUESTS }));
+
+    res.emit('finish');
+    res.emit('close');
+    await new Promise(setImmediate);
+
+    const { next } = await callLimiter({ id: 'key' });
+    expect(next).toHaveBeenCalledWith();
+  });
+});
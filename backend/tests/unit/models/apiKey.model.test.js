@@ -0,0 +1,68 @@
+const mongoose = require('mongoose');
+const { ApiKey } = require('../../../src/models');
+
+describe('ApiKey model', () => {
+  describe('ApiKey validation', () => {
+    let newApiKey;
+    beforeEach(() => {
+      newApiKey = {
+        name: 'Dyad desktop',
+        prefix: 'dyad_abcdef',
+        hashedKey: ApiKey.hashKey('dyad_abcdef0123456789'),
+        user: mongoose.Types.ObjectId(),
+        scopes: ['chat'],
+      };
+    });
+
+    test('should correctly validate a valid API key', async () => {
+      await expect(new ApiKey(newApiKey).validate()).resolves.toBeUndefined();
+    });
+
+    test('should throw a validation error if a scope is unknown', async () => {
+      newApiKey.scopes = ['admin'];
+      await expect(new ApiKey(newApiKey).validate()).rejects.toThrow();
+    });
+
+    test('should throw a validation error if the owner is missing', async () => {
+      delete newApiKey.user;
+      await expect(new ApiKey(newApiKey).validate()).rejects.toThrow();
+    });
+  });
+
+  describe('ApiKey toJSON()', () => {
+    test('should not return the hashed key when toJSON is called', () => {
+      const apiKey = new ApiKey({ name: 'Dyad desktop', hashedKey: 'hash' });
+      expect(apiKey.toJSON()).not.toHaveProperty('hashedKey');
+    });
+  });
+
+  describe('ApiKey hashKey()', () => {
+    test('should return a stable hash different from the key', () => {
+      const key = 'dyad_abcdef0123456789';
+      expect(ApiKey.hashKey(key)).toBe(ApiKey.hashKey(key));
+      expect(ApiKey.hashKey(key)).not.toContain(key);
+    });
+  });
+
+  describe('ApiKey isExpired()', () => {
+    test('should return false if the key has no expiry date', () => {
+      expect(new ApiKey({}).isExpired()).toBe(false);
+    });
+
+    test('should return true if the expiry date is past', () => {
+      expect(new ApiKey({ expiresAt: new Date(Date.now() - 1000) }).isExpired()).toBe(true);
+    });
+  });
+
+  describe('ApiKey canUseModel()', () => {
+    test('should allow every model if the allowlist is empty', () => {
+      expect(new ApiKey({}).canUseModel('cli-echo')).toBe(true);
+    });
+
+    test('should only allow the models of the allowlist', () => {
+      const apiKey = new ApiKey({ models: ['llama3'] });
+      expect(apiKey.canUseModel('llama3')).toBe(true);
+      expect(apiKey.canUseModel('cli-echo')).toBe(false);
+    });
+  });
+});
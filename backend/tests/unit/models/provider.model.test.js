@@ -0,0 +1,82 @@
+const { Provider } = require('../../../src/models');
+
+describe('Provider model', () => {
+  describe('Provider validation', () => {
+    let newProvider;
+    beforeEach(() => {
+      newProvider = {
+        name: 'Gemini CLI',
+        slug: 'gemini-cli',
+        type: 'spawn-cli',
+        models: [{ dyadModelId: 'gemini-2.5-pro', adapterModelId: 'gemini-2.5-pro', maxTokens: 4096, contextWindow: 32768 }],
+        adapterConfig: { command: '/usr/local/bin/gemini', args: ['--json'] },
+        credentials: { apiKey: 'secret' },
+      };
+    });
+
+    test('should correctly validate a valid provider', async () => {
+      await expect(new Provider(newProvider).validate()).resolves.toBeUndefined();
+    });
+
+    test('should throw a validation error if type is unknown', async () => {
+      newProvider.type = 'invalid';
+      await expect(new Provider(newProvider).validate()).rejects.toThrow();
+    });
+
+    test('should throw a validation error if slug contains invalid characters', async () => {
+      newProvider.slug = 'gemini cli!';
+      await expect(new Provider(newProvider).validate()).rejects.toThrow();
+    });
+
+    test('should throw a validation error if a model mapping has no adapter model id', async () => {
+      delete newProvider.models[0].adapterModelId;
+      await expect(new Provider(newProvider).validate()).rejects.toThrow();
+    });
+
+    test('should throw a validation error if maxTokens is not positive', async () => {
+      newProvider.models[0].maxTokens = 0;
+      await expect(new Provider(newProvider).validate()).rejects.toThrow();
+    });
+
+    test('should throw a validation error if a fallback has no provider', async () => {
+      newProvider.models[0].fallbacks = [{ model: 'gemini-2.5-pro' }];
+      await expect(new Provider(newProvider).validate()).rejects.toThrow();
+    });
+
+    test('should not store fallbacks on the model mappings without any', () => {
+      expect(new Provider(newProvider).toJSON().models[0]).not.toHaveProperty('fallbacks');
+    });
+
+    test('should default enabled to true', () => {
+      expect(new Provider(newProvider).enabled).toBe(true);
+    });
+  });
+
+  describe('Provider toJSON()', () => {
+    test('should not return provider credentials when toJSON is called', () => {
+      const newProvider = {
+        name: 'Gemini CLI',
+        slug: 'gemini-cli',
+        type: 'spawn-cli',
+        credentials: { apiKey: 'secret' },
+      };
+      expect(new Provider(newProvider).toJSON()).not.toHaveProperty('credentials');
+    });
+  });
+
+  describe('Provider getModelMapping()', () => {
+    test('should return the mapping of the given Dyad model id', () => {
+      const provider = new Provider({
+        name: 'Gemini CLI',
+        slug: 'gemini-cli',
+        type: 'spawn-cli',
+        models: [
+          { dyadModelId: 'gemini-2.5-pro', adapterModelId: 'pro' },
+          { dyadModelId: 'gemini-2.5-flash', adapterModelId: 'flash' },
+        ],
+      });
+      expect(provider.getModelMapping('gemini-2.5-flash')).toMatchObject({ adapterModelId: 'flash' });
+      expect(provider.getModelMapping('unknown')).toBeUndefined();
+    });
+  });
+});
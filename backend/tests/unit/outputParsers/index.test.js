@@ -0,0 +1,178 @@
+const httpStatus = require('http-status');
+const { BaseOutputParser, registerOutputParser, createOutputParser } = require('../../../src/outputParsers');
+const AdapterError = require('../../../src/utils/AdapterError');
+const { adapterErrorCodes } = require('../../../src/config/adapters');
+
+// feed the output in small pieces, like a CLI flushing its stdout, and collect the streamed content
+const stream = (parser, output, pieceLength = 5) => {
+  const chunks = [];
+  for (let index = 0; index < output.length; index += pieceLength) {
+    chunks.push(parser.push(output.slice(index, index + pieceLength)));
+  }
+  const result = parser.end();
+  chunks.push(result.content);
+  return { chunks: chunks.filter(Boolean), content: chunks.join(''), usage: result.usage };
+};
+
+describe('Output parsers', () => {
+  describe('createOutputParser', () => {
+    test('should create a raw parser by default', () => {
+      expect(createOutputParser().constructor.type).toBe('raw');
+    });
+
+    test('should throw an AdapterError if the parser is unknown', () => {
+      expect(() => createOutputParser({ parser: 'xml' })).toThrow(AdapterError);
+    });
+
+    test('should create the custom registered parsers', () => {
+      class UpperCaseParser extends BaseOutputParser {
+        static get type() {
+          return 'upper-case';
+        }
+
+        push(text) {
+          return super.push(text).toUpperCase();
+        }
+      }
+      registerOutputParser(UpperCaseParser.type, UpperCaseParser);
+
+      expect(createOutputParser({ parser: 'upper-case' }).parse('hello').content).toBe('HELLO');
+    });
+  });
+
+  describe('raw', () => {
+    test('should return stdout unchanged', () => {
+      expect(stream(createOutputParser(), '\u001b[1mhello\u001b[0m\n').content).toBe('\u001b[1mhello\u001b[0m\n');
+    });
+
+    test('should read the usage the CLI prints with the usage patterns', () => {
+      const parser = createOutputParser({
+        usagePatterns: { prompt_tokens: 'Input tokens: (\\d+)', completion_tokens: 'Output tokens: (\\d+)' },
+      });
+
+      expect(parser.parse('hello\nInput tokens: 12\nOutput tokens: 30\n').usage).toEqual({
+        prompt_tokens: 12,
+        completion_tokens: 30,
+        total_tokens: 42,
+      });
+    });
+  });
+
+  describe('strip-ansi', () => {
+    test('should remove colours, spinners, skipped lines and leading blank lines', () => {
+      const parser = createOutputParser({ parser: 'strip-ansi', skipLines: ['^Loaded cached credentials'] });
+      const output =
+        '\u001b[2K\u001b[36m⠋ Thinking\r⠙ Thinking\r\u001b[0m\nLoaded cached credentials.\n\n\u001b[1mHello\u001b[0m world\nBye';
+
+      const result = stream(parser, output);
+
+      expect(result.content).toBe('Hello world\nBye');
+      expect(result.chunks).toEqual(['Hello world\n', 'Bye']);
+    });
+  });
+
+  describe('json', () => {
+    test('should read the content and usage of the JSON document printed among other lines', () => {
+      const parser = createOutputParser({
+        parser: 'json',
+        content: '$.response',
+        usage: { prompt_tokens: '$.stats.input', completion_tokens: '$.stats.output' },
+      });
+      const output = `Loaded cached credentials.\n${JSON.stringify({
+        response: 'Hello',
+        stats: { input: 3, output: 1 },
+      })}\n`;
+
+      const result = stream(parser, output);
+
+      expect(result.chunks).toEqual(['Hello']);
+      expect(result.usage).toEqual({ prompt_tokens: 3, completion_tokens: 1, total_tokens: 4 });
+    });
+
+    test('should throw a cli_output_invalid error with a redacted excerpt if the output is not JSON', () => {
+      const parser = createOutputParser({ parser: 'json', content: '$.response' });
+
+      let error;
+      try {
+        parser.parse('Error: invalid key AIzaSyA0123456789abcdefghijk');
+      } catch (parseError) {
+        error = parseError;
+      }
+
+      expect(error).toBeInstanceOf(AdapterError);
+      expect(error).toMatchObject({
+        statusCode: httpStatus.BAD_GATEWAY,
+        code: adapterErrorCodes.CLI_OUTPUT_INVALID,
+        details: { parser: 'json', stdout: 'Error: invalid key [REDACTED]' },
+      });
+      expect(error.message).toContain('no JSON document found');
+      expect(error.message).not.toContain('AIza');
+    });
+
+    test('should throw a cli_output_invalid error if the content path does not exist', () => {
+      const parser = createOutputParser({ parser: 'json', content: '$.response' });
+
+      expect(() => parser.parse('{"error":"quota"}')).toThrow('no content found at $.response');
+    });
+  });
+
+  describe('jsonl', () => {
+    const output = [
+      'Starting session...',
+      JSON.stringify({ type: 'init', session: 's1' }),
+      JSON.stringify({ type: 'message', text: 'Hel' }),
+      JSON.stringify({ type: 'message', text: 'lo' }),
+      JSON.stringify({ type: 'result', usage: { input_tokens: 7, output_tokens: 2 } }),
+    ].join('\n');
+
+    test('should map the events to chunks and read the usage', () => {
+      const parser = createOutputParser({
+        parser: 'jsonl',
+        content: '$.text',
+        filter: { path: '$.type', value: 'message' },
+        usage: { prompt_tokens: '$.usage.input_tokens', completion_tokens: '$.usage.output_tokens' },
+      });
+
+      const result = stream(parser, output);
+
+      expect(result.chunks).toEqual(['Hel', 'lo']);
+      expect(result.usage).toEqual({ prompt_tokens: 7, completion_tokens: 2, total_tokens: 9 });
+    });
+
+    test('should throw a cli_output_invalid error if the output holds no JSON event', () => {
+      const parser = createOutputParser({ parser: 'jsonl', content: '$.text' });
+
+      expect(() => parser.parse('Please log in first\n')).toThrow(AdapterError);
+    });
+  });
+
+  describe('regex', () => {
+    const output = 'Gemini CLI v1.0\nTips: be specific\n=== BEGIN ===\nHello\nworld\n=== END ===\nTokens used: 12\n';
+
+    test('should stream the content between the markers', () => {
+      const parser = createOutputParser({
+        parser: 'regex',
+        start: '=== BEGIN ===',
+        end: '=== END ===',
+        usagePatterns: { total_tokens: 'Tokens used: (\\d+)' },
+      });
+
+      const result = stream(parser, output);
+
+      expect(result.content).toBe('Hello\nworld');
+      expect(result.usage).toEqual({ prompt_tokens: 0, completion_tokens: 0, total_tokens: 12 });
+    });
+
+    test('should extract the content group of the pattern', () => {
+      const parser = createOutputParser({ parser: 'regex', pattern: 'BEGIN ===\\n(?<content>[\\s\\S]*?)\\n===' });
+
+      expect(parser.parse(output).content).toBe('Hello\nworld');
+    });
+
+    test('should throw a cli_output_invalid error if the start marker is missing', () => {
+      const parser = createOutputParser({ parser: 'regex', start: '>>>' });
+
+      expect(() => parser.parse(output)).toThrow('start marker >>> not found');
+    });
+  });
+});
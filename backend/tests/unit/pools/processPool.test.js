@@ -0,0 +1,144 @@
+const { AbortController } = require('abort-controller');
+const httpStatus = require('http-status');
+const ProcessPool = require('../../../src/pools/processPool');
+const { adapterErrorCodes } = require('../../../src/config/adapters');
+const { replCliPath } = require('../../fixtures/provider.fixture');
+
+describe('ProcessPool', () => {
+  let pool;
+
+  const createPool = (args = [], options = {}) => {
+    pool = new ProcessPool({ command: process.execPath, args: [replCliPath, ...args], size: 1, ...options });
+    return pool;
+  };
+  const pidOf = (answer) => parseInt(answer.split(':')[0], 10);
+
+  afterEach(() => {
+    pool.close();
+  });
+
+  test('should not spawn any process before the first request', () => {
+    expect(createPool().stats()).toMatchObject({ size: 1, processes: [], spawned: 0 });
+  });
+
+  test('should answer the prompts with the same long-lived process', async () => {
+    createPool();
+
+    const first = await pool.run('hello');
+    const second = await pool.run('again');
+
+    expect(first).toMatch(/^\d+: hello$/);
+    expect(pidOf(second)).toBe(pidOf(first));
+    expect(pool.stats()).toMatchObject({ spawned: 1, requests: 2, processes: [{ ready: true, busy: false, requests: 2 }] });
+  });
+
+  test('should stream the pieces of the answer without the delimiter', async () => {
+    createPool();
+    const onData = jest.fn();
+
+    const answer = await pool.run('hello', { onData });
+
+    expect(onData.mock.calls.map(([data]) => data).join('')).toBe(answer);
+  });
+
+  test('should wait for the ready marker and drop the output preceding it', async () => {
+    createPool(['--banner', 'READY'], { readyMarker: 'READY' });
+
+    const answer = await pool.run('hello');
+
+    expect(answer).toMatch(/^\d+: hello$/);
+  });
+
+  test('should support custom delimiters', async () => {
+    createPool(['--delimiter', '\u001e'], { requestDelimiter: '\u001e', responseDelimiter: '\u001e' });
+
+    const answer = await pool.run('multi\nline');
+
+    expect(answer).toMatch(/^\d+: multi\nline$/);
+  });
+
+  test('should queue the requests while every process is busy', async () => {
+    createPool();
+
+    const answers = await Promise.all([pool.run('one'), pool.run('two'), pool.run('three')]);
+
+    expect(answers.map((answer) => answer.split(': ')[1])).toEqual(['one', 'two', 'three']);
+    expect(pool.stats()).toMatchObject({ spawned: 1, queued: 0 });
+  });
+
+  test('should spread the requests over the processes of the pool', async () => {
+    createPool([], { size: 2 });
+
+    const answers = await Promise.all([pool.run('one'), pool.run('two')]);
+
+    expect(pidOf(answers[0])).not.toBe(pidOf(answers[1]));
+  });
+
+  test('should recycle a process after maxRequests requests', async () => {
+    createPool([], { maxRequests: 2 });
+
+    const answers = [await pool.run('one'), await pool.run('two'), await pool.run('three')];
+
+    expect(pidOf(answers[1])).toBe(pidOf(answers[0]));
+    expect(pidOf(answers[2])).not.toBe(pidOf(answers[0]));
+    expect(pool.stats()).toMatchObject({ spawned: 2, recycled: 1 });
+  });
+
+  test('should reject with a cli_crashed error and replace a process which crashes', async () => {
+    createPool(['--crash-on', 'boom']);
+    const before = await pool.run('hello');
+
+    await expect(pool.run('boom')).rejects.toMatchObject({
+      statusCode: httpStatus.BAD_GATEWAY,
+      code: adapterErrorCodes.CLI_CRASHED,
+      message: expect.stringContaining('crashed on purpose'),
+    });
+    const after = await pool.run('hello');
+
+    expect(pidOf(after)).not.toBe(pidOf(before));
+    expect(pool.stats()).toMatchObject({ spawned: 2, crashed: 1 });
+  });
+
+  test('should reject with a cli_timeout error and replace a process which does not answer in time', async () => {
+    createPool(['--hang-on', 'stuck']);
+
+    await expect(pool.run('stuck', { timeoutMs: 200 })).rejects.toMatchObject({
+      statusCode: httpStatus.GATEWAY_TIMEOUT,
+      code: adapterErrorCodes.CLI_TIMEOUT,
+    });
+    await expect(pool.run('hello')).resolves.toMatch(/: hello$/);
+  });
+
+  test('should reject with a cli_timeout error if the ready marker is never printed', async () => {
+    createPool([], { readyMarker: 'READY', startupTimeoutSeconds: 0.2 });
+
+    await expect(pool.run('hello')).rejects.toMatchObject({ code: adapterErrorCodes.CLI_TIMEOUT });
+    expect(pool.stats()).toMatchObject({ processes: [], queued: 0 });
+  });
+
+  test('should reject the queued requests with a cli_not_found error if the command does not exist', async () => {
+    pool = new ProcessPool({ command: '/nonexistent/cli', size: 2 });
+
+    await expect(Promise.all([pool.run('one'), pool.run('two')])).rejects.toMatchObject({
+      code: adapterErrorCodes.CLI_NOT_FOUND,
+    });
+    expect(pool.stats()).toMatchObject({ processes: [], queued: 0, spawned: 2 });
+  });
+
+  test('should kill the process answering an aborted request', async () => {
+    createPool(['--hang-on', 'stuck']);
+    const abortController = new AbortController();
+
+    const promise = pool.run('stuck', { signal: abortController.signal });
+    setTimeout(() => abortController.abort(), 100);
+
+    await expect(promise).rejects.toThrow('Request aborted');
+    expect(pool.stats().processes).toEqual([]);
+  });
+
+  test('should reject the requests sent to a closed pool', async () => {
+    createPool().close();
+
+    await expect(pool.run('hello')).rejects.toMatchObject({ code: adapterErrorCodes.CLI_SPAWN_FAILED });
+  });
+});
@@ -0,0 +1,122 @@
+const { Balancer, getBalancer, resetBalancers } = require('../../../src/routing');
+
+const candidate = (slug, mapping = {}) => ({ provider: { slug }, mapping: { dyadModelId: 'model', ...mapping } });
+const slugs = (balancer, candidates, strategy, count) =>
+  Array.from({ length: count }, () => balancer.pick(candidates, strategy).provider.slug);
+
+describe('Balancer', () => {
+  describe('pick', () => {
+    test('should go through the candidates in turn with round-robin', () => {
+      const balancer = new Balancer();
+      const candidates = [candidate('a'), candidate('b'), candidate('c')];
+
+      expect(slugs(balancer, candidates, 'round-robin', 4)).toEqual(['a', 'b', 'c', 'a']);
+    });
+
+    test('should use round-robin when the model has no strategy', () => {
+      const balancer = new Balancer();
+
+      expect(slugs(balancer, [candidate('a'), candidate('b')], undefined, 2)).toEqual(['a', 'b']);
+    });
+
+    test('should share the requests by weight with weighted-random', () => {
+      const balancer = new Balancer();
+      const candidates = [candidate('a', { weight: 3 }), candidate('b', { weight: 1 }), candidate('c', { weight: 0 })];
+      jest.spyOn(Math, 'random').mockReturnValueOnce(0).mockReturnValueOnce(0.74).mockReturnValueOnce(0.76);
+
+      expect(slugs(balancer, candidates, 'weighted-random', 3)).toEqual(['a', 'a', 'b']);
+      Math.random.mockRestore();
+    });
+
+    test('should pick the provider with the fewest requests in flight with least-in-flight', async () => {
+      const balancer = new Balancer();
+      const candidates = [candidate('a'), candidate('b')];
+      let release;
+      const pending = balancer.track(
+        'a',
+        () =>
+          new Promise((resolve) => {
+            release = resolve;
+          })
+      );
+
+      expect(slugs(balancer, candidates, 'least-in-flight', 2)).toEqual(['b', 'b']);
+      release();
+      await pending;
+      expect(slugs(balancer, candidates, 'least-in-flight', 2)).toEqual(['a', 'a']);
+    });
+
+    test('should pick the fastest provider with lowest-latency, once every provider was measured', async () => {
+      const balancer = new Balancer();
+      const candidates = [candidate('a'), candidate('b')];
+      const now = jest.spyOn(Date, 'now');
+      now.mockReturnValueOnce(0).mockReturnValueOnce(300);
+      await balancer.track('a', async () => {});
+
+      expect(balancer.pick(candidates, 'lowest-latency').provider.slug).toBe('b');
+      now.mockReturnValueOnce(0).mockReturnValueOnce(100);
+      await balancer.track('b', async () => {});
+      expect(balancer.pick(candidates, 'lowest-latency').provider.slug).toBe('b');
+      now.mockRestore();
+    });
+
+    test('should try an unmeasured provider once with lowest-latency, then rank it after the measured ones', async () => {
+      const balancer = new Balancer();
+      const candidates = [candidate('a'), candidate('b')];
+      await balancer.track('a', async () => {});
+
+      expect(balancer.pick(candidates, 'lowest-latency').provider.slug).toBe('b');
+      await expect(balancer.track('b', async () => Promise.reject(new Error('down')))).rejects.toThrow('down');
+      expect(slugs(balancer, candidates, 'lowest-latency', 2)).toEqual(['a', 'a']);
+    });
+  });
+
+  describe('track', () => {
+    test('should count the completed and failed requests of a provider', async () => {
+      const balancer = new Balancer();
+      await balancer.track('a', async () => 'ok');
+      await expect(balancer.track('a', async () => Promise.reject(new Error('down')))).rejects.toThrow('down');
+
+      expect(balancer.getStats().providers).toEqual([
+        { provider: 'a', selected: 0, inFlight: 0, completed: 1, failed: 1, latencyMs: expect.any(Number) },
+      ]);
+    });
+
+    test('should keep a moving average of the latency', async () => {
+      const balancer = new Balancer();
+      const now = jest.spyOn(Date, 'now');
+      now.mockReturnValueOnce(0).mockReturnValueOnce(100).mockReturnValueOnce(0).mockReturnValueOnce(200);
+      await balancer.track('a', async () => {});
+      await balancer.track('a', async () => {});
+      now.mockRestore();
+
+      expect(balancer.getStats().providers[0].latencyMs).toBe(130);
+    });
+  });
+
+  describe('getStats', () => {
+    test('should count the decisions and the requests sent to each provider', () => {
+      const balancer = new Balancer();
+      slugs(balancer, [candidate('a'), candidate('b')], 'round-robin', 3);
+
+      expect(balancer.getStats()).toEqual({
+        decisions: 3,
+        providers: [
+          { provider: 'a', selected: 2, inFlight: 0, completed: 0, failed: 0, latencyMs: null },
+          { provider: 'b', selected: 1, inFlight: 0, completed: 0, failed: 0, latencyMs: null },
+        ],
+      });
+    });
+  });
+
+  describe('getBalancer', () => {
+    test('should keep one balancer per model until it is reset', () => {
+      const balancer = getBalancer('model');
+
+      expect(getBalancer('model')).toBe(balancer);
+      expect(getBalancer('other')).not.toBe(balancer);
+      resetBalancers('model');
+      expect(getBalancer('model')).not.toBe(balancer);
+    });
+  });
+});
@@ -0,0 +1,98 @@
+const { CircuitBreaker } = require('../../../src/routing');
+
+describe('CircuitBreaker', () => {
+  let now;
+  let circuitBreaker;
+
+  const fail = (times) => Array.from({ length: times }, () => circuitBreaker.recordFailure());
+
+  beforeEach(() => {
+    now = 0;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    circuitBreaker = new CircuitBreaker({ failureThreshold: 3, windowSeconds: 60, cooldownSeconds: 30 });
+  });
+
+  afterEach(() => {
+    Date.now.mockRestore();
+  });
+
+  test('should open the circuit once the provider failed failureThreshold times within the window', () => {
+    expect(fail(3)).toEqual([false, false, true]);
+    expect(circuitBreaker.tryAcquire()).toBe(false);
+    expect(circuitBreaker.getState()).toEqual({
+      state: 'open',
+      failures: 3,
+      failureThreshold: 3,
+      openedAt: new Date(0),
+      retryAt: new Date(30 * 1000),
+    });
+  });
+
+  test('should not count the failures older than the window', () => {
+    fail(2);
+    now = 61 * 1000;
+    fail(1);
+
+    expect(circuitBreaker.tryAcquire()).toBe(true);
+    expect(circuitBreaker.getState()).toMatchObject({ state: 'closed', failures: 1 });
+  });
+
+  test('should let a single probe request through once the cool-down is over', () => {
+    fail(3);
+    now = 30 * 1000;
+
+    expect(circuitBreaker.getState().state).toBe('half-open');
+    expect(circuitBreaker.tryAcquire()).toBe(true);
+    expect(circuitBreaker.tryAcquire()).toBe(false);
+  });
+
+  test('should close the circuit if the probe request succeeds', () => {
+    fail(3);
+    now = 30 * 1000;
+    circuitBreaker.tryAcquire();
+    circuitBreaker.recordSuccess();
+
+    expect(circuitBreaker.getState()).toEqual({
+      state: 'closed',
+      failures: 0,
+      failureThreshold: 3,
+      openedAt: null,
+      retryAt: null,
+    });
+    expect(circuitBreaker.tryAcquire()).toBe(true);
+  });
+
+  test('should open the circuit again if the probe request fails', () => {
+    fail(3);
+    now = 30 * 1000;
+    circuitBreaker.tryAcquire();
+
+    expect(circuitBreaker.recordFailure()).toBe(true);
+    expect(circuitBreaker.getState()).toMatchObject({ state: 'open', retryAt: new Date(60 * 1000) });
+    expect(circuitBreaker.retryAfterSeconds()).toBe(30);
+  });
+
+  test('should let another probe request through if the probe was cancelled', () => {
+    fail(3);
+    now = 30 * 1000;
+    circuitBreaker.tryAcquire();
+    circuitBreaker.release();
+
+    expect(circuitBreaker.tryAcquire()).toBe(true);
+  });
+
+  test('should never open the circuit if failureThreshold is 0', () => {
+    circuitBreaker = new CircuitBreaker({ failureThreshold: 0, windowSeconds: 60, cooldownSeconds: 30 });
+    fail(10);
+
+    expect(circuitBreaker.tryAcquire()).toBe(true);
+  });
+
+  test('should close the circuit on reset', () => {
+    fail(3);
+    circuitBreaker.reset();
+
+    expect(circuitBreaker.getState().state).toBe('closed');
+    expect(circuitBreaker.tryAcquire()).toBe(true);
+  });
+});
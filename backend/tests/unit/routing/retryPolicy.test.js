@@ -0,0 +1,86 @@
+const httpStatus = require('http-status');
+const { AbortController } = require('abort-controller');
+const { retryPolicyOf, isRetryable, backoffDelay, sleep } = require('../../../src/routing');
+const AdapterError = require('../../../src/utils/AdapterError');
+const { adapterErrorCodes } = require('../../../src/config/adapters');
+
+describe('Retry policy', () => {
+  const policy = retryPolicyOf({ retryPolicy: { maxRetries: 3, retryableExitCodes: [75] } });
+
+  test('should fill in the defaults the provider does not set', () => {
+    expect(policy).toEqual({
+      maxRetries: 3,
+      initialDelayMs: 250,
+      maxDelayMs: 5000,
+      multiplier: 2,
+      jitter: true,
+      retryableExitCodes: [75],
+    });
+    expect(retryPolicyOf({}).maxRetries).toBe(0);
+  });
+
+  describe('isRetryable', () => {
+    test('should retry the connection errors', () => {
+      const error = new Error('socket hang up');
+      error.code = 'ECONNRESET';
+
+      expect(isRetryable(error, policy)).toBe(true);
+      expect(
+        isRetryable(new AdapterError(httpStatus.BAD_GATEWAY, adapterErrorCodes.UPSTREAM_UNAVAILABLE, 'refused'), policy)
+      ).toBe(true);
+    });
+
+    test('should retry the upstream 502 and 503 responses only', () => {
+      const upstreamError = (upstreamStatus) =>
+        new AdapterError(httpStatus.BAD_GATEWAY, adapterErrorCodes.UPSTREAM_ERROR, 'failed', { upstreamStatus });
+
+      expect(isRetryable(upstreamError(502), policy)).toBe(true);
+      expect(isRetryable(upstreamError(503), policy)).toBe(true);
+      expect(isRetryable(upstreamError(500), policy)).toBe(false);
+    });
+
+    test('should retry the CLI exit codes flagged retryable only', () => {
+      const exitError = (exitCode) =>
+        new AdapterError(httpStatus.BAD_GATEWAY, adapterErrorCodes.CLI_EXIT_ERROR, 'exited', { exitCode });
+
+      expect(isRetryable(exitError(75), policy)).toBe(true);
+      expect(isRetryable(exitError(1), policy)).toBe(false);
+    });
+
+    test('should not retry the other errors', () => {
+      expect(
+        isRetryable(new AdapterError(httpStatus.GATEWAY_TIMEOUT, adapterErrorCodes.UPSTREAM_TIMEOUT, 'slow'), policy)
+      ).toBe(false);
+      expect(isRetryable(new Error('bug'), policy)).toBe(false);
+    });
+  });
+
+  describe('backoffDelay', () => {
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    test('should grow the delay exponentially up to maxDelayMs', () => {
+      const fixed = { ...policy, jitter: false };
+
+      expect([0, 1, 2, 5, 10].map((retry) => backoffDelay(fixed, retry))).toEqual([250, 500, 1000, 5000, 5000]);
+    });
+
+    test('should wait a random delay up to the backoff delay with jitter', () => {
+      jest.spyOn(Math, 'random').mockReturnValue(0.5);
+
+      expect(backoffDelay(policy, 2)).toBe(500);
+    });
+  });
+
+  describe('sleep', () => {
+    test('should stop listening to the abort signal once it woke up', async () => {
+      const { signal } = new AbortController();
+      jest.spyOn(signal, 'removeEventListener');
+
+      await sleep(1, signal);
+
+      expect(signal.removeEventListener).toHaveBeenCalledWith('abort', expect.any(Function));
+    });
+  });
+});
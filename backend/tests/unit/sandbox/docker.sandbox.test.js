@@ -0,0 +1,152 @@
+const { createSandbox, sandboxOptions } = require('../../../src/sandbox');
+const DockerSandbox = require('../../../src/sandbox/docker.sandbox');
+const { createContainerDriver, registerContainerDriver } = require('../../../src/sandbox/drivers');
+const AdapterError = require('../../../src/utils/AdapterError');
+const { adapterErrorCodes } = require('../../../src/config/adapters');
+const FakeDriver = require('../../utils/fakeContainerDriver');
+
+registerContainerDriver(FakeDriver.engine, FakeDriver);
+
+describe('DockerSandbox', () => {
+  const spec = {
+    name: 'gateway-cli-1',
+    image: 'cli-runner:latest',
+    pullPolicy: 'never',
+    command: 'agent',
+    args: ['--quiet'],
+    env: ['LANG'],
+    cpus: 0.5,
+    memoryMb: 256,
+    pidsLimit: 64,
+    network: 'none',
+    readOnly: true,
+    tmpfsMb: 16,
+    user: '1000:1000',
+    workspace: { source: '/tmp/workspace-1', target: '/workspace' },
+  };
+
+  describe('sandboxOptions', () => {
+    test('should read the dockerSandbox short form', () => {
+      expect(sandboxOptions({ dockerSandbox: true, sandboxImage: 'cli-runner', sandbox: { cpus: 2 } })).toEqual({
+        type: 'docker',
+        image: 'cli-runner',
+        cpus: 2,
+      });
+      expect(sandboxOptions({ sandbox: { type: 'local' } })).toEqual({ type: 'local' });
+      expect(sandboxOptions({})).toBeUndefined();
+    });
+  });
+
+  describe('constructor', () => {
+    test('should throw a cli_not_configured error without an image or with an unknown engine', () => {
+      expect(() => createSandbox({ type: 'docker' })).toThrow(AdapterError);
+      expect(() => createSandbox({ type: 'docker', image: 'cli-runner', engine: 'lxc' })).toThrow(
+        'Unknown container engine: lxc'
+      );
+    });
+  });
+
+  describe('drivers', () => {
+    test('should run an ephemeral, locked down container with the docker CLI', () => {
+      expect(createContainerDriver('docker').runCommand(spec)).toEqual({
+        command: 'docker',
+        args: [
+          'run',
+          '--rm',
+          '--interactive',
+          '--name=gateway-cli-1',
+          '--pull=never',
+          '--cpus=0.5',
+          '--memory=256m',
+          '--memory-swap=256m',
+          '--network=none',
+          '--cap-drop=ALL',
+          '--security-opt=no-new-privileges',
+          '--pids-limit=64',
+          '--read-only',
+          '--tmpfs=/tmp:rw,size=16m',
+          '--user=1000:1000',
+          '--mount=type=bind,source=/tmp/workspace-1,target=/workspace',
+          '--workdir=/workspace',
+          '--env',
+          'LANG',
+          'cli-runner:latest',
+          'agent',
+          '--quiet',
+        ],
+      });
+      expect(createContainerDriver('docker').removeCommand('gateway-cli-1')).toEqual({
+        command: 'docker',
+        args: ['rm', '--force', 'gateway-cli-1'],
+      });
+    });
+
+    test('should run the same container with the podman CLI', () => {
+      const { command, args } = createContainerDriver('podman').runCommand(spec);
+
+      expect(command).toBe('podman');
+      expect(args).toEqual(createContainerDriver('docker').runCommand(spec).args);
+    });
+  });
+
+  describe('wrap', () => {
+    test('should hand the spec of the container to the driver', () => {
+      const sandbox = new DockerSandbox({ image: 'cli-runner', engine: 'fake', memoryMb: 128, fileSizeMb: 1 });
+
+      const wrapped = sandbox.wrap({ command: 'agent', args: ['-v'], cwd: '/tmp/workspace-1' });
+
+      expect(wrapped).toEqual({ command: 'agent', args: ['-v'], container: expect.stringMatching(/^gateway-cli-/) });
+      expect(FakeDriver.containers[FakeDriver.containers.length - 1]).toMatchObject({
+        name: wrapped.container,
+        image: 'cli-runner',
+        pullPolicy: 'missing',
+        cpus: 1,
+        memoryMb: 128,
+        fileSizeBytes: 1024 * 1024,
+        network: 'none',
+        readOnly: true,
+        workspace: { source: '/tmp/workspace-1', target: '/workspace' },
+      });
+    });
+  });
+
+  describe('env', () => {
+    const saved = process.env;
+
+    beforeEach(() => {
+      process.env = { PATH: '/usr/bin', DOCKER_HOST: 'unix:///run/docker.sock', LANG: 'C.UTF-8', JWT_SECRET: 'secret' };
+    });
+
+    afterEach(() => {
+      process.env = saved;
+    });
+
+    test('should give the engine CLI its variables and the container only the allowlisted ones', () => {
+      const sandbox = new DockerSandbox({ image: 'cli-runner', env: { set: { MODE: 'ci' } } });
+
+      expect(sandbox.env()).toEqual({
+        PATH: '/usr/bin',
+        DOCKER_HOST: 'unix:///run/docker.sock',
+        LANG: 'C.UTF-8',
+        MODE: 'ci',
+      });
+      expect(sandbox.containerEnv()).toEqual({ LANG: 'C.UTF-8', MODE: 'ci' });
+    });
+  });
+
+  describe('violation', () => {
+    const sandbox = new DockerSandbox({ image: 'cli-runner', maxProcesses: 8 });
+
+    test.each([
+      [{ code: 125, output: 'Unable to find image' }, adapterErrorCodes.SANDBOX_UNAVAILABLE],
+      [{ code: 137, output: '' }, adapterErrorCodes.SANDBOX_MEMORY_LIMIT],
+      [{ code: 1, output: "sh: can't fork: Resource temporarily unavailable" }, adapterErrorCodes.SANDBOX_PROCESS_LIMIT],
+    ])('should recognize %j', (exit, code) => {
+      expect(sandbox.violation(exit)).toMatchObject({ code });
+    });
+
+    test('should not blame the sandbox for a regular failure', () => {
+      expect(sandbox.violation({ code: 1, output: 'Error: file too large' })).toBeUndefined();
+    });
+  });
+});
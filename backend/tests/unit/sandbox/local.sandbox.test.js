@@ -0,0 +1,107 @@
+const { createSandbox, BaseSandbox } = require('../../../src/sandbox');
+const LocalSandbox = require('../../../src/sandbox/local.sandbox');
+const AdapterError = require('../../../src/utils/AdapterError');
+const { adapterErrorCodes } = require('../../../src/config/adapters');
+
+describe('LocalSandbox', () => {
+  describe('createSandbox', () => {
+    test('should create the sandbox of the configured type', () => {
+      expect(createSandbox({ type: 'local' })).toBeInstanceOf(LocalSandbox);
+    });
+
+    test('should throw a cli_not_configured error for an unknown type', () => {
+      expect(() => createSandbox({ type: 'vm' })).toThrow(AdapterError);
+    });
+  });
+
+  describe('wrap', () => {
+    test('should run the command under prlimit with the configured limits', () => {
+      const sandbox = new LocalSandbox({ cpuSeconds: 10, memoryMb: 256, fileSizeMb: 1, maxProcesses: 64 });
+
+      expect(sandbox.wrap({ command: 'agent', args: ['--quiet'] })).toEqual({
+        command: 'prlimit',
+        args: [
+          '--cpu=10:11',
+          `--data=${256 * 1024 * 1024}`,
+          `--fsize=${1024 * 1024}`,
+          '--nproc=64',
+          '--',
+          'agent',
+          '--quiet',
+        ],
+      });
+    });
+
+    test('should drop to the configured user and isolate the network', () => {
+      const sandbox = new LocalSandbox({ uid: 1000, network: 'none' });
+
+      const { command, args } = sandbox.wrap({ command: 'agent', args: [] });
+
+      expect(command).toBe('unshare');
+      expect(args.slice(args.indexOf('setpriv'))).toEqual([
+        'setpriv',
+        '--reuid=1000',
+        '--regid=1000',
+        '--clear-groups',
+        '--',
+        'agent',
+      ]);
+      expect(sandbox.owner()).toEqual({ uid: 1000, gid: 1000 });
+    });
+  });
+
+  describe('env', () => {
+    const saved = process.env;
+
+    beforeEach(() => {
+      process.env = { PATH: '/usr/bin', HOME: '/root', JWT_SECRET: 'secret', MONGODB_URL: 'mongodb://db' };
+    });
+
+    afterEach(() => {
+      process.env = saved;
+    });
+
+    test('should only pass the allowlisted variables of the gateway', () => {
+      const sandbox = new LocalSandbox({ env: { set: { LANG: 'C' } } });
+
+      expect(sandbox.env({ AGENT_TOKEN: 'token' })).toEqual({
+        PATH: '/usr/bin',
+        HOME: '/root',
+        LANG: 'C',
+        AGENT_TOKEN: 'token',
+      });
+    });
+
+    test('should use the configured allowlist', () => {
+      expect(new LocalSandbox({ env: { allow: ['HOME'] } }).env()).toEqual({ HOME: '/root' });
+    });
+  });
+
+  describe('violation', () => {
+    const sandbox = new LocalSandbox({ maxProcesses: 4 });
+
+    test.each([
+      [{ signal: 'SIGXCPU', output: '' }, adapterErrorCodes.SANDBOX_CPU_LIMIT],
+      [{ code: 152, output: '' }, adapterErrorCodes.SANDBOX_CPU_LIMIT],
+      [{ code: 1, output: 'Error: EFBIG: file too large, write' }, adapterErrorCodes.SANDBOX_FILE_SIZE_LIMIT],
+      [{ code: 1, output: 'RangeError: Array buffer allocation failed' }, adapterErrorCodes.SANDBOX_MEMORY_LIMIT],
+      [{ code: 1, output: 'sh: fork: Resource temporarily unavailable' }, adapterErrorCodes.SANDBOX_PROCESS_LIMIT],
+      [{ code: 1, output: 'unshare: unshare failed: Operation not permitted' }, adapterErrorCodes.SANDBOX_UNAVAILABLE],
+    ])('should recognize %j', (exit, code) => {
+      expect(sandbox.violation(exit)).toMatchObject({ code });
+    });
+
+    test('should not blame the sandbox for a regular failure', () => {
+      expect(sandbox.violation({ code: 2, output: 'Error: invalid option' })).toBeUndefined();
+      expect(new LocalSandbox().violation({ code: 1, output: 'fork: Resource temporarily unavailable' })).toBeUndefined();
+    });
+  });
+
+  describe('signalOf', () => {
+    test('should read the signal reported as an exit code by a wrapper', () => {
+      expect(BaseSandbox.signalOf({ code: 137 })).toBe('SIGKILL');
+      expect(BaseSandbox.signalOf({ code: 1 })).toBeUndefined();
+      expect(BaseSandbox.signalOf({ code: null, signal: 'SIGTERM' })).toBe('SIGTERM');
+    });
+  });
+});
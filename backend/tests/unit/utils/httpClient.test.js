@@ -0,0 +1,31 @@
+const http = require('http');
+const { AbortController } = require('abort-controller');
+const { sendRequest, readBody } = require('../../../src/utils/httpClient');
+
+describe('httpClient', () => {
+  let server;
+  let url;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => res.end('ok'));
+    await new Promise((resolve) => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${server.address().port}/`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  describe('sendRequest', () => {
+    test('should stop listening to the abort signal once the request is over', async () => {
+      const { signal } = new AbortController();
+      jest.spyOn(signal, 'addEventListener');
+      jest.spyOn(signal, 'removeEventListener');
+
+      const res = await sendRequest({ url, signal });
+      await expect(readBody(res)).resolves.toBe('ok');
+
+      expect(signal.removeEventListener).toHaveBeenCalledWith('abort', signal.addEventListener.mock.calls[0][1]);
+    });
+  });
+});
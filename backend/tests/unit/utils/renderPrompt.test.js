@@ -0,0 +1,84 @@
+const renderPrompt = require('../../../src/utils/renderPrompt');
+
+describe('renderPrompt', () => {
+  const messages = [
+    { role: 'system', content: 'Be brief' },
+    { role: 'user', content: 'Hi' },
+    { role: 'assistant', content: 'Hello!' },
+    { role: 'user', content: [{ type: 'text', text: 'How are you?' }] },
+  ];
+
+  const toolMessages = [
+    { role: 'user', content: 'Weather in Paris?' },
+    {
+      role: 'assistant',
+      content: null,
+      tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'weather', arguments: '{"city":"Paris"}' } }],
+    },
+    { role: 'tool', tool_call_id: 'call_1', content: 'Sunny' },
+  ];
+
+  test('should render every message as role: content by default', () => {
+    expect(renderPrompt(messages)).toBe('system: Be brief\n\nuser: Hi\n\nassistant: Hello!\n\nuser: How are you?');
+  });
+
+  test('should render the chatml format with the assistant turn opened', () => {
+    expect(renderPrompt(messages.slice(0, 2), { format: 'chatml' })).toBe(
+      '<|im_start|>system\nBe brief<|im_end|>\n<|im_start|>user\nHi<|im_end|>\n<|im_start|>assistant\n'
+    );
+  });
+
+  test('should render the llama3 format with the assistant header opened', () => {
+    expect(renderPrompt(messages.slice(0, 2), { format: 'llama3' })).toBe(
+      '<|begin_of_text|><|start_header_id|>system<|end_header_id|>\n\nBe brief<|eot_id|>' +
+        '<|start_header_id|>user<|end_header_id|>\n\nHi<|eot_id|>' +
+        '<|start_header_id|>assistant<|end_header_id|>\n\n'
+    );
+  });
+
+  test('should only render the last user message with the last-user format', () => {
+    expect(renderPrompt(messages, { format: 'last-user' })).toBe('How are you?');
+  });
+
+  test('should render the custom blocks of each role', () => {
+    const prompt = renderPrompt(messages, {
+      format: 'custom',
+      blocks: { system: '<<SYS>>{{content}}<</SYS>>', user: '[INST] {{content}} [/INST]', assistant: '{{content}}' },
+      separator: '\n',
+      suffix: '\n',
+    });
+
+    expect(prompt).toBe('<<SYS>>Be brief<</SYS>>\n[INST] Hi [/INST]\nHello!\n[INST] How are you? [/INST]\n');
+  });
+
+  test('should keep the system messages and the last maxMessages messages', () => {
+    expect(renderPrompt(messages, { maxMessages: 1 })).toBe('system: Be brief\n\nuser: How are you?');
+  });
+
+  test('should drop the oldest messages until the prompt fits in maxChars', () => {
+    expect(renderPrompt(messages, { maxChars: 60 })).toBe('system: Be brief\n\nassistant: Hello!\n\nuser: How are you?');
+    expect(renderPrompt(messages, { maxChars: 1 })).toBe('system: Be brief\n\nuser: How are you?');
+  });
+
+  test('should serialize tool calls and tool results as text by default', () => {
+    expect(renderPrompt(toolMessages)).toBe(
+      'user: Weather in Paris?\n\nassistant: Tool call call_1: weather({"city":"Paris"})\n\ntool: Sunny'
+    );
+    expect(renderPrompt(toolMessages, { blocks: { tool: 'Result of {{name}}: {{content}}' } })).toContain(
+      'Result of call_1: Sunny'
+    );
+  });
+
+  test('should serialize tool calls and tool results as JSON', () => {
+    const prompt = renderPrompt(toolMessages, { toolResults: 'json' });
+
+    expect(prompt).toBe(
+      `user: Weather in Paris?\n\nassistant: ${JSON.stringify(toolMessages[1].tool_calls)}\n\n` +
+        `tool: ${JSON.stringify({ tool_call_id: 'call_1', content: 'Sunny' })}`
+    );
+  });
+
+  test('should leave tool calls and tool results out of the prompt', () => {
+    expect(renderPrompt(toolMessages, { toolResults: 'omit' })).toBe('user: Weather in Paris?');
+  });
+});
@@ -0,0 +1,169 @@
+/* eslint-disable security/detect-non-literal-fs-filename */
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const httpStatus = require('http-status');
+const { Workspace, attachedFiles } = require('../../../src/workspaces');
+const ApiError = require('../../../src/utils/ApiError');
+const { adapterErrorCodes } = require('../../../src/config/adapters');
+
+describe('Workspace', () => {
+  let template;
+  let workspace;
+
+  beforeAll(async () => {
+    template = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'template-'));
+    await fs.promises.mkdir(path.join(template, 'src'));
+    await fs.promises.writeFile(path.join(template, 'src', 'index.js'), 'console.log(1);\n');
+    await fs.promises.writeFile(path.join(template, 'README.md'), '# app\n');
+  });
+
+  afterEach(async () => {
+    if (workspace) {
+      await workspace.remove();
+      workspace = null;
+    }
+  });
+
+  afterAll(async () => {
+    await fs.promises.rmdir(template, { recursive: true });
+  });
+
+  describe('create', () => {
+    test('should seed the workspace with the template and the files', async () => {
+      workspace = await Workspace.create({ template, files: [{ path: 'data/input.txt', data: Buffer.from('input') }] });
+
+      expect((await workspace.listFiles()).map((file) => file.path).sort()).toEqual([
+        'README.md',
+        'data/input.txt',
+        'src/index.js',
+      ]);
+      expect(await workspace.changes()).toEqual([]);
+    });
+
+    test('should reject the files whose path leaves the workspace, and remove the workspace', async () => {
+      const before = await fs.promises.readdir(os.tmpdir());
+
+      await expect(Workspace.create({ files: [{ path: '../escape.txt', data: Buffer.from('x') }] })).rejects.toThrow(
+        ApiError
+      );
+      await expect(Workspace.create({ files: [{ path: '/etc/escape', data: Buffer.from('x') }] })).rejects.toThrow(
+        'Invalid workspace file path'
+      );
+      expect(await fs.promises.readdir(os.tmpdir())).toEqual(before);
+    });
+
+    test('should give the workspace to its owner', async () => {
+      workspace = await Workspace.create({ template, owner: { uid: 65534, gid: 65534 } });
+
+      const stats = await Promise.all(
+        ['', 'src', 'src/index.js'].map((file) => fs.promises.stat(path.join(workspace.dir, file)))
+      );
+      expect(stats.map(({ uid, gid }) => [uid, gid])).toEqual([
+        [65534, 65534],
+        [65534, 65534],
+        [65534, 65534],
+      ]);
+    });
+
+    test('should throw a cli_not_configured error if the template cannot be read', async () => {
+      await expect(Workspace.create({ template: '/nonexistent/template' })).rejects.toMatchObject({
+        code: adapterErrorCodes.CLI_NOT_CONFIGURED,
+      });
+    });
+
+    test('should throw a workspace_quota_exceeded error if the seeded files exceed the quota', async () => {
+      await expect(
+        Workspace.create({ quotaMb: 0.001, files: [{ path: 'big.bin', data: Buffer.alloc(2048) }] })
+      ).rejects.toMatchObject({
+        statusCode: httpStatus.INSUFFICIENT_STORAGE,
+        code: adapterErrorCodes.WORKSPACE_QUOTA_EXCEEDED,
+      });
+    });
+  });
+
+  describe('changes', () => {
+    test('should list the created, modified and deleted files with their content', async () => {
+      workspace = await Workspace.create({ template });
+      await fs.promises.writeFile(path.join(workspace.dir, 'src', 'index.js'), 'console.log(2);\n');
+      await fs.promises.unlink(path.join(workspace.dir, 'README.md'));
+      await fs.promises.writeFile(path.join(workspace.dir, 'new.txt'), 'new');
+
+      expect(await workspace.changes()).toEqual([
+        { path: 'README.md', status: 'deleted' },
+        { path: 'new.txt', status: 'created', size: 3, sha256: expect.any(String), content: 'bmV3', encoding: 'base64' },
+        {
+          path: 'src/index.js',
+          status: 'modified',
+          size: 16,
+          sha256: expect.any(String),
+          content: Buffer.from('console.log(2);\n').toString('base64'),
+          encoding: 'base64',
+        },
+      ]);
+    });
+
+    test('should omit the content of the files beyond maxReturnedMb', async () => {
+      workspace = await Workspace.create({ maxReturnedMb: 0.001 });
+      await fs.promises.writeFile(path.join(workspace.dir, 'a.txt'), 'small');
+      await fs.promises.writeFile(path.join(workspace.dir, 'b.bin'), Buffer.alloc(2048));
+
+      const changes = await workspace.changes();
+
+      expect(changes[0]).toMatchObject({ path: 'a.txt', content: 'c21hbGw=' });
+      expect(changes[1]).toMatchObject({ path: 'b.bin', contentOmitted: true });
+      expect(changes[1].content).toBeUndefined();
+    });
+
+    test('should not follow symbolic links out of the workspace', async () => {
+      workspace = await Workspace.create();
+      await fs.promises.symlink('/etc/hostname', path.join(workspace.dir, 'link'));
+
+      expect(await workspace.changes()).toEqual([]);
+    });
+  });
+
+  describe('enforceQuota', () => {
+    test('should abort the task and throw a workspace_quota_exceeded error if the workspace outgrows its quota', async () => {
+      workspace = await Workspace.create({ quotaMb: 0.001 });
+
+      const task = (signal) =>
+        new Promise((resolve, reject) => {
+          fs.writeFileSync(path.join(workspace.dir, 'big.bin'), Buffer.alloc(2048));
+          signal.addEventListener('abort', () => reject(new Error('Request aborted')));
+        });
+
+      await expect(workspace.enforceQuota(task)).rejects.toMatchObject({
+        code: adapterErrorCodes.WORKSPACE_QUOTA_EXCEEDED,
+      });
+    });
+
+    test('should resolve with the result of the task', async () => {
+      workspace = await Workspace.create();
+
+      await expect(workspace.enforceQuota(async () => 'done')).resolves.toBe('done');
+    });
+  });
+
+  describe('attachedFiles', () => {
+    test('should read the file content parts of the messages', () => {
+      const messages = [
+        { role: 'system', content: 'Be brief' },
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: 'hello' },
+            { type: 'file', file: { filename: 'a.txt', file_data: 'data:text/plain;base64,aGVsbG8=' } },
+            { type: 'file', file: { filename: 'b.txt', file_data: 'd29ybGQ=' } },
+            { type: 'file', file: { file_id: 'file-123' } },
+          ],
+        },
+      ];
+
+      expect(attachedFiles(messages)).toEqual([
+        { path: 'a.txt', data: Buffer.from('hello') },
+        { path: 'b.txt', data: Buffer.from('world') },
+      ]);
+    });
+  });
+});
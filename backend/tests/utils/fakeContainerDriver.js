@@ -0,0 +1,31 @@
+const { BaseContainerDriver } = require('../../src/sandbox/drivers');
+
+// specs of the containers run, in order; read by the tests
+const containers = [];
+
+/**
+ * Container driver which runs the command on the host instead of a container
+ * It records the spec of every container, and runs the command in the workspace with the container environment.
+ * It isolates nothing, so it is only registered by the tests that need it.
+ */
+class FakeDriver extends BaseContainerDriver {
+  static get engine() {
+    return 'fake';
+  }
+
+  /**
+   * Specs of the containers run so far
+   * @returns {Object[]}
+   */
+  static get containers() {
+    return containers;
+  }
+
+  // eslint-disable-next-line class-methods-use-this
+  runCommand(spec) {
+    containers.push(spec);
+    return { command: spec.command, args: spec.args };
+  }
+}
+
+module.exports = FakeDriver;
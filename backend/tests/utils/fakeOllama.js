@@ -0,0 +1,146 @@
+const http = require('http');
+
+const models = [
+  { name: 'llama3:8b', model: 'llama3:8b', size: 4661224676 },
+  { name: 'nomic-embed-text:latest', model: 'nomic-embed-text:latest', size: 274302450 },
+];
+
+const readJson = (req) =>
+  new Promise((resolve) => {
+    const chunks = [];
+    req.on('data', (chunk) => chunks.push(chunk));
+    req.on('end', () => resolve(chunks.length ? JSON.parse(Buffer.concat(chunks).toString()) : undefined));
+  });
+
+const sendJson = (res, statusCode, body) => {
+  res.writeHead(statusCode, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+// models whose requests fail, with the status and body of the failure
+const failures = {
+  missing: [404, { error: "model 'missing' not found, try pulling it first" }],
+  invalid: [400, { error: { message: 'Context too long', type: 'invalid_request_error', param: 'messages', code: null } }],
+  busy: [429, { error: { message: 'Too many requests', type: 'rate_limit_error', param: null, code: null } }],
+  broken: [500, { error: { message: 'Internal failure', type: 'server_error', param: null, code: null } }],
+};
+
+/**
+ * The answer of the fake server: the last message, prefixed by "echo: "
+ * It is sent back in two pieces when streaming
+ */
+const answerOf = (messages) => {
+  const { content } = messages[messages.length - 1];
+  return `echo: ${Array.isArray(content) ? content.map((part) => part.text).join('') : content}`;
+};
+const splitAnswer = (answer) => [answer.slice(0, 6), answer.slice(6)];
+
+const handlers = {
+  'GET /api/tags': async (req, res) => sendJson(res, 200, { models }),
+  'POST /api/chat': async (req, res, body) => {
+    const answer = answerOf(body.messages);
+    if (!body.stream) {
+      return sendJson(res, 200, {
+        model: body.model,
+        message: { role: 'assistant', content: answer },
+        done: true,
+        done_reason: 'stop',
+        prompt_eval_count: 5,
+        eval_count: 3,
+      });
+    }
+    res.writeHead(200, { 'Content-Type': 'application/x-ndjson' });
+    splitAnswer(answer).forEach((content) => {
+      res.write(`${JSON.stringify({ model: body.model, message: { role: 'assistant', content }, done: false })}\n`);
+    });
+    res.end(
+      `${JSON.stringify({
+        model: body.model,
+        message: { role: 'assistant', content: '' },
+        done: true,
+        done_reason: 'stop',
+        prompt_eval_count: 5,
+        eval_count: 3,
+      })}\n`
+    );
+  },
+  'POST /api/embed': async (req, res, body) => {
+    const inputs = [].concat(body.input);
+    sendJson(res, 200, { model: body.model, embeddings: inputs.map((input) => [input.length, 0.5]), prompt_eval_count: 4 });
+  },
+  'GET /v1/models': async (req, res) =>
+    sendJson(res, 200, { object: 'list', data: models.map((model) => ({ id: model.name, object: 'model' })) }),
+  'POST /v1/chat/completions': async (req, res, body) => {
+    const answer = answerOf(body.messages);
+    if (!body.stream) {
+      return sendJson(res, 200, {
+        id: 'chatcmpl-fake',
+        object: 'chat.completion',
+        created: 1700000000,
+        model: body.model,
+        system_fingerprint: 'fp_fake',
+        choices: [{ index: 0, message: { role: 'assistant', content: answer }, finish_reason: 'stop' }],
+        usage: { prompt_tokens: 5, completion_tokens: 3, total_tokens: 8 },
+      });
+    }
+    res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+    splitAnswer(answer).forEach((content) => {
+      res.write(
+        `data: ${JSON.stringify({
+          id: 'chatcmpl-fake',
+          model: body.model,
+          choices: [{ index: 0, delta: { content }, finish_reason: null }],
+        })}\n\n`
+      );
+    });
+    res.write(
+      `data: ${JSON.stringify({
+        id: 'chatcmpl-fake',
+        model: body.model,
+        choices: [{ index: 0, delta: {}, finish_reason: 'stop' }],
+      })}\n\n`
+    );
+    res.end('data: [DONE]\n\n');
+  },
+  'POST /v1/embeddings': async (req, res, body) => {
+    const inputs = [].concat(body.input);
+    sendJson(res, 200, {
+      object: 'list',
+      data: inputs.map((input, index) => ({ object: 'embedding', index, embedding: [input.length, 0.5] })),
+      usage: { prompt_tokens: 4, total_tokens: 4 },
+    });
+  },
+};
+
+/**
+ * Start an in-process fake Ollama server, answering both the native and the OpenAI-compatible API
+ * Requests for the models of `failures` fail (e.g. "missing" with a 404, like Ollama does for models which are not pulled)
+ * @returns {Promise<{ url: string, requests: Object[], close: function }>}
+ */
+const startFakeOllama = () =>
+  new Promise((resolve) => {
+    const requests = [];
+    const server = http.createServer(async (req, res) => {
+      const body = await readJson(req);
+      requests.push({ method: req.method, url: req.url, headers: req.headers, body });
+      if (body && failures[body.model]) {
+        return sendJson(res, ...failures[body.model]);
+      }
+      const handler = handlers[`${req.method} ${req.url.split('?')[0]}`];
+      if (!handler) {
+        return sendJson(res, 404, { error: 'not found' });
+      }
+      handler(req, res, body);
+    });
+    server.listen(0, '127.0.0.1', () => {
+      resolve({
+        url: `http://127.0.0.1:${server.address().port}`,
+        requests,
+        close: () => new Promise((done) => server.close(done)),
+      });
+    });
+  });
+
+module.exports = {
+  startFakeOllama,
+};